@@ -1,7 +1,17 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // pdfkit reads its font metrics from disk at runtime, so it can't be bundled
+  serverExternalPackages: ["pdfkit"],
+  // The PDF export finds the DejaVu fonts through the package's package.json,
+  // which nothing imports, so standalone builds have to be told to copy them
+  outputFileTracingIncludes: {
+    "/api/export": [
+      "./node_modules/dejavu-fonts-ttf/package.json",
+      "./node_modules/dejavu-fonts-ttf/ttf/DejaVuSans.ttf",
+      "./node_modules/dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf",
+    ],
+  },
 };
 
 export default nextConfig;
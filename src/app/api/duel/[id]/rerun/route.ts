@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { compareDuelRuns, DuelInput, getDuel, runDuel, saveDuel } from '@/lib/duels';
+import { SchemaValidationError } from '@/lib/analysis-schema';
+import { validateCrawlOptions } from '@/lib/seo-crawler';
+
+// Runs a saved duel again with the same URLs and options, saves the new run
+// under its own id and reports what changed since the saved one
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const { id } = await params;
+        const previous = await getDuel(id);
+        if (!previous) {
+            return NextResponse.json({ status: 'error', error: 'Duel not found' }, { status: 404 });
+        }
+
+        // Older duels were saved with the crawl options as posted, so they're
+        // checked again and only the validated ones are run and saved
+        let input: DuelInput;
+        try {
+            const { crawl } = previous.input;
+            input = { ...previous.input, crawl: crawl && typeof crawl === 'object' ? validateCrawlOptions(crawl) : crawl };
+        } catch (err) {
+            if (!(err instanceof SchemaValidationError)) throw err;
+            return NextResponse.json({ status: 'error', error: err.message, issues: err.issues }, { status: 400 });
+        }
+
+        const result = await runDuel(input);
+        if (result.status === 'error') {
+            return NextResponse.json(result, { status: 500 });
+        }
+
+        const current = await saveDuel(input, result);
+        return NextResponse.json({ status: 'ok', id: current.id, comparison: compareDuelRuns(previous, current) });
+
+    } catch (error) {
+        console.error('Duel re-run failed:', error);
+        return NextResponse.json({ status: 'error', error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { getDuel } from '@/lib/duels';
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const duel = await getDuel(id);
+    if (!duel) {
+        return NextResponse.json({ status: 'error', error: 'Duel not found' }, { status: 404 });
+    }
+    return NextResponse.json({ status: 'ok', duel });
+}
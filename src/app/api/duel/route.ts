@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { DuelInput, runDuel, saveDuel } from '@/lib/duels';
+import { SCHEMA_LINK, SchemaValidationError } from '@/lib/analysis-schema';
+import { loadRuleConfig, RuleConfig, validateRuleConfig } from '@/lib/seo-rules';
+import { CrawlOptions, validateCrawlOptions } from '@/lib/seo-crawler';
+import { normalizeUrl } from '@/lib/seo-analyzer';
+import { historyUrl } from '@/lib/history';
+
+const MAX_COMPETITORS = 5;
+
+// URLs that only differ by a fragment, a trailing slash or a missing scheme are the same page
+function pageKey(url: string): string {
+    try {
+        return historyUrl(normalizeUrl(url));
+    } catch {
+        return url.trim();
+    }
+}
+
+export async function POST(request: Request) {
+    try {
+        const body = await request.json();
+        const { userUrl, competitorUrl, crawl, targetKeyword, render } = body;
+        // `competitorUrls` takes a list; a single `competitorUrl` is still accepted.
+        // Each site is analyzed once: repeats, and the user's own URL, are dropped.
+        const seen = new Set(typeof userUrl === 'string' ? [pageKey(userUrl)] : []);
+        const competitorUrls: string[] = (Array.isArray(body.competitorUrls) ? body.competitorUrls : [competitorUrl])
+            .filter((url: unknown): url is string => typeof url === 'string' && url.trim() !== '')
+            .map(normalizeUrl)
+            .filter((url: string) => {
+                const key = pageKey(url);
+                if (seen.has(key)) return false;
+                seen.add(key);
+                return true;
+            });
+
+        if (!userUrl || typeof userUrl !== 'string' || competitorUrls.length === 0) {
+            return NextResponse.json({ status: 'error', error: 'userUrl and at least one competitor URL are required' }, { status: 400 });
+        }
+        if (competitorUrls.length > MAX_COMPETITORS) {
+            return NextResponse.json({ status: 'error', error: `At most ${MAX_COMPETITORS} competitors are supported` }, { status: 400 });
+        }
+
+        // Saved with the duel, so a re-run is scored by the same rules
+        let rules: RuleConfig | undefined;
+        let crawlOptions: boolean | CrawlOptions | undefined;
+        try {
+            rules = body.rules === undefined ? undefined : validateRuleConfig(body.rules, await loadRuleConfig());
+            if (crawl) crawlOptions = typeof crawl === 'object' ? validateCrawlOptions(crawl) : true;
+        } catch (err) {
+            if (!(err instanceof SchemaValidationError)) throw err;
+            return NextResponse.json({ status: 'error', error: err.message, issues: err.issues }, { status: 400 });
+        }
+
+        const input: DuelInput = { userUrl, competitorUrls, targetKeyword, crawl: crawlOptions, render: render === true || undefined, rules };
+        const result = await runDuel(input);
+        if (result.status === 'error') {
+            return NextResponse.json(result, { status: 500 });
+        }
+
+        // Saving the permalink is best effort: the duel itself still succeeded
+        try {
+            result.id = (await saveDuel(input, result)).id;
+        } catch (err) {
+            console.error('Saving duel failed:', err);
+        }
+
+        return NextResponse.json(result, { headers: { Link: SCHEMA_LINK } });
+
+    } catch (error) {
+        console.error('Duel failed:', error);
+        return NextResponse.json({ status: 'error', error: 'Internal server error' }, { status: 500 });
+    }
+}
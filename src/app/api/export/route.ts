@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { EXPORT_CONTENT_TYPES, ExportFormat, exportCsv, exportMarkdown, exportPdf } from '@/lib/duel-export';
+import type { DuelResult } from '@/lib/seo-duel';
+import { SchemaValidationError, validateDuelResult } from '@/lib/analysis-schema';
+
+// Renders a duel, as returned by /api/duel, into a downloadable report.
+// Body: { format: 'pdf' | 'csv' | 'md', duel }
+export async function POST(request: Request) {
+    try {
+        const body = await request.json();
+        const format: ExportFormat = body?.format;
+
+        if (!Object.hasOwn(EXPORT_CONTENT_TYPES, format)) {
+            return NextResponse.json({ status: 'error', error: 'format must be pdf, csv or md' }, { status: 400 });
+        }
+        // The duel comes back from the browser, so it's checked like any other input
+        let duel: DuelResult;
+        try {
+            duel = validateDuelResult(body.duel);
+        } catch (err) {
+            if (!(err instanceof SchemaValidationError)) throw err;
+            return NextResponse.json({ status: 'error', error: err.message, issues: err.issues }, { status: 400 });
+        }
+        if ([duel.user, ...duel.competitors].some(site => !site.report)) {
+            return NextResponse.json({ status: 'error', error: 'duel must be a completed /api/duel result' }, { status: 400 });
+        }
+
+        const content = format === 'pdf'
+            ? new Uint8Array(await exportPdf(duel))
+            : (format === 'csv' ? exportCsv(duel) : exportMarkdown(duel));
+        const host = new URL(duel.user.url).hostname.replace(/^www\./, '');
+        const filename = `seoduel-${host}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+        return new NextResponse(content, {
+            headers: {
+                'Content-Type': EXPORT_CONTENT_TYPES[format],
+                'Content-Disposition': `attachment; filename="${filename}"`
+            }
+        });
+
+    } catch (error) {
+        console.error('Export failed:', error);
+        return NextResponse.json({ status: 'error', error: 'Internal server error' }, { status: 500 });
+    }
+}
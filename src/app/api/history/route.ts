@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { domainOf, listSnapshots } from '@/lib/history';
+import { normalizeUrl } from '@/lib/seo-analyzer';
+
+// GET /api/history?domain=example.com lists every snapshot of the domain,
+// oldest first; `url` narrows it down to one page (and implies the domain).
+export async function GET(request: Request) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const url = searchParams.get('url');
+        const target = url ? normalizeUrl(url) : undefined;
+        const domain = searchParams.get('domain') || (target && domainOf(target));
+
+        if (!domain) {
+            return NextResponse.json({ status: 'error', error: 'domain or url is required' }, { status: 400 });
+        }
+
+        const snapshots = await listSnapshots(domain, target);
+        return NextResponse.json({ status: 'ok', domain, url: target ?? null, snapshots });
+
+    } catch (error) {
+        console.error('History lookup failed:', error);
+        return NextResponse.json({ status: 'error', error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { domainOf, getTimeSeries } from '@/lib/history';
+import { normalizeUrl } from '@/lib/seo-analyzer';
+
+// GET /api/history/timeseries?url=https://example.com/ returns the score and
+// seoBreakdown category scores of every snapshot, oldest first. Takes the
+// same `domain` / `url` parameters as /api/history.
+export async function GET(request: Request) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const url = searchParams.get('url');
+        const target = url ? normalizeUrl(url) : undefined;
+        const domain = searchParams.get('domain') || (target && domainOf(target));
+
+        if (!domain) {
+            return NextResponse.json({ status: 'error', error: 'domain or url is required' }, { status: 400 });
+        }
+
+        const points = await getTimeSeries(domain, target);
+        return NextResponse.json({ status: 'ok', domain, url: target ?? null, points });
+
+    } catch (error) {
+        console.error('Time series lookup failed:', error);
+        return NextResponse.json({ status: 'error', error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { deleteMonitor, listMonitors } from '@/lib/monitors';
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const monitor = (await listMonitors()).find(m => m.id === id);
+    if (!monitor) {
+        return NextResponse.json({ status: 'error', error: 'Monitor not found' }, { status: 404 });
+    }
+    return NextResponse.json({ status: 'ok', monitor });
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    if (!await deleteMonitor(id)) {
+        return NextResponse.json({ status: 'error', error: 'Monitor not found' }, { status: 404 });
+    }
+    return NextResponse.json({ status: 'ok' });
+}
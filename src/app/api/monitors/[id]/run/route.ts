@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { listMonitors, runMonitor } from '@/lib/monitors';
+
+// Runs a monitor now, outside its schedule. Handy to test a webhook.
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const { id } = await params;
+        const monitor = (await listMonitors()).find(m => m.id === id);
+        if (!monitor) {
+            return NextResponse.json({ status: 'error', error: 'Monitor not found' }, { status: 404 });
+        }
+
+        const { run, alert } = await runMonitor(monitor);
+        return NextResponse.json({ status: 'ok', run, alert });
+
+    } catch (error) {
+        console.error('Monitor run failed:', error);
+        return NextResponse.json({ status: 'error', error: 'Internal server error' }, { status: 500 });
+    }
+}
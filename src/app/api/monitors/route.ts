@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { createMonitor, listMonitors, validateMonitor } from '@/lib/monitors';
+
+export async function GET() {
+    try {
+        return NextResponse.json({ status: 'ok', monitors: await listMonitors() });
+    } catch (error) {
+        console.error('Listing monitors failed:', error);
+        return NextResponse.json({ status: 'error', error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// Registers a URL, or a duel with `competitorUrls`, for re-analysis on a cron
+// `schedule`. Regressions are POSTed to `webhookUrl`.
+export async function POST(request: Request) {
+    try {
+        const body = await request.json();
+        const problem = validateMonitor(body);
+        if (problem) {
+            return NextResponse.json({ status: 'error', error: problem }, { status: 400 });
+        }
+
+        const monitor = await createMonitor(body);
+        return NextResponse.json({ status: 'ok', monitor }, { status: 201 });
+
+    } catch (error) {
+        console.error('Creating monitor failed:', error);
+        return NextResponse.json({ status: 'error', error: 'Internal server error' }, { status: 500 });
+    }
+}
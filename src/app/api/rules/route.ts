@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { listRules, loadRuleConfig, SECTIONS } from '@/lib/seo-rules';
+
+// Every registered check with its defaults, i.e. what a rules file or a
+// request's `rules` can turn off or tune, plus the project's own rules file
+export async function GET() {
+    try {
+        const rules = listRules().map(rule => ({
+            id: rule.id,
+            section: rule.section,
+            category: SECTIONS.find(s => s.name === rule.section)!.category,
+            title: rule.title,
+            severity: rule.severity,
+            weight: rule.weight,
+            effort: rule.effort,
+            thresholds: rule.thresholds
+        }));
+        return NextResponse.json({ status: 'ok', rules, config: await loadRuleConfig() });
+    } catch (error) {
+        console.error('Listing rules failed:', error);
+        return NextResponse.json({ status: 'error', error: 'Internal server error' }, { status: 500 });
+    }
+}
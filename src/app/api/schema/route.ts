@@ -0,0 +1,127 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { analysisJsonSchemas, analysisResponseSchema, ANALYSIS_SCHEMA_VERSION } from '@/lib/analysis-schema';
+import { ruleConfigSchema } from '@/lib/seo-rules';
+
+const errorResponse = {
+    description: 'The request was invalid or the site could not be analyzed',
+    content: {
+        'application/json': {
+            schema: {
+                type: 'object',
+                properties: { status: { const: 'error' }, error: { type: 'string' } },
+                required: ['status', 'error']
+            }
+        }
+    }
+};
+
+const ref = (id: string) => ({ $ref: `#/components/schemas/${id}` });
+
+// The rules config is a request body, so it's described as clients write it
+// (defaults optional) rather than as the API reads it
+function ruleConfigComponent(): object {
+    const schema: Record<string, unknown> = { ...z.toJSONSchema(ruleConfigSchema, { io: 'input' }) };
+    delete schema.$schema;
+    return { ...schema, description: 'Turns checks off, changes their severity or thresholds, and adds custom checks. GET /api/rules lists the built-in ones.' };
+}
+
+// The API contract as an OpenAPI 3.1 document, generated from the same
+// schemas the analyzer is validated against. `?format=json-schema` returns
+// just the analysis response as a standalone JSON Schema.
+export async function GET(request: Request) {
+    const format = new URL(request.url).searchParams.get('format');
+    if (format === 'json-schema') {
+        return NextResponse.json(z.toJSONSchema(analysisResponseSchema));
+    }
+
+    return NextResponse.json({
+        openapi: '3.1.0',
+        info: {
+            title: 'SEOduel API',
+            version: `${ANALYSIS_SCHEMA_VERSION}`,
+            description: 'Every analysis carries `schemaVersion`. It changes when a field is renamed, removed or changes meaning; new fields can appear without a change.'
+        },
+        paths: {
+            '/api/analyze': {
+                post: {
+                    summary: 'Analyze a page, or crawl a site',
+                    requestBody: {
+                        required: true,
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        url: { type: 'string' },
+                                        targetKeyword: { type: 'string' },
+                                        rules: ref('RuleConfig'),
+                                        render: { type: 'boolean', description: 'Run the page\'s JavaScript in headless Chrome and analyze the result; technical.rendering lists what JavaScript changed' },
+                                        crawl: {
+                                            oneOf: [
+                                                { type: 'boolean' },
+                                                { type: 'object', properties: { maxDepth: { type: 'integer' }, maxPages: { type: 'integer' } } }
+                                            ]
+                                        }
+                                    },
+                                    required: ['url']
+                                }
+                            }
+                        }
+                    },
+                    responses: {
+                        200: { description: 'The analysis', content: { 'application/json': { schema: ref('AnalysisResponse') } } },
+                        400: errorResponse,
+                        500: errorResponse
+                    }
+                }
+            },
+            '/api/duel': {
+                post: {
+                    summary: 'Compare a site with up to five competitors',
+                    requestBody: {
+                        required: true,
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        userUrl: { type: 'string' },
+                                        competitorUrls: { type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 5 },
+                                        targetKeyword: { type: 'string' },
+                                        crawl: { type: 'boolean' },
+                                        render: { type: 'boolean' },
+                                        rules: ref('RuleConfig')
+                                    },
+                                    required: ['userUrl', 'competitorUrls']
+                                }
+                            }
+                        }
+                    },
+                    responses: {
+                        200: {
+                            description: 'Every site\'s analysis, plus the comparison between them',
+                            content: {
+                                'application/json': {
+                                    schema: {
+                                        type: 'object',
+                                        properties: {
+                                            status: { const: 'ok' },
+                                            id: { type: 'string', description: 'Permalink id; the duel is shared at /duel/{id}' },
+                                            user: ref('AnalysisResponse'),
+                                            competitors: { type: 'array', items: ref('AnalysisResponse') }
+                                        },
+                                        required: ['status', 'user', 'competitors']
+                                    }
+                                }
+                            }
+                        },
+                        400: errorResponse,
+                        500: errorResponse
+                    }
+                }
+            }
+        },
+        components: { schemas: { ...analysisJsonSchemas(), RuleConfig: ruleConfigComponent() } }
+    });
+}
@@ -0,0 +1,110 @@
+import { createServer, Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { GET, POST } from './route';
+
+// A local stand-in for an OpenAI-compatible API: answers every chat
+// completion with `reply` as the model's message
+let server: Server;
+let reply = '';
+let received: { model: string; messages: { role: string; content: string }[] }[] = [];
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            if (req.method !== 'POST' || req.url !== '/v1/chat/completions') {
+                res.writeHead(404).end();
+                return;
+            }
+            received.push(JSON.parse(body));
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({
+                id: 'chatcmpl-test',
+                object: 'chat.completion',
+                created: 0,
+                model: 'test-model',
+                choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: reply } }]
+            }));
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    process.env.SEODUEL_AI_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    process.env.SEODUEL_AI_MODEL = 'test-model';
+});
+
+afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    delete process.env.SEODUEL_AI_BASE_URL;
+    delete process.env.SEODUEL_AI_MODEL;
+    delete process.env.SEODUEL_AI_KEY;
+});
+
+beforeEach(() => {
+    process.env.SEODUEL_AI_KEY = 'test-key';
+    received = [];
+});
+
+const suggest = (body: unknown) => POST(new Request('http://localhost/api/suggest', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+}));
+
+const page = {
+    url: 'https://example.com/duel',
+    title: 'SEO Duel',
+    metaDescription: 'Compare sites.',
+    h1: 'Compare your site',
+    headings: ['Pricing']
+};
+
+describe('/api/suggest', () => {
+    it('returns the suggestions that fit, from the configured model', async () => {
+        const fitting = 'Compare Your Website With Competitors - SEOduel';
+        const description = 'Compare your website with up to five competitors and see which SEO fixes will win you more clicks from Google, step by step.';
+        reply = JSON.stringify({
+            titles: [fitting, 'Too short', 'MAXIMUM WEBSITE COMPARISON WITH MANY COMPETITORS NOW'],
+            metaDescriptions: [description, 'Much too short.'],
+            subtopics: [{ heading: 'Pricing', reason: 'already covered' }, { heading: 'Free trial', reason: 'competitors offer one' }]
+        });
+
+        const res = await suggest({ page, targetKeyword: 'seo duel' });
+        expect(res.status).toBe(200);
+        const body = await res.json();
+        expect(body.model).toBe('test-model');
+        // Too short, and under 60 characters but too wide for Google's title space
+        expect(body.titles).toEqual([fitting]);
+        expect(body.metaDescriptions).toEqual([description]);
+        expect(body.subtopics).toEqual([{ heading: 'Free trial', reason: 'competitors offer one' }]);
+
+        expect(received).toHaveLength(1);
+        expect(received[0].model).toBe('test-model');
+        expect(received[0].messages[0].content).toContain('"seo duel"');
+    });
+
+    it('answers 503 when no model is configured', async () => {
+        delete process.env.SEODUEL_AI_KEY;
+        expect((await (await GET()).json()).enabled).toBe(false);
+
+        const res = await suggest({ page });
+        expect(res.status).toBe(503);
+        expect((await res.json()).error).toContain('SEODUEL_AI_KEY');
+        expect(received).toHaveLength(0);
+    });
+
+    it('answers 502 when the model replies with something other than the JSON asked for', async () => {
+        reply = 'Here are some great titles: 1. SEO Duel';
+
+        const res = await suggest({ page });
+        expect(res.status).toBe(502);
+        expect((await res.json()).error).toMatch(/expected JSON/);
+    });
+
+    it('rejects malformed requests before calling the model', async () => {
+        const res = await suggest({ page: { title: 'No URL' } });
+        expect(res.status).toBe(400);
+        expect(received).toHaveLength(0);
+    });
+});
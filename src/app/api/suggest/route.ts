@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { SchemaValidationError } from '@/lib/analysis-schema';
+import { suggestionModel, suggestionsEnabled, suggestRewrites, SuggestionError, validateSuggestRequest } from '@/lib/suggestions';
+
+// Whether AI suggestions are configured, so clients can hide the feature
+export async function GET() {
+    const enabled = suggestionsEnabled();
+    return NextResponse.json({ status: 'ok', enabled, ...(enabled && { model: suggestionModel() }) });
+}
+
+// Rewritten titles and meta descriptions, plus missing subtopics, for an
+// analyzed page. Body: { page: { url, title, metaDescription, h1, keywords,
+// headings }, targetKeyword?, competitors: [{ url, title, metaDescription, headings }] }
+export async function POST(request: Request) {
+    try {
+        if (!suggestionsEnabled()) {
+            return NextResponse.json({ status: 'error', error: 'AI suggestions are not configured on this server (SEODUEL_AI_KEY)' }, { status: 503 });
+        }
+
+        let input;
+        try {
+            input = validateSuggestRequest(await request.json());
+        } catch (err) {
+            if (!(err instanceof SchemaValidationError)) throw err;
+            return NextResponse.json({ status: 'error', error: err.message, issues: err.issues }, { status: 400 });
+        }
+
+        return NextResponse.json({ status: 'ok', ...await suggestRewrites(input) });
+
+    } catch (error) {
+        if (error instanceof SuggestionError) {
+            return NextResponse.json({ status: 'error', error: error.message }, { status: 502 });
+        }
+        console.error('Suggesting rewrites failed:', error);
+        return NextResponse.json({ status: 'error', error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,40 @@
+import { ImageResponse } from "next/og";
+import { getDuel } from "@/lib/duels";
+
+export const alt = "SEOduel comparison";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+const formatUrl = (url: string) => url.replace(/^https?:\/\//, "").replace(/^www\./, "").replace(/\/$/, "");
+
+// The preview card chat apps and social networks show for a shared duel
+export default async function Image({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const duel = await getDuel(id);
+  const entries = duel?.result.leaderboard.slice(0, 4) || [];
+
+  return new ImageResponse(
+    (
+      <div style={{ width: "100%", height: "100%", display: "flex", flexDirection: "column", background: "#0a0a0c", color: "#f4f4f5", padding: 64 }}>
+        <div style={{ fontSize: 40, fontWeight: 800, color: "#818cf8" }}>SEOduel</div>
+        <div style={{ fontSize: 56, fontWeight: 800, marginTop: 24 }}>
+          {duel ? `${formatUrl(entries[0].url)} wins` : "Duel not found"}
+        </div>
+        <div style={{ display: "flex", flexDirection: "column", marginTop: 40, gap: 20 }}>
+          {entries.map((entry) => (
+            <div key={entry.url} style={{ display: "flex", alignItems: "center", fontSize: 32 }}>
+              <div style={{ width: 440, overflow: "hidden", whiteSpace: "nowrap", textOverflow: "ellipsis", color: entry.isUser ? "#f4f4f5" : "#a1a1aa" }}>
+                {`#${entry.rank} ${formatUrl(entry.url)}`}
+              </div>
+              <div style={{ display: "flex", width: 500, height: 28, background: "#27272a", borderRadius: 14 }}>
+                <div style={{ width: `${entry.score}%`, background: entry.rank === 1 ? "#22c55e" : "#6366f1", borderRadius: 14 }} />
+              </div>
+              <div style={{ marginLeft: 24, fontWeight: 700 }}>{`${entry.score}`}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+    ),
+    size
+  );
+}
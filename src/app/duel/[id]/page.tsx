@@ -0,0 +1,173 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getDuel, SavedDuel } from "@/lib/duels";
+import { formatCategoryScore, formatMetricValue, statusColor } from "@/lib/metric-format";
+import { RerunDuel } from "./rerun-duel";
+
+type Props = { params: Promise<{ id: string }> };
+
+const formatUrl = (url: string) => url.replace(/^https?:\/\//, "").replace(/^www\./, "").replace(/\/$/, "");
+
+const siteLabel = (duel: SavedDuel, url: string) => {
+  if (url === duel.result.user.url) return "Your Site";
+  const count = duel.result.competitors.length;
+  return count > 1 ? `Competitor ${duel.result.competitors.findIndex((c) => c.url === url) + 1}` : "Competitor";
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { id } = await params;
+  const duel = await getDuel(id);
+  if (!duel) return { title: "Duel not found - SEOduel" };
+
+  const { user, competitors, leaderboard } = duel.result;
+  const title = `${formatUrl(user.url)} vs ${competitors.map((c) => formatUrl(c.url)).join(", ")} - SEOduel`;
+  const description = `${formatUrl(leaderboard[0].url)} wins with ${leaderboard[0].score}/100. `
+    + leaderboard.slice(1).map((e) => `${formatUrl(e.url)}: ${e.score}`).join(", ")
+    + `. Compared on ${new Date(duel.createdAt).toDateString()}.`;
+
+  return {
+    title,
+    description,
+    openGraph: { title, description, type: "article", url: `/duel/${duel.id}`, siteName: "SEOduel" },
+    twitter: { card: "summary_large_image", title, description },
+  };
+}
+
+// Read-only view of a saved duel. The stored reports are shown as they were;
+// "Run again" analyzes the same URLs now and compares the two runs.
+export default async function SharedDuel({ params }: Props) {
+  const { id } = await params;
+  const duel = await getDuel(id);
+  if (!duel) notFound();
+
+  const { result } = duel;
+  const sites = [result.user, ...result.competitors];
+  // Against the winner, or the runner-up when the user's site won
+  const rival = result.leaderboard.find((e) => !e.isUser)!;
+  const verdict = result.headToHead[result.competitors.findIndex((c) => c.url === rival.url)]?.verdict;
+
+  return (
+    <div className="app-container">
+      <nav className="sticky-nav">
+        <div className="nav-content">
+          <Link href="/" className="nav-logo">SEOduel</Link>
+          <span></span>
+          <div className="nav-actions">
+            <Link href="/" className="nav-btn">Start your own duel</Link>
+          </div>
+        </div>
+      </nav>
+
+      <section className="results-container shared-duel">
+        <header className="shared-duel-header">
+          <div className="badge">⚔️ Shared duel</div>
+          <h1>{sites.map((s) => formatUrl(s.url)).join(" vs ")}</h1>
+          <p className="shared-duel-meta">
+            Compared on {new Date(duel.createdAt).toLocaleString("en-US", { dateStyle: "long", timeStyle: "short", timeZone: "UTC" })} UTC
+            {duel.input.targetKeyword && <> · target keyword “{duel.input.targetKeyword}”</>}
+          </p>
+        </header>
+
+        <div className="score-cards">
+          {result.leaderboard.map((entry) => (
+            <div key={entry.url} className={`score-card ${entry.rank === 1 ? "winner" : ""}`}>
+              <h3>{sites.length > 2 && <span className="rank-badge">#{entry.rank}</span>}{siteLabel(duel, entry.url)}</h3>
+              <div className="score-circle">
+                <svg viewBox="0 0 36 36" className={`circular-chart ${entry.isUser ? "user-chart" : "competitor-chart"}`}>
+                  <path className="circle-bg"
+                    d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831" />
+                  <path className="circle" strokeDasharray={`${entry.score}, 100`}
+                    d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831" />
+                  <text x="18" y="20.35" className="percentage">{entry.score}</text>
+                </svg>
+              </div>
+              <p className="url-label">{formatUrl(entry.url)}</p>
+              <ul className="score-card-breakdown">
+                {(["onPage", "technical", "authority", "accessibility"] as const).map((key) => (
+                  <li key={key}>
+                    <span>{entry.seoBreakdown[key].label}</span>
+                    <span>{formatCategoryScore(entry.seoBreakdown[key])}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        <div className="winner-banner">
+          {result.leaderboard[0].isUser ? "Your Site Wins" : `${formatUrl(result.leaderboard[0].url)} Wins`}
+        </div>
+        {verdict && <p className="winner-reason">{verdict}</p>}
+
+        <RerunDuel id={duel.id} />
+
+        <div className="comparison-table-wrapper">
+          <table className="comparison-table">
+            <thead>
+              <tr>
+                <th>Metric</th>
+                {sites.map((site) => (
+                  <th key={site.url} className={site.url === result.user.url ? "col-user" : "col-comp"}>
+                    {siteLabel(duel, site.url)}
+                  </th>
+                ))}
+                <th className="col-best">Best in class</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.matrix.map((row) => (
+                <tr key={row.metric}>
+                  <td>{row.title}</td>
+                  {row.cells.map((cell) => (
+                    <td key={cell.url} style={{ color: statusColor(cell.status) }}>
+                      {formatMetricValue(row.metric, cell.status, cell.value)}
+                    </td>
+                  ))}
+                  <td className="col-best">
+                    {row.bestInClass ? (
+                      <>
+                        {formatMetricValue(row.metric, row.bestInClass.status, row.bestInClass.value)}
+                        <span className="best-in-class-source">
+                          {row.bestInClass.urls.length === row.cells.length
+                            ? "all sites"
+                            : row.bestInClass.urls.map(formatUrl).join(", ")}
+                        </span>
+                      </>
+                    ) : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {sites.map((site) => (
+          <section key={site.url} className="shared-duel-report">
+            <div className="dashboard-domain-divider">
+              <span>{siteLabel(duel, site.url)} · {formatUrl(site.url)}</span>
+            </div>
+            {site.report!.sections.map((section) => (
+              <div key={section.name} className="shared-duel-section">
+                <h3>{section.name}</h3>
+                <div className="dashboard-grid">
+                  {section.metrics.filter((m) => m.status !== "unknown").map((m) => (
+                    <div key={m.metric || m.title} className={`dashboard-card status-${m.status}`}>
+                      <span className="card-icon-title">
+                        {m.status === "critical" ? "🔴" : m.status === "warning" ? "🟡" : "🟢"} {m.title}
+                      </span>
+                      <div className="card-details">
+                        <p><strong>Problem:</strong> {m.plainExplanation}</p>
+                        <p><strong>Next step:</strong> {m.action}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </section>
+        ))}
+      </section>
+    </div>
+  );
+}
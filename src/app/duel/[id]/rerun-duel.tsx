@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import type { DuelRunComparison } from "@/lib/duels";
+import { statusColor } from "@/lib/metric-format";
+
+const formatUrl = (url: string) => url.replace(/^https?:\/\//, "").replace(/^www\./, "").replace(/\/$/, "");
+
+// Runs the saved duel again and shows how each site changed since the saved run
+export function RerunDuel({ id }: { id: string }) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [rerun, setRerun] = useState<{ id: string; comparison: DuelRunComparison } | null>(null);
+
+  const runAgain = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/duel/${id}/rerun`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Analysis failed");
+      setRerun({ id: data.id, comparison: data.comparison });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Analysis failed");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!rerun) {
+    return (
+      <div className="action-area rerun-duel">
+        {isLoading ? (
+          <div className="loading"><div className="spinner"></div> Analyzing...</div>
+        ) : (
+          <button className="secondary-btn" onClick={runAgain}>Run this duel again and compare</button>
+        )}
+        {error && <p className="error-message">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="history-panel rerun-duel">
+      <div className="history-header">
+        <h3>Today vs the saved run</h3>
+        <span className="history-meta">
+          Saved as <Link href={`/duel/${rerun.id}`}>/duel/{rerun.id}</Link>
+        </span>
+      </div>
+      {rerun.comparison.sites.map((site) => {
+        const change = site.previousScore === null ? null : site.score - site.previousScore;
+        return (
+          <div key={site.url} className="rerun-site">
+            <div className="rerun-site-header">
+              <strong>{formatUrl(site.url)}</strong>
+              <span className="history-meta">
+                score {site.previousScore ?? "—"} → {site.score}
+                {change !== null && change !== 0 && (
+                  <strong className={change > 0 ? "history-up" : "history-down"}> ({change > 0 ? "+" : ""}{change})</strong>
+                )}
+                {site.previousRank !== null && site.previousRank !== site.rank && <> · rank #{site.previousRank} → #{site.rank}</>}
+              </span>
+            </div>
+            {site.changes.length === 0 ? (
+              <p className="history-empty">No check changed status.</p>
+            ) : (
+              <ul className="history-changes">
+                {site.changes.map((c) => (
+                  <li key={c.metric} className={`history-${c.direction}`}>
+                    <span className="history-direction">
+                      {c.direction === "improved" ? "▲" : c.direction === "regressed" ? "▼" : "•"}
+                    </span>
+                    <span>{c.title}</span>
+                    <span className="history-statuses">
+                      <span style={{ color: statusColor(c.from) }}>{c.from ?? "new"}</span>
+                      {" → "}
+                      <span style={{ color: statusColor(c.to) }}>{c.to ?? "removed"}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
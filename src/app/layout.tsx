@@ -5,6 +5,8 @@ import "./globals.css";
 const inter = Inter({ subsets: ["latin"] });
 
 export const metadata: Metadata = {
+  // Makes shared links' OG image URLs absolute; set to the public address in production
+  metadataBase: new URL(process.env.SEODUEL_BASE_URL || "http://localhost:3000"),
   title: "SEOduel - Compare Website SEO Scores",
   description: "Compare your website with competitors in seconds. Free SEO comparison tool.",
 };
@@ -1,6 +1,18 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import type { DuelResult, LeaderboardEntry, MetricMatrixRow } from "@/lib/seo-duel";
+import type { ExportFormat } from "@/lib/duel-export";
+import type { ContentGapReport } from "@/lib/content-gap";
+import type { OutlineHeading } from "@/lib/headings";
+import type { SeoAnalysisResponse } from "@/lib/seo-analyzer";
+import type { SeoReport } from "@/lib/seo-interpreter";
+import type { ActionTask } from "@/lib/action-plan";
+import type { Suggestions } from "@/lib/suggestions";
+import type { RenderDiff } from "@/lib/rendering";
+import { TITLE_REWRITE_REASONS, type SerpDevice } from "@/lib/serp-snippet";
+import type { HistoryEntry, TimeSeriesPoint } from "@/lib/history";
+import { formatCategoryScore, formatMetricValue, statusColor } from "@/lib/metric-format";
 
 // Helper components
 const CountUp = ({ end, duration = 1500 }: { end: number; duration?: number }) => {
@@ -22,81 +34,235 @@ const CountUp = ({ end, duration = 1500 }: { end: number; duration?: number }) =
   return <>{count}</>;
 };
 
+// Score over time, one line per series, on a fixed 0-100 scale
+const TREND_SERIES = [
+  { key: "score", label: "Overall", color: "var(--primary)" },
+  { key: "onPage", label: "On-page", color: "var(--success)" },
+  { key: "technical", label: "Technical", color: "var(--warning)" },
+  { key: "authority", label: "Authority", color: "var(--text-muted)" },
+] as const;
+
+const TrendChart = ({ points }: { points: TimeSeriesPoint[] }) => {
+  const width = 600;
+  const height = 160;
+  const pad = 8;
+  const x = (i: number) => pad + (points.length > 1 ? (i / (points.length - 1)) * (width - 2 * pad) : (width - 2 * pad) / 2);
+  const y = (value: number) => height - pad - (value / 100) * (height - 2 * pad);
+
+  return (
+    <div className="trend-chart">
+      <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" role="img" aria-label="Score history">
+        {TREND_SERIES.map(({ key, color }) => (
+          <polyline
+            key={key}
+            fill="none"
+            stroke={color}
+            strokeWidth={key === "score" ? 3 : 1.5}
+            points={points.map((p, i) => `${x(i)},${y(p[key])}`).join(" ")}
+          />
+        ))}
+      </svg>
+      <div className="trend-legend">
+        {TREND_SERIES.map(({ key, label, color }) => (
+          <span key={key}><i style={{ background: color }}></i>{label}</span>
+        ))}
+        <span className="trend-range">
+          {new Date(points[0].createdAt).toLocaleDateString()} – {new Date(points[points.length - 1].createdAt).toLocaleDateString()}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+// What Facebook, LinkedIn and X put in a shared link's card, with the
+// fallbacks they use when a tag is missing
+const socialCard = (data: SeoAnalysisResponse) => {
+  const { openGraph, twitter, image, missing } = data.onpage!.og;
+  const resolve = (src?: string) => {
+    try {
+      return src ? new URL(src, data.url).toString() : null;
+    } catch {
+      return null;
+    }
+  };
+  const ogImage = image && image.format && image.status !== null && image.status < 400 ? image.url : null;
+  const title = openGraph["og:title"] || data.onpage!.title.text;
+  const description = openGraph["og:description"] || data.onpage!.meta.text;
+  return {
+    domain: new URL(data.url).hostname.replace(/^www\./, ""),
+    title,
+    description,
+    image: ogImage,
+    x: {
+      large: twitter["twitter:card"] === "summary_large_image",
+      title: twitter["twitter:title"] || title,
+      description: twitter["twitter:description"] || description,
+      image: resolve(twitter["twitter:image"]) || ogImage,
+    },
+    missing,
+  };
+};
+
+const SocialImage = ({ src, className = "" }: { src: string | null; className?: string }) => (
+  src
+    ? <div className={`social-image ${className}`} style={{ backgroundImage: `url(${JSON.stringify(src)})` }} />
+    : <div className={`social-image social-image-missing ${className}`}>No image</div>
+);
+
+// Previews are drawn from the tags; each site crops the image to its own shape
+const SocialCards = ({ card }: { card: ReturnType<typeof socialCard> }) => (
+  <div className="social-cards">
+    <div className="social-card social-facebook">
+      <span className="social-network">Facebook</span>
+      <SocialImage src={card.image} />
+      <div className="social-body">
+        <span className="social-domain">{card.domain.toUpperCase()}</span>
+        <strong className="social-title">{card.title}</strong>
+        <span className="social-desc">{card.description}</span>
+      </div>
+    </div>
+    <div className="social-card social-linkedin">
+      <span className="social-network">LinkedIn</span>
+      <SocialImage src={card.image} />
+      <div className="social-body">
+        <strong className="social-title">{card.title}</strong>
+        <span className="social-domain">{card.domain}</span>
+      </div>
+    </div>
+    <div className={`social-card social-x ${card.x.large ? "" : "social-x-summary"}`}>
+      <span className="social-network">X</span>
+      <div className="social-x-content">
+        <SocialImage src={card.x.image} className={card.x.large ? "" : "social-image-square"} />
+        <div className="social-body">
+          <span className="social-domain">{card.domain}</span>
+          <strong className="social-title">{card.x.title}</strong>
+          {!card.x.large && <span className="social-desc">{card.x.description}</span>}
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
+const MAX_COMPETITORS = 5;
+
+// What the result sections show of each site
+const siteMetrics = (data: SeoAnalysisResponse) => ({
+  fullTitle: data.onpage!.title.text || "No Title Found",
+  fullDesc: data.onpage!.meta.text || "No meta description found for this page.",
+  domain: data.url.replace(/^https?:\/\//, "").replace(/\/$/, ""),
+  outline: data.onpage!.headings.outline,
+  snippet: data.onpage!.snippet,
+  social: socialCard(data),
+});
+
 export default function Home() {
   const [userUrl, setUserUrl] = useState("");
-  const [compUrl, setCompUrl] = useState("");
+  const [compUrls, setCompUrls] = useState<string[]>([""]);
+  const [targetKeyword, setTargetKeyword] = useState("");
+  const [renderJs, setRenderJs] = useState(false);
+  const [serpDevice, setSerpDevice] = useState<SerpDevice>("desktop");
   const [error, setError] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [showResults, setShowResults] = useState(false);
 
   // Results State
   const [results, setResults] = useState<{
-    userScore: number;
-    compScore: number;
     userWins: boolean;
-    metrics: {
-      user: any;
-      comp: any;
-    };
-    userReport?: any;
-    compReport?: any;
+    verdict?: string; // against the winner, or the runner-up when the user wins
+    // User first, then competitors in the order entered
+    sites: {
+      url: string;
+      isUser: boolean;
+      metrics: ReturnType<typeof siteMetrics>;
+    }[];
+    leaderboard: LeaderboardEntry[];
+    matrix: MetricMatrixRow[];
+    contentGap: ContentGapReport;
+    userReport: SeoReport;
+    actionPlan: ActionTask[];
+    rendering?: RenderDiff; // only when JavaScript was rendered
+    userHistory?: HistoryEntry;
+    trend: TimeSeriesPoint[];
   } | null>(null);
 
+  // The raw duel response, sent back as-is when exporting
+  const [duelData, setDuelData] = useState<DuelResult | null>(null);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  // AI rewrites are optional: offered only when the server has a model configured
+  const [aiEnabled, setAiEnabled] = useState(false);
+  const [suggestions, setSuggestions] = useState<Suggestions | null>(null);
+  const [suggesting, setSuggesting] = useState(false);
+  const [suggestError, setSuggestError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/suggest")
+      .then((r) => r.json())
+      .then((r) => setAiEnabled(!!r.enabled))
+      .catch(() => setAiEnabled(false));
+  }, []);
+
   // Toggle states for info sections
   const [expandedOnPage, setExpandedOnPage] = useState(false);
   const [expandedTech, setExpandedTech] = useState(false);
   const [expandedAuth, setExpandedAuth] = useState(false);
 
+  const filledCompUrls = compUrls.filter(u => u.trim());
+
+  const updateCompUrl = (index: number, value: string) => {
+    const next = compUrls.map((u, i) => (i === index ? value : u));
+    setCompUrls(next);
+    if (userUrl && next.some(u => u.trim())) setError(false);
+  };
+
   const startDuel = async () => {
-    if (!userUrl.trim() || !compUrl.trim()) {
+    if (!userUrl.trim() || filledCompUrls.length === 0) {
       setError(true);
       return;
     }
     setError(false);
     setIsLoading(true);
+    setSuggestions(null);
+    setSuggestError(null);
 
     try {
-      const fetchAnalysis = async (url: string) => {
-        const res = await fetch("/api/analyze", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ url })
-        });
-        if (!res.ok) throw new Error("Analysis failed");
-        return res.json();
-      };
-
-      const [userData, compData] = await Promise.all([
-        fetchAnalysis(userUrl),
-        fetchAnalysis(compUrl)
-      ]);
-
-      const mapMetrics = (data: any, url: string) => ({
-        title: data.onpage.title.exists ? `${data.onpage.title.length} chars` : "Missing",
-        isTitleGood: data.onpage.title.exists && data.onpage.title.length >= 30 && data.onpage.title.length <= 60,
-        fullTitle: data.onpage.title.text || "No Title Found",
-        desc: data.onpage.meta.exists ? "Optimized" : "Missing",
-        isDescGood: data.onpage.meta.exists,
-        fullDesc: data.onpage.meta.text || "No meta description found for this page.",
-        headings: data.onpage.headings.h1Exists ? (data.onpage.headings.h1Unique ? "Well Structured" : "Multiple H1s") : "Missing H1",
-        isHeadingsGood: data.onpage.headings.h1Exists && data.onpage.headings.h1Unique,
-        wc: data.onpage.content.wordCount,
-        mob: data.technical.https ? "Secure (HTTPS)" : "Not Secure",
-        isMobGood: data.technical.https,
-        domain: url.replace(/^https?:\/\//, "").replace(/\/$/, ""),
+      const res = await fetch("/api/duel", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userUrl, competitorUrls: filledCompUrls, targetKeyword: targetKeyword.trim() || undefined, render: renderJs || undefined })
       });
+      if (!res.ok) throw new Error("Analysis failed");
+      const duel: DuelResult = await res.json();
+      const { user: userData, competitors, leaderboard, matrix, contentGap } = duel;
+
+      // History is best effort: the duel still shows without it
+      const trend: TimeSeriesPoint[] = await fetch(`/api/history/timeseries?url=${encodeURIComponent(userData.url)}`)
+        .then((r) => r.json())
+        .then((r) => r.points || [])
+        .catch(() => []);
+
+      // The leaderboard is sorted, so the first competitor in it either beat us or came right after us
+      const rival = leaderboard.find((e) => !e.isUser)!;
+      const rivalComparison = duel.headToHead[competitors.findIndex((c) => c.url === rival.url)];
 
       setResults({
-        userScore: userData.report.score,
-        compScore: compData.report.score,
-        userWins: userData.report.score >= compData.report.score,
-        metrics: {
-          user: mapMetrics(userData, userUrl),
-          comp: mapMetrics(compData, compUrl)
-        },
-        userReport: userData.report,
-        compReport: compData.report
+        userWins: leaderboard[0].isUser,
+        verdict: rivalComparison?.verdict,
+        sites: [userData, ...competitors].map((data, i) => ({
+          url: data.url,
+          isUser: i === 0,
+          metrics: siteMetrics(data)
+        })),
+        leaderboard,
+        matrix,
+        contentGap,
+        userReport: userData.report!,
+        actionPlan: duel.actionPlan,
+        rendering: userData.technical?.rendering,
+        userHistory: userData.history,
+        trend
       });
+      setDuelData(duel);
 
       setShowResults(true);
 
@@ -111,8 +277,75 @@ export default function Home() {
   const resetDuel = () => {
     setShowResults(false);
     setResults(null);
+    setDuelData(null);
+    setSuggestions(null);
+    setSuggestError(null);
     setUserUrl("");
-    setCompUrl("");
+    setCompUrls([""]);
+    setTargetKeyword("");
+  };
+
+  const exportDuel = async (format: ExportFormat) => {
+    if (!duelData) return;
+    setExporting(format);
+    try {
+      const res = await fetch("/api/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format, duel: duelData })
+      });
+      if (!res.ok) throw new Error("Export failed");
+
+      const filename = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] || `seoduel.${format}`;
+      const href = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = href;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(href);
+    } catch (err) {
+      console.error(err);
+      alert("The report could not be exported. Please try again.");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const suggestRewrites = async () => {
+    if (!duelData) return;
+    setSuggesting(true);
+    setSuggestError(null);
+    const pageOf = (data: SeoAnalysisResponse) => ({
+      url: data.url,
+      title: data.onpage!.title.text,
+      metaDescription: data.onpage!.meta.text,
+      headings: data.onpage!.headings.outline.filter((h) => h.level > 1 && h.text).map((h) => h.text).slice(0, 50),
+    });
+    try {
+      const { user, competitors } = duelData;
+      const { terms, target } = user.onpage!.keywords;
+      const res = await fetch("/api/suggest", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          page: {
+            ...pageOf(user),
+            h1: user.onpage!.headings.outline.find((h) => h.level === 1)?.text || "",
+            keywords: [...terms.bigrams.slice(0, 5), ...terms.unigrams.slice(0, 10)].map((t) => t.term),
+          },
+          targetKeyword: target?.keyword,
+          competitors: competitors.map(pageOf),
+        })
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Suggestions failed");
+      setSuggestions(body);
+    } catch (err) {
+      console.error(err);
+      setSuggestError(err instanceof Error ? err.message : "Suggestions failed");
+    } finally {
+      setSuggesting(false);
+    }
   };
 
   const formatUrl = (url: string) => {
@@ -145,7 +378,7 @@ export default function Home() {
           <header>
             <div className="badge">⚔️ Compare SEO instantly • LIVE ANALYSIS</div>
             <h1 className="logo">See who wins the SEO duel in seconds</h1>
-            <p className="tagline">Enter your website and a competitor to instantly compare key SEO metrics and see who
+            <p className="tagline">Enter your website and up to five competitors to instantly compare key SEO metrics and see who
               ranks stronger.</p>
           </header>
 
@@ -162,7 +395,7 @@ export default function Home() {
                   value={userUrl}
                   onChange={(e) => {
                     setUserUrl(e.target.value);
-                    if (e.target.value && compUrl) setError(false);
+                    if (e.target.value && filledCompUrls.length > 0) setError(false);
                   }}
                 />
               </div>
@@ -170,21 +403,56 @@ export default function Home() {
               <div className="vs-badge">VS</div>
 
               <div className="input-group">
-                <label htmlFor="competitor-site">Competitor Website</label>
-                <input
-                  type="text"
-                  id="competitor-site"
-                  placeholder="competitor.com"
-                  autoComplete="off"
-                  value={compUrl}
-                  onChange={(e) => {
-                    setCompUrl(e.target.value);
-                    if (userUrl && e.target.value) setError(false);
-                  }}
-                />
+                <label htmlFor="competitor-site-0">{compUrls.length > 1 ? "Competitor Websites" : "Competitor Website"}</label>
+                <div className="competitor-inputs">
+                  {compUrls.map((url, i) => (
+                    <div key={i} className="competitor-row">
+                      <input
+                        type="text"
+                        id={`competitor-site-${i}`}
+                        placeholder="competitor.com"
+                        autoComplete="off"
+                        value={url}
+                        onChange={(e) => updateCompUrl(i, e.target.value)}
+                      />
+                      {compUrls.length > 1 && (
+                        <button
+                          type="button"
+                          className="remove-competitor-btn"
+                          aria-label="Remove competitor"
+                          onClick={() => setCompUrls(compUrls.filter((_, j) => j !== i))}
+                        >
+                          ×
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                {compUrls.length < MAX_COMPETITORS && (
+                  <button type="button" className="add-competitor-btn" onClick={() => setCompUrls([...compUrls, ""])}>
+                    + Add competitor
+                  </button>
+                )}
               </div>
             </div>
 
+            <div className="input-group keyword-input">
+              <label htmlFor="target-keyword">Target Keyword (optional)</label>
+              <input
+                type="text"
+                id="target-keyword"
+                placeholder="e.g. running shoes"
+                autoComplete="off"
+                value={targetKeyword}
+                onChange={(e) => setTargetKeyword(e.target.value)}
+              />
+            </div>
+
+            <label className="render-option">
+              <input type="checkbox" checked={renderJs} onChange={(e) => setRenderJs(e.target.checked)} />
+              Run JavaScript first (for sites built with React, Vue, Angular…)
+            </label>
+
             <ul className="feature-list">
               <li><span className="check-icon">✓</span> 25+ ranking signals</li>
               <li><span className="check-icon">✓</span> Real page data (not estimates)</li>
@@ -197,7 +465,34 @@ export default function Home() {
               )}
 
               {showResults && !isLoading && (
-                <button id="reset-btn-top" className="primary-btn" onClick={resetDuel}>New Comparison</button>
+                <div className="result-actions">
+                  <button id="reset-btn-top" className="primary-btn" onClick={resetDuel}>New Comparison</button>
+                  {duelData?.id && (
+                    <div className="export-actions">
+                      <span>Share:</span>
+                      <a href={`/duel/${duelData.id}`} target="_blank" rel="noopener noreferrer">{`/duel/${duelData.id}`}</a>
+                      <button
+                        className="export-btn"
+                        onClick={() => navigator.clipboard.writeText(`${window.location.origin}/duel/${duelData.id}`)}
+                      >
+                        Copy link
+                      </button>
+                    </div>
+                  )}
+                  <div className="export-actions">
+                    <span>Export report:</span>
+                    {(["pdf", "csv", "md"] as const).map((format) => (
+                      <button
+                        key={format}
+                        className="export-btn"
+                        onClick={() => exportDuel(format)}
+                        disabled={!duelData || exporting !== null}
+                      >
+                        {exporting === format ? "Preparing…" : format === "md" ? "Markdown" : format.toUpperCase()}
+                      </button>
+                    ))}
+                  </div>
+                </div>
               )}
 
               {isLoading && (
@@ -219,39 +514,41 @@ export default function Home() {
         <section id="result-section" className="results-container">
 
           <div className="score-cards">
-            {/* Your Score */}
-            <div className={`score-card ${results.userWins ? 'winner' : ''}`} id="card-user">
-              <h3>Your Site</h3>
-              <div className="score-circle">
-                <svg viewBox="0 0 36 36" className="circular-chart user-chart">
-                  <path className="circle-bg"
-                    d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831" />
-                  <path className="circle" strokeDasharray={`${results.userScore}, 100`}
-                    d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831" />
-                  <text x="18" y="20.35" className="percentage">
-                    <CountUp end={results.userScore} />
-                  </text>
-                </svg>
-              </div>
-              <p className="url-label">{formatUrl(userUrl) || 'example.com'}</p>
-            </div>
-
-            {/* Competitor Score */}
-            <div className={`score-card ${!results.userWins ? 'winner' : ''}`} id="card-competitor">
-              <h3>Competitor</h3>
-              <div className="score-circle">
-                <svg viewBox="0 0 36 36" className="circular-chart competitor-chart">
-                  <path className="circle-bg"
-                    d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831" />
-                  <path className="circle" strokeDasharray={`${results.compScore}, 100`}
-                    d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831" />
-                  <text x="18" y="20.35" className="percentage">
-                    <CountUp end={results.compScore} />
-                  </text>
-                </svg>
-              </div>
-              <p className="url-label">{formatUrl(compUrl) || 'competitor.com'}</p>
-            </div>
+            {results.leaderboard.map((entry) => {
+              const competitorIndex = results.sites.findIndex(site => site.url === entry.url);
+              const heading = entry.isUser
+                ? "Your Site"
+                : (results.sites.length > 2 ? `Competitor ${competitorIndex}` : "Competitor");
+              return (
+                <div
+                  key={entry.url}
+                  className={`score-card ${entry.rank === 1 ? 'winner' : ''}`}
+                  id={entry.isUser ? "card-user" : `card-competitor-${competitorIndex}`}
+                >
+                  <h3>{results.sites.length > 2 && <span className="rank-badge">#{entry.rank}</span>}{heading}</h3>
+                  <div className="score-circle">
+                    <svg viewBox="0 0 36 36" className={`circular-chart ${entry.isUser ? 'user-chart' : 'competitor-chart'}`}>
+                      <path className="circle-bg"
+                        d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831" />
+                      <path className="circle" strokeDasharray={`${entry.score}, 100`}
+                        d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831" />
+                      <text x="18" y="20.35" className="percentage">
+                        <CountUp end={entry.score} />
+                      </text>
+                    </svg>
+                  </div>
+                  <p className="url-label">{formatUrl(entry.url)}</p>
+                  <ul className="score-card-breakdown">
+                    {(['onPage', 'technical', 'authority', 'accessibility'] as const).map((key) => (
+                      <li key={key}>
+                        <span>{entry.seoBreakdown[key].label}</span>
+                        <span>{formatCategoryScore(entry.seoBreakdown[key])}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })}
           </div>
 
           <div id="winner-banner" className="winner-banner" style={{
@@ -259,133 +556,194 @@ export default function Home() {
             WebkitBackgroundClip: "text",
             backgroundClip: "text"
           }}>
-            <span id="winner-text">{results.userWins ? "You Win!" : "Competitor Wins"}</span>
+            <span id="winner-text">
+              {results.userWins
+                ? "You Win!"
+                : (results.sites.length > 2 ? `${formatUrl(results.leaderboard[0].url)} Wins` : "Competitor Wins")}
+            </span>
           </div>
+          {results.verdict && <p className="winner-reason">{results.verdict}</p>}
 
-          {/* Comparison Table */}
+          {/* Comparison Matrix */}
           <div className="comparison-table-wrapper">
             <table className="comparison-table">
               <thead>
                 <tr>
                   <th>Metric</th>
-                  <th className="col-user">Your Site</th>
-                  <th className="col-comp">Competitor</th>
+                  {results.sites.map((site, i) => (
+                    <th key={site.url} className={site.isUser ? "col-user" : "col-comp"}>
+                      {site.isUser ? "Your Site" : (results.sites.length > 2 ? `Competitor ${i}` : "Competitor")}
+                    </th>
+                  ))}
+                  <th className="col-best">Best in class</th>
                 </tr>
               </thead>
               <tbody>
-                <tr>
-                  <td>Title Length</td>
-                  <td style={{ color: results.metrics.user.isTitleGood ? 'var(--success)' : 'var(--text-muted)' }}>{results.metrics.user.title}</td>
-                  <td style={{ color: results.metrics.comp.isTitleGood ? 'var(--success)' : 'var(--text-muted)' }}>{results.metrics.comp.title}</td>
-                </tr>
-                <tr>
-                  <td>Meta Description</td>
-                  <td style={{ color: results.metrics.user.isDescGood ? 'var(--success)' : 'var(--danger)' }}>{results.metrics.user.desc}</td>
-                  <td style={{ color: results.metrics.comp.isDescGood ? 'var(--success)' : 'var(--danger)' }}>{results.metrics.comp.desc}</td>
-                </tr>
-                <tr>
-                  <td>Headings</td>
-                  <td style={{ color: results.metrics.user.isHeadingsGood ? 'var(--success)' : 'var(--warning)' }}>{results.metrics.user.headings}</td>
-                  <td style={{ color: results.metrics.comp.isHeadingsGood ? 'var(--success)' : 'var(--warning)' }}>{results.metrics.comp.headings}</td>
-                </tr>
-                <tr>
-                  <td>Word Count</td>
-                  <td>{results.metrics.user.wc}</td>
-                  <td>{results.metrics.comp.wc}</td>
-                </tr>
-                <tr>
-                  <td>Mobile Friendly</td>
-                  <td style={{ color: results.metrics.user.isMobGood ? 'var(--success)' : 'var(--danger)' }}>{results.metrics.user.mob}</td>
-                  <td style={{ color: results.metrics.comp.isMobGood ? 'var(--success)' : 'var(--danger)' }}>{results.metrics.comp.mob}</td>
-                </tr>
+                {results.matrix.map((row) => (
+                  <tr key={row.metric}>
+                    <td>{row.title}</td>
+                    {row.cells.map((cell) => (
+                      <td key={cell.url} style={{ color: statusColor(cell.status) }}>
+                        {formatMetricValue(row.metric, cell.status, cell.value)}
+                      </td>
+                    ))}
+                    <td className="col-best">
+                      {row.bestInClass ? (
+                        <>
+                          {formatMetricValue(row.metric, row.bestInClass.status, row.bestInClass.value)}
+                          <span className="best-in-class-source">
+                            {row.bestInClass.urls.length === row.cells.length
+                              ? "all sites"
+                              : row.bestInClass.urls.map(formatUrl).join(", ")}
+                          </span>
+                        </>
+                      ) : "—"}
+                    </td>
+                  </tr>
+                ))}
               </tbody>
             </table>
           </div>
 
+          {/* Heading Outlines */}
+          <section className="outline-section">
+            <h2 className="google-preview-title">How each page structures the topic</h2>
+            <div className="outline-grid">
+              {results.sites.map((site, i) => (
+                <div key={site.url} className="outline-column">
+                  <h3>{site.isUser ? "Your site" : (results.sites.length > 2 ? `Competitor ${i}` : "Competitor")}</h3>
+                  {site.metrics.outline.length === 0 ? (
+                    <p className="outline-empty">No headings found.</p>
+                  ) : (
+                    <ol className="outline-list">
+                      {site.metrics.outline.map((h: OutlineHeading, j: number) => {
+                        const issues = [
+                          h.skippedFrom !== null && `skips from H${h.skippedFrom}`,
+                          h.empty && "empty",
+                          h.hidden && "hidden",
+                          h.imageOnly && "image only",
+                        ].filter(Boolean);
+                        return (
+                          <li key={j} style={{ paddingLeft: `${(h.level - 1) * 1}rem` }} className={issues.length > 0 ? "outline-issue" : undefined}>
+                            <span className="outline-level">H{h.level}</span>
+                            <span className="outline-text">{h.text || "(no text)"}</span>
+                            {issues.length > 0 && <span className="outline-flags">{issues.join(", ")}</span>}
+                          </li>
+                        );
+                      })}
+                    </ol>
+                  )}
+                </div>
+              ))}
+            </div>
+          </section>
+
           {/* Google Search Preview Section */}
           <section className="google-preview-section">
             <div className="google-preview-header">
               <h2 className="google-preview-title">How users see your site in Google search</h2>
-              <p className="google-preview-subtitle">This is how your page may appear to people when they search on Google.</p>
+              <p className="google-preview-subtitle">This is how your page may appear to people when they search on Google, and when they share it on social media.</p>
+              <div className="serp-device-toggle" role="group" aria-label="Search device">
+                {(["desktop", "mobile"] as const).map((device) => (
+                  <button key={device} className={serpDevice === device ? "active" : ""} onClick={() => setSerpDevice(device)}>
+                    {device === "desktop" ? "Desktop" : "Mobile"}
+                  </button>
+                ))}
+              </div>
             </div>
 
             <div className="google-preview-grid">
-              {/* Your Site Preview */}
-              <div className="google-preview-card-container">
-                <div className="google-preview-card-labels">
-                  <h3>Your site</h3>
-                </div>
-
-                <div className="google-card">
-                  <div className="google-card-header">
-                    <img
-                      src={`https://www.google.com/s2/favicons?domain=${results.metrics.user.domain}&sz=64`}
-                      alt=""
-                      className="google-favicon"
-                      onError={(e) => { (e.target as HTMLImageElement).src = "https://www.google.com/s2/favicons?domain=google.com&sz=64"; }}
-                    />
-                    <span className="google-domain">{results.metrics.user.domain}</span>
+              {results.sites.map((site, i) => (
+                <div key={site.url} className="google-preview-card-container">
+                  <div className="google-preview-card-labels">
+                    <h3>{site.isUser ? "Your site" : (results.sites.length > 2 ? `Competitor ${i}` : "Competitor")}</h3>
                   </div>
-                  <div className="google-title">
-                    {results.metrics.user.fullTitle.substring(0, 60)}{results.metrics.user.fullTitle.length > 60 ? '...' : ''}
-                  </div>
-                  <div className="google-url">{`https://${results.metrics.user.domain}`}</div>
-                  <div className="google-desc">
-                    {results.metrics.user.fullDesc.substring(0, 155)}{results.metrics.user.fullDesc.length > 155 ? '...' : ''}
-                  </div>
-                </div>
-
-                <div className="google-card-hints">
-                  {results.metrics.user.fullTitle.length > 60 && (
-                    <p className="hint warning-text">⚠️ This title may be cut off in Google</p>
-                  )}
-                  {results.metrics.user.fullDesc.length > 155 || results.metrics.user.fullDesc.length < 50 ? (
-                    <p className="hint muted-text">This text helps users decide whether to click</p>
-                  ) : (
-                    <p className="hint success-text">Looks clear and readable 👍</p>
-                  )}
-                </div>
-              </div>
 
-              {/* Competitor Site Preview */}
-              <div className="google-preview-card-container">
-                <div className="google-preview-card-labels">
-                  <h3>Competitor</h3>
-                </div>
-
-                <div className="google-card">
-                  <div className="google-card-header">
-                    <img
-                      src={`https://www.google.com/s2/favicons?domain=${results.metrics.comp.domain}&sz=64`}
-                      alt=""
-                      className="google-favicon"
-                      onError={(e) => { (e.target as HTMLImageElement).src = "https://www.google.com/s2/favicons?domain=google.com&sz=64"; }}
-                    />
-                    <span className="google-domain">{results.metrics.comp.domain}</span>
-                  </div>
-                  <div className="google-title">
-                    {results.metrics.comp.fullTitle.substring(0, 60)}{results.metrics.comp.fullTitle.length > 60 ? '...' : ''}
+                  <div className={`google-card ${serpDevice === "mobile" ? "google-card-mobile" : ""}`}>
+                    <div className="google-card-header">
+                      <img
+                        src={`https://www.google.com/s2/favicons?domain=${site.metrics.domain}&sz=64`}
+                        alt=""
+                        className="google-favicon"
+                        onError={(e) => { (e.target as HTMLImageElement).src = "https://www.google.com/s2/favicons?domain=google.com&sz=64"; }}
+                      />
+                      <span className="google-domain">{site.metrics.domain}</span>
+                    </div>
+                    <div className="google-title">
+                      {site.metrics.snippet[serpDevice].title.text || site.metrics.fullTitle}
+                    </div>
+                    <div className="google-url">{site.metrics.snippet.breadcrumb}</div>
+                    <div className="google-desc">
+                      {site.metrics.snippet[serpDevice].description.text || site.metrics.fullDesc}
+                    </div>
                   </div>
-                  <div className="google-url">{`https://${results.metrics.comp.domain}`}</div>
-                  <div className="google-desc">
-                    {results.metrics.comp.fullDesc.substring(0, 155)}{results.metrics.comp.fullDesc.length > 155 ? '...' : ''}
+
+                  <div className="google-card-hints">
+                    {site.metrics.snippet[serpDevice].title.truncated && (
+                      <p className="hint warning-text">
+                        ⚠️ This title is cut off in Google ({site.metrics.snippet[serpDevice].title.widthPx} of {site.metrics.snippet[serpDevice].title.maxPx} pixels)
+                      </p>
+                    )}
+                    {site.metrics.snippet.titleRewrite.likely && (
+                      <p className="hint warning-text">
+                        ⚠️ Google will likely show its own title: {site.metrics.snippet.titleRewrite.reasons.map((r) => TITLE_REWRITE_REASONS[r]).join("; ")}
+                      </p>
+                    )}
+                    {site.metrics.snippet[serpDevice].description.truncated || site.metrics.fullDesc.length < 50 ? (
+                      <p className="hint muted-text">This text helps users decide whether to click</p>
+                    ) : (
+                      <p className="hint success-text">Looks clear and readable 👍</p>
+                    )}
                   </div>
-                </div>
 
-                <div className="google-card-hints">
-                  {results.metrics.comp.fullTitle.length > 60 && (
-                    <p className="hint warning-text">⚠️ This title may be cut off in Google</p>
-                  )}
-                  {results.metrics.comp.fullDesc.length > 155 || results.metrics.comp.fullDesc.length < 50 ? (
-                    <p className="hint muted-text">This text helps users decide whether to click</p>
-                  ) : (
-                    <p className="hint success-text">Looks clear and readable 👍</p>
+                  <SocialCards card={site.metrics.social} />
+                  {site.metrics.social.missing.length > 0 && (
+                    <div className="google-card-hints">
+                      <p className="hint warning-text">⚠️ Missing {site.metrics.social.missing.join(", ")}</p>
+                    </div>
                   )}
                 </div>
-              </div>
+              ))}
             </div>
 
-            {results.userScore < results.compScore && (
+            {aiEnabled && (
+              <div className="suggest-panel">
+                {suggestions ? (
+                  <>
+                    <h3>Suggested rewrites</h3>
+                    <div className="suggest-columns">
+                      <div>
+                        <h4>Titles ({suggestions.limits.title.min}–{suggestions.limits.title.max} characters)</h4>
+                        <ul>
+                          {suggestions.titles.map((t) => <li key={t}>{t} <span className="suggest-length">{t.length}</span></li>)}
+                        </ul>
+                      </div>
+                      <div>
+                        <h4>Meta descriptions ({suggestions.limits.metaDescription.min}–{suggestions.limits.metaDescription.max} characters)</h4>
+                        <ul>
+                          {suggestions.metaDescriptions.map((d) => <li key={d}>{d} <span className="suggest-length">{d.length}</span></li>)}
+                        </ul>
+                      </div>
+                    </div>
+                    {suggestions.subtopics.length > 0 && (
+                      <>
+                        <h4>Subtopics to cover</h4>
+                        <ul>
+                          {suggestions.subtopics.map((s) => <li key={s.heading}><strong>{s.heading}</strong>{s.reason && ` — ${s.reason}`}</li>)}
+                        </ul>
+                      </>
+                    )}
+                  </>
+                ) : (
+                  <button className="export-btn" onClick={suggestRewrites} disabled={suggesting || !duelData}>
+                    {suggesting ? "Writing suggestions…" : "Suggest a better title and description"}
+                  </button>
+                )}
+                {suggestError && <p className="hint warning-text">{suggestError}</p>}
+              </div>
+            )}
+
+            {!results.userWins && (
               <div className="conversion-helper-container">
                 <div className="conversion-helper">
                   Improving this preview can significantly increase clicks from Google.
@@ -492,13 +850,13 @@ export default function Home() {
 
               {results?.userReport?.seoBreakdown && (
                 <div className="dashboard-breakdown">
-                  {(['onPage', 'technical', 'authority'] as const).map((key) => {
+                  {(['onPage', 'technical', 'authority', 'accessibility'] as const).map((key) => {
                     const cat = results.userReport.seoBreakdown[key];
                     return (
                       <div key={key} className="breakdown-item">
                         <div className="breakdown-info">
                           <span className="breakdown-label">{cat.label}</span>
-                          <span className="breakdown-score">{cat.score}%</span>
+                          <span className="breakdown-score">{formatCategoryScore(cat)}</span>
                         </div>
                         <div className="breakdown-bar-bg">
                           <div
@@ -512,6 +870,115 @@ export default function Home() {
                 </div>
               )}
 
+              {/* Points lost, worst first: the score is 100 minus these */}
+              {results.userReport.scoreBreakdown.some((m) => m.lost > 0) && (
+                <div className="points-panel">
+                  <h3>Where your points went</h3>
+                  <ul className="points-list">
+                    {[...results.userReport.scoreBreakdown]
+                      .filter((m) => m.lost > 0)
+                      .sort((a, b) => b.lost - a.lost)
+                      .slice(0, 8)
+                      .map((m) => (
+                        <li key={m.metric}>
+                          <span style={{ color: statusColor(m.status) }}>●</span>
+                          <span>{m.title}</span>
+                          <span className="points-lost">−{m.lost} of {m.maxPoints}</span>
+                        </li>
+                      ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Every failing check as a task: fixes that beat a competitor first, then quick wins */}
+              {results.actionPlan.length > 0 && (
+                <div className="plan-panel">
+                  <h3>Action plan</h3>
+                  <ol className="plan-list">
+                    {results.actionPlan.map((task) => (
+                      <li key={task.metric}>
+                        <div className="plan-head">
+                          <span style={{ color: statusColor(task.severity) }}>●</span>
+                          <strong>{task.title}</strong>
+                          <span className="plan-gain">+{task.scoreGain} pts</span>
+                          <span className={`plan-effort effort-${task.effort}`}>{task.effort} effort</span>
+                        </div>
+                        <p>{task.action}</p>
+                        {task.flips && task.flips.length > 0 && (
+                          <p className="plan-flips">Stops {task.flips.map(formatUrl).join(", ")} beating you on this check</p>
+                        )}
+                        {task.details.length > 0 && (
+                          <ul className="plan-details">
+                            {task.details.map((detail, i) => <li key={i}>{detail}</li>)}
+                          </ul>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+
+              {/* Raw HTML vs. the page after JavaScript: what crawlers that don't run it miss */}
+              {results.rendering && results.rendering.elements.length > 0 && (
+                <div className="render-panel">
+                  <h3>What JavaScript changes</h3>
+                  <table className="render-table">
+                    <thead>
+                      <tr><th>Element</th><th>In the HTML</th><th>After JavaScript</th></tr>
+                    </thead>
+                    <tbody>
+                      {results.rendering.elements.map((e) => (
+                        <tr key={e.element} className={`render-${e.change}`}>
+                          <td>{e.label}</td>
+                          <td>{e.raw || "Missing"}</td>
+                          <td>{e.rendered || "Missing"}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {/* Trend & Since Last Audit */}
+              {results.userHistory?.previous && (
+                <div className="history-panel">
+                  <div className="history-header">
+                    <h3>Since your last audit</h3>
+                    <span className="history-meta">
+                      {new Date(results.userHistory.previous.createdAt).toLocaleString()} · score{" "}
+                      {results.userHistory.previous.score} → {results.userHistory.snapshot.score}
+                      {results.userHistory.scoreChange !== 0 && (
+                        <strong className={results.userHistory.scoreChange! > 0 ? "history-up" : "history-down"}>
+                          {" "}({results.userHistory.scoreChange! > 0 ? "+" : ""}{results.userHistory.scoreChange})
+                        </strong>
+                      )}
+                    </span>
+                  </div>
+
+                  {results.trend.length > 1 && <TrendChart points={results.trend} />}
+
+                  {results.userHistory.changes.length === 0 ? (
+                    <p className="history-empty">No check changed status.</p>
+                  ) : (
+                    <ul className="history-changes">
+                      {results.userHistory.changes.map((change) => (
+                        <li key={change.metric} className={`history-${change.direction}`}>
+                          <span className="history-direction">
+                            {change.direction === "improved" ? "▲" : change.direction === "regressed" ? "▼" : "•"}
+                          </span>
+                          <span>{change.title}</span>
+                          <span className="history-statuses">
+                            <span style={{ color: statusColor(change.from) }}>{change.from ?? "new"}</span>
+                            {" → "}
+                            <span style={{ color: statusColor(change.to) }}>{change.to ?? "removed"}</span>
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
               <div className="dashboard-grid">
                 {(() => {
                   const flatMetrics = results?.userReport?.sections?.flatMap((s: any) => s.metrics) || [];
@@ -538,6 +1005,41 @@ export default function Home() {
                   });
                 })()}
               </div>
+
+              {/* Content Gap */}
+              {(() => {
+                const gap = results.contentGap;
+                const groups = [
+                  { title: "Subtopics they cover", items: gap.subtopics.map((t) => ({ ...t, label: t.heading, detail: `H${t.level}` })) },
+                  { title: "Terms they use more", items: gap.terms.map((t) => ({ ...t, label: t.term, detail: `${t.userCount} vs ${t.competitorCount}` })) },
+                  { title: "Names they mention", items: gap.entities.map((t) => ({ ...t, label: t.term, detail: `${t.userCount} vs ${t.competitorCount}` })) },
+                ].filter((g) => g.items.length > 0);
+                if (groups.length === 0) return null;
+
+                return (
+                  <div className="content-gap">
+                    <h3 className="content-gap-title">Content your competitors have that you don&apos;t</h3>
+                    <div className="content-gap-grid">
+                      {groups.map((group) => (
+                        <div key={group.title} className="content-gap-group">
+                          <h4>{group.title}</h4>
+                          <ul>
+                            {group.items.map((item) => (
+                              <li key={item.label} title={`Found on ${item.competitors.map(formatUrl).join(", ")}`}>
+                                <span className="content-gap-importance" style={{ width: `${item.importance}%` }}></span>
+                                <span className="content-gap-label">{item.label}</span>
+                                <span className={`content-gap-status status-${item.status}`}>
+                                  {item.status === "missing" ? "missing" : "thin"} · {item.detail}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })()}
             </div>
           )}
         </div>
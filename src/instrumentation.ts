@@ -0,0 +1,8 @@
+// Runs once when the server starts
+export async function register() {
+    // The scheduler needs Node's file system and timers, not the edge runtime
+    if (process.env.NEXT_RUNTIME === 'nodejs') {
+        const { startMonitorScheduler } = await import('@/lib/monitors');
+        startMonitorScheduler();
+    }
+}
@@ -0,0 +1,282 @@
+import { CheerioAPI } from 'cheerio';
+import type { Element } from 'domhandler';
+import { parseDeclarations, toPx } from '@/lib/css';
+
+// Accessibility problems that show in the HTML alone. Anything that needs the
+// rendered page (focus order, CSS colors, visible focus) is out of reach, so a
+// clean result here isn't a full audit.
+
+const MAX_ISSUES = 10; // per check, with locators; the count covers them all
+
+// Only contrast ratios below this are recorded; the rule's thresholds pick from them
+const CONTRAST_CANDIDATE = 4.5;
+
+export interface A11yIssue {
+    selector: string; // CSS selector path to the element, e.g. "main > form > input:nth-of-type(2)"
+    html: string; // the element's opening tag
+    problem: string;
+}
+
+export interface IssueList {
+    count: number;
+    issues: A11yIssue[];
+}
+
+export interface ContrastIssue extends A11yIssue {
+    ratio: number;
+    large: boolean; // 24px, or 18.66px bold: needs less contrast
+}
+
+export interface AccessibilityInfo {
+    lang: { value: string | null; valid: boolean };
+    formFields: number;
+    unlabeledFields: IssueList;
+    buttons: number;
+    unnamedButtons: IssueList;
+    links: number;
+    unnamedLinks: IssueList;
+    aria: IssueList;
+    duplicateIds: IssueList;
+    landmarks: { main: number; banner: number; navigation: number; contentinfo: number };
+    lowContrast: { count: number; issues: ContrastIssue[] }; // from inline styles only
+}
+
+// WAI-ARIA 1.2; doc-* and graphics-* roles are checked by prefix
+const ARIA_ROLES = new Set(('alert alertdialog application article banner blockquote button caption cell checkbox code columnheader ' +
+    'combobox complementary contentinfo definition deletion dialog directory document emphasis feed figure form generic grid ' +
+    'gridcell group heading img insertion link list listbox listitem log main marquee math menu menubar menuitem ' +
+    'menuitemcheckbox menuitemradio meter navigation none note option paragraph presentation progressbar radio radiogroup ' +
+    'region row rowgroup rowheader scrollbar search searchbox separator slider spinbutton status strong subscript superscript ' +
+    'switch tab table tablist tabpanel term textbox time timer toolbar tooltip tree treegrid treeitem').split(' '));
+
+const ARIA_ATTRIBUTES = new Set(('activedescendant atomic autocomplete braillelabel brailleroledescription busy checked colcount ' +
+    'colindex colindextext colspan controls current describedby description details disabled dropeffect errormessage expanded ' +
+    'flowto grabbed haspopup hidden invalid keyshortcuts label labelledby level live modal multiline multiselectable orientation ' +
+    'owns placeholder posinset pressed readonly relevant required roledescription rowcount rowindex rowindextext rowspan selected ' +
+    'setsize sort valuemax valuemin valuenow valuetext').split(' ').map(a => `aria-${a}`));
+
+const ID_REFERENCES = ['aria-labelledby', 'aria-describedby', 'aria-controls', 'aria-owns', 'aria-activedescendant', 'aria-errormessage'];
+
+const FOCUSABLE = 'a[href], button, input:not([type="hidden" i]), select, textarea, [tabindex]:not([tabindex^="-"])';
+
+// --- Locators ---
+
+const isTag = (node: unknown): node is Element => (node as Element)?.type === 'tag';
+
+// Shortest path up to the nearest ancestor with a unique id, or to <html>
+function selectorPath(el: Element, uniqueIds: Set<string>): string {
+    const parts: string[] = [];
+    for (let node: Element | null = el; node; node = isTag(node.parent) ? node.parent : null) {
+        const tag = node.tagName.toLowerCase();
+        const id = node.attribs.id;
+        if (id && uniqueIds.has(id) && /^[A-Za-z][\w-]*$/.test(id)) {
+            parts.unshift(`${tag}#${id}`);
+            break;
+        }
+        const sameTag = (node.parent?.children || []).filter(c => isTag(c) && c.tagName === node!.tagName);
+        parts.unshift(sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.indexOf(node) + 1})` : tag);
+    }
+    return parts.join(' > ');
+}
+
+function openingTag(el: Element): string {
+    const attrs = Object.entries(el.attribs).map(([name, value]) => value === '' ? ` ${name}` : ` ${name}="${value}"`).join('');
+    const tag = `<${el.tagName}${attrs}>`;
+    return tag.length > 120 ? `${tag.slice(0, 117)}...` : tag;
+}
+
+function collect(entries: { el: Element; problem: string }[], uniqueIds: Set<string>): IssueList {
+    return {
+        count: entries.length,
+        issues: entries.slice(0, MAX_ISSUES).map(({ el, problem }) => ({ selector: selectorPath(el, uniqueIds), html: openingTag(el), problem }))
+    };
+}
+
+// --- Accessible names ---
+
+const clean = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// An attribute value as a quoted selector string
+const quoted = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+const byId = ($: CheerioAPI, id: string) => $(`[id=${quoted(id)}]`);
+
+// A simplified accessible name: ARIA first, then content, then the title tooltip
+function accessibleName($: CheerioAPI, el: Element): string {
+    const $el = $(el);
+    const labelledBy = ($el.attr('aria-labelledby') || '').split(/\s+/).filter(Boolean)
+        .map(id => clean(byId($, id).text())).join(' ');
+    const content = clean([
+        $el.text(),
+        ...$el.find('img[alt], [role="img"][aria-label]').map((i, img) => $(img).attr('alt') || $(img).attr('aria-label')).get(),
+        ...$el.find('svg title').map((i, title) => $(title).text()).get()
+    ].join(' '));
+    return clean(labelledBy || $el.attr('aria-label') || content || $el.attr('title') || '');
+}
+
+function fieldLabel($: CheerioAPI, el: Element): string {
+    const $el = $(el);
+    const id = $el.attr('id');
+    const explicit = id ? $(`label[for=${quoted(id)}]`).text() : '';
+    const wrapping = $el.closest('label').text();
+    const labelledBy = ($el.attr('aria-labelledby') || '').split(/\s+/).filter(Boolean).map(ref => byId($, ref).text()).join(' ');
+    return clean(labelledBy || $el.attr('aria-label') || explicit || wrapping || $el.attr('title') || '');
+}
+
+// --- Color contrast ---
+
+const NAMED_COLORS: Record<string, string> = {
+    black: '#000000', white: '#ffffff', gray: '#808080', grey: '#808080', silver: '#c0c0c0', lightgray: '#d3d3d3',
+    lightgrey: '#d3d3d3', darkgray: '#a9a9a9', darkgrey: '#a9a9a9', gainsboro: '#dcdcdc', whitesmoke: '#f5f5f5',
+    red: '#ff0000', maroon: '#800000', orange: '#ffa500', yellow: '#ffff00', olive: '#808000', lime: '#00ff00',
+    green: '#008000', aqua: '#00ffff', cyan: '#00ffff', teal: '#008080', blue: '#0000ff', navy: '#000080',
+    fuchsia: '#ff00ff', magenta: '#ff00ff', purple: '#800080', pink: '#ffc0cb', beige: '#f5f5dc', ivory: '#fffff0'
+};
+
+type Rgb = [number, number, number];
+
+// Opaque colors only: with transparency, the color shown depends on what's behind
+function parseColor(value: string): Rgb | null {
+    const color = NAMED_COLORS[value] || value;
+    let match = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+    if (match) {
+        const hex = match[1].length === 3 ? match[1].replace(/./g, c => c + c) : match[1];
+        return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16)) as Rgb;
+    }
+    match = color.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)\s*(?:[,/]\s*([\d.]+%?)\s*)?\)$/i);
+    if (match && (match[4] === undefined || parseFloat(match[4]) >= (match[4].endsWith('%') ? 100 : 1))) {
+        return [match[1], match[2], match[3]].map(Number) as Rgb;
+    }
+    return null;
+}
+
+// The first token of a `background` shorthand that is a color
+function backgroundColor(declarations: Map<string, string>): Rgb | null {
+    const value = declarations.get('background-color') || declarations.get('background');
+    if (!value) return null;
+    return parseColor(value) || value.split(/\s+(?![^(]*\))/).map(parseColor).find(Boolean) || null;
+}
+
+function luminance([r, g, b]: Rgb): number {
+    const [R, G, B] = [r, g, b].map(c => {
+        const s = c / 255;
+        return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+    });
+    return 0.2126 * R + 0.7152 * G + 0.0722 * B;
+}
+
+function contrastRatio(a: Rgb, b: Rgb): number {
+    const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+    return (light + 0.05) / (dark + 0.05);
+}
+
+// Text whose color and background both come from style="" on it or its ancestors
+function findLowContrast($: CheerioAPI, uniqueIds: Set<string>) {
+    const found: { el: Element; problem: string; ratio: number; large: boolean }[] = [];
+    $('body [style], body [style] *').each((i, el) => {
+        const ownText = el.children.some(c => c.type === 'text' && c.data.trim());
+        if (!ownText) return;
+        let color: Rgb | null = null;
+        let background: Rgb | null = null;
+        let fontSize: string | undefined;
+        let fontWeight: string | undefined;
+        for (const node of [el, ...$(el).parents().toArray()]) {
+            const declarations = parseDeclarations(node.attribs.style || '');
+            color ??= declarations.has('color') ? parseColor(declarations.get('color')!) : null;
+            background ??= backgroundColor(declarations);
+            fontSize ??= declarations.get('font-size');
+            fontWeight ??= declarations.get('font-weight');
+            if (color && background) break;
+        }
+        if (!color || !background) return;
+        const ratio = Math.round(contrastRatio(color, background) * 100) / 100;
+        if (ratio >= CONTRAST_CANDIDATE) return;
+        const px = fontSize ? toPx(fontSize) ?? 0 : 0;
+        const bold = fontWeight === 'bold' || parseInt(fontWeight || '', 10) >= 700;
+        found.push({ el, problem: `contrast ratio ${ratio}:1`, ratio, large: px >= 24 || (bold && px >= 18.66) });
+    });
+    const { count, issues } = collect(found, uniqueIds);
+    return { count, issues: issues.map((issue, i) => ({ ...issue, ratio: found[i].ratio, large: found[i].large })) };
+}
+
+// --- The audit ---
+
+export function analyzeAccessibility($: CheerioAPI): AccessibilityInfo {
+    const idCounts = new Map<string, Element[]>();
+    $('[id]').each((i, el) => {
+        const id = el.attribs.id;
+        if (id) idCounts.set(id, [...(idCounts.get(id) || []), el]);
+    });
+    const uniqueIds = new Set([...idCounts].filter(([, els]) => els.length === 1).map(([id]) => id));
+    const idExists = (id: string) => idCounts.has(id);
+
+    const lang = $('html').attr('lang')?.trim() || null;
+
+    // Fields: hidden ones and buttons excluded
+    const fields = $('input, select, textarea').filter((i, el) => {
+        const type = ($(el).attr('type') || 'text').toLowerCase();
+        return !['hidden', 'submit', 'button', 'reset', 'image'].includes(type);
+    }).toArray();
+    const unlabeledFields = fields
+        .filter(el => !fieldLabel($, el))
+        .map(el => ({ el, problem: $(el).attr('placeholder') ? 'only a placeholder, which disappears while typing' : 'no label' }));
+
+    // Submit and reset inputs get a default name from the browser
+    const buttons = $('button, [role="button"], input[type="button" i], input[type="image" i]').toArray();
+    const unnamedButtons = buttons
+        .filter(el => !accessibleName($, el) && !$(el).attr('value') && !$(el).attr('alt'))
+        .map(el => ({ el, problem: 'no text or label' }));
+
+    const links = $('a[href]').toArray();
+    const unnamedLinks = links
+        .filter(el => !accessibleName($, el))
+        .map(el => ({ el, problem: 'no text or label' }));
+
+    const aria: { el: Element; problem: string }[] = [];
+    $('*').toArray().filter(isTag).forEach(el => {
+        const role = el.attribs.role?.trim().toLowerCase().split(/\s+/)[0];
+        if (role && !ARIA_ROLES.has(role) && !/^(doc|graphics)-/.test(role)) {
+            aria.push({ el, problem: `unknown role "${role}"` });
+        }
+        Object.keys(el.attribs).filter(name => name.startsWith('aria-')).forEach(name => {
+            if (!ARIA_ATTRIBUTES.has(name)) {
+                aria.push({ el, problem: `unknown attribute ${name}` });
+            } else if (ID_REFERENCES.includes(name)) {
+                const missing = el.attribs[name].split(/\s+/).filter(id => id && !idExists(id));
+                if (missing.length > 0) aria.push({ el, problem: `${name} points to missing id "${missing.join('", "')}"` });
+            }
+        });
+    });
+    // Hidden from screen readers, yet still reachable with the keyboard
+    $('[aria-hidden="true"]').each((i, el) => {
+        const focusable = $(el).is(FOCUSABLE) ? el : $(el).find(FOCUSABLE).get(0);
+        if (focusable) aria.push({ el: focusable, problem: 'focusable element inside aria-hidden="true"' });
+    });
+
+    const duplicateIds = [...idCounts]
+        .filter(([, els]) => els.length > 1)
+        .map(([id, els]) => ({ el: els[1], problem: `id "${id}" is used by ${els.length} elements` }));
+
+    // Sectioning elements only count as banner and contentinfo outside articles and sections
+    const topLevel = (selector: string) => $(selector).filter((i, el) => $(el).closest('article, aside, main, nav, section').length === 0).length;
+    const landmarks = {
+        main: $('main, [role="main"]').length,
+        banner: topLevel('header') + $('[role="banner"]').length,
+        navigation: $('nav, [role="navigation"]').length,
+        contentinfo: topLevel('footer') + $('[role="contentinfo"]').length
+    };
+
+    return {
+        lang: { value: lang, valid: !!lang && /^[a-z]{2,3}(-[a-z0-9]{1,8})*$/i.test(lang) },
+        formFields: fields.length,
+        unlabeledFields: collect(unlabeledFields, uniqueIds),
+        buttons: buttons.length,
+        unnamedButtons: collect(unnamedButtons, uniqueIds),
+        links: links.length,
+        unnamedLinks: collect(unnamedLinks, uniqueIds),
+        aria: collect(aria, uniqueIds),
+        duplicateIds: collect(duplicateIds, uniqueIds),
+        landmarks,
+        lowContrast: findLowContrast($, uniqueIds)
+    };
+}
@@ -0,0 +1,53 @@
+import type { MetricResult, MetricScore, SeoSection } from '@/lib/seo-interpreter';
+
+export type Effort = NonNullable<MetricResult["effort"]>;
+
+export interface ActionTask {
+    metric: string;
+    title: string;
+    section: string;
+    urls: string[]; // pages to fix: the analyzed one, or every failing page of a crawl
+    severity: "warning" | "critical";
+    scoreGain: number; // points the score goes up once the metric is good, everything else unchanged
+    effort: Effort;
+    action: string;
+    details: string[]; // specifics for the action, like the current title and how much to cut
+    flips?: string[]; // duels only: competitors that beat you on this metric now, and wouldn't after the fix
+}
+
+// Relative cost of each effort level: a quick fix worth 4 points comes
+// before a rewrite worth 6
+const EFFORT_COST: Record<Effort, number> = { low: 1, medium: 2, high: 4 };
+
+// Reports from before efforts were recorded
+const DEFAULT_EFFORT: Effort = "medium";
+
+const priority = (task: ActionTask) => task.scoreGain / EFFORT_COST[task.effort];
+
+// Most points per unit of work first, then the bigger gain
+export function byPriority(a: ActionTask, b: ActionTask): number {
+    return priority(b) - priority(a) || b.scoreGain - a.scoreGain;
+}
+
+// One task per warning or critical metric. Unknown metrics weren't measured,
+// so there is nothing to fix yet and no score to gain.
+export function planActions(sections: SeoSection[], scores: MetricScore[], pagesFor: (metric: string) => string[]): ActionTask[] {
+    const gains = new Map(scores.map(s => [s.metric, s.lost]));
+    const tasks: ActionTask[] = [];
+    sections.forEach(section => section.metrics.forEach(m => {
+        if (m.status !== "warning" && m.status !== "critical") return;
+        const metric = m.metric || m.title;
+        tasks.push({
+            metric,
+            title: m.title,
+            section: section.name,
+            urls: pagesFor(metric),
+            severity: m.status,
+            scoreGain: gains.get(metric) ?? 0,
+            effort: m.effort ?? DEFAULT_EFFORT,
+            action: m.action,
+            details: m.fixDetails ?? []
+        });
+    }));
+    return tasks.sort(byPriority);
+}
@@ -0,0 +1,639 @@
+import { z } from 'zod';
+import type { SeoAnalysisResponse } from '@/lib/seo-analyzer';
+import type { MetricResult, MetricScore, SeoBreakdown, SeoBreakdownCategory, SeoReport } from '@/lib/seo-interpreter';
+import type { SiteCrawl } from '@/lib/seo-crawler';
+import type { HistoryEntry, MetricChange, SnapshotSummary } from '@/lib/history';
+import type { CanonicalInfo } from '@/lib/canonical';
+import type { HreflangInfo } from '@/lib/hreflang';
+import type { PerformanceInfo } from '@/lib/performance';
+import type { SitemapSummary } from '@/lib/sitemap';
+import type { RobotsGroup } from '@/lib/robots-txt';
+import type { RedirectHop } from '@/lib/redirects';
+import type { LinkAudit } from '@/lib/links';
+import type { StructuredDataInfo } from '@/lib/structured-data';
+import type { KeywordInfo } from '@/lib/keywords';
+import type { ContentGapItem, ContentGapReport, ContentProfile, SubtopicGap } from '@/lib/content-gap';
+import type { HeadingInfo } from '@/lib/headings';
+import type { RenderDiff } from '@/lib/rendering';
+import type { MobileInfo, UserAgentVersion } from '@/lib/mobile';
+import type { AccessibilityInfo } from '@/lib/accessibility';
+import type { SocialInfo } from '@/lib/social';
+import type { SerpSnippet } from '@/lib/serp-snippet';
+import type { ActionTask } from '@/lib/action-plan';
+import type { DuelComparison, DuelResult, LeaderboardEntry, MetricMatrixRow } from '@/lib/seo-duel';
+
+// The contract for everything /api/analyze returns. The TypeScript types of
+// the raw analysis are inferred from these schemas, and the schemas of the
+// analyzer modules are checked against those modules' own interfaces, so a
+// renamed field is a compile error rather than a silently "critical" metric.
+//
+// Bump the version whenever a field is renamed, removed or changes meaning;
+// adding a field doesn't need a bump.
+export const ANALYSIS_SCHEMA_VERSION = 1;
+
+// Where the OpenAPI document is served; API responses point to it in a Link header
+export const SCHEMA_LINK = '</api/schema>; rel="describedby"';
+
+// Components of the published JSON Schema / OpenAPI document, by id
+export const schemaRegistry = z.registry<{ id: string; description?: string }>();
+
+const count = z.number().int().nonnegative();
+const ms = z.number().nonnegative();
+const percent = z.number().min(0).max(100);
+const status = z.enum(['good', 'warning', 'critical', 'unknown']);
+const effort = z.enum(['low', 'medium', 'high']);
+const httpStatus = z.number().int().nullable(); // null when the request itself failed
+const linkType = z.enum(['internal', 'external', 'mailto', 'tel', 'fragment', 'other']);
+const structuredDataFormat = z.enum(['json-ld', 'microdata', 'rdfa']);
+
+// --- Analyzer modules ---
+
+const headingInfoSchema: z.ZodType<HeadingInfo> = z.object({
+    outline: z.array(z.object({
+        level: z.number().int().min(1).max(6),
+        text: z.string(),
+        empty: z.boolean(),
+        hidden: z.boolean(),
+        imageOnly: z.boolean(),
+        skippedFrom: z.number().int().nullable()
+    })),
+    skippedLevels: z.array(z.object({ from: z.number().int(), to: z.number().int(), text: z.string() })),
+    empty: count,
+    duplicates: z.array(z.object({ text: z.string(), count })),
+    hidden: z.array(z.string()),
+    imageOnly: z.array(z.string())
+});
+
+const termCountSchema = z.object({ term: z.string(), count, density: z.number().nonnegative() });
+
+const targetKeywordSchema = z.object({
+    keyword: z.string(),
+    occurrences: count,
+    density: z.number().nonnegative(),
+    prominence: percent,
+    placement: z.object({
+        title: z.boolean(),
+        metaDescription: z.boolean(),
+        h1: z.boolean(),
+        firstParagraph: z.boolean(),
+        urlSlug: z.boolean(),
+        imageAlt: z.boolean()
+    })
+});
+
+const keywordInfoSchema: z.ZodType<KeywordInfo> = z.object({
+    wordCount: count,
+    terms: z.object({
+        unigrams: z.array(termCountSchema),
+        bigrams: z.array(termCountSchema),
+        trigrams: z.array(termCountSchema)
+    }),
+    target: targetKeywordSchema.nullable()
+});
+
+const contentProfileSchema: z.ZodType<ContentProfile> = z.object({
+    wordCount: count,
+    termCounts: z.record(z.string(), count),
+    entities: z.record(z.string(), count),
+    subtopics: z.array(z.object({ level: z.union([z.literal(2), z.literal(3)]), text: z.string() }))
+});
+
+const redirectHopSchema: z.ZodType<RedirectHop> = z.object({
+    url: z.string(),
+    status: z.number().int(),
+    location: z.string().optional(),
+    timeMs: ms
+});
+
+const canonicalSchema: z.ZodType<CanonicalInfo> = z.object({
+    exists: z.boolean(),
+    href: z.string().nullable(),
+    resolved: z.string().nullable(),
+    source: z.enum(['tag', 'header']).nullable(),
+    tagCount: count,
+    selfReferencing: z.boolean(),
+    crossDomain: z.boolean(),
+    targetStatus: httpStatus,
+    targetRedirects: z.boolean()
+});
+
+const hreflangSchema: z.ZodType<HreflangInfo> = z.object({
+    entries: z.array(z.object({ lang: z.string(), href: z.string(), validCode: z.boolean() })),
+    hasXDefault: z.boolean(),
+    includesSelf: z.boolean(),
+    invalidCodes: z.array(z.string()),
+    checkedAlternates: count,
+    missingReturnLinks: z.array(z.string()),
+    unreachable: z.array(z.string())
+});
+
+const performanceSchema: z.ZodType<PerformanceInfo> = z.object({
+    timing: z.object({
+        dnsMs: ms.nullable(),
+        connectMs: ms.nullable(),
+        tlsMs: ms.nullable(),
+        ttfbMs: ms,
+        downloadMs: ms,
+        redirectMs: ms
+    }),
+    compression: z.string().nullable(),
+    htmlBytes: count,
+    transferBytes: count.nullable(),
+    caching: z.object({
+        cacheControl: z.string().nullable(),
+        maxAge: z.number().int().nullable(),
+        noStore: z.boolean(),
+        expires: z.string().nullable(),
+        etag: z.boolean(),
+        lastModified: z.boolean()
+    }),
+    renderBlocking: z.object({ scripts: z.array(z.string()), stylesheets: z.array(z.string()) }),
+    thirdPartyOrigins: z.array(z.string()),
+    images: z.object({ total: count, notLazy: count, missingDimensions: count })
+});
+
+const sitemapSummarySchema: z.ZodType<SitemapSummary> = z.object({
+    found: z.boolean(),
+    files: z.array(z.object({
+        url: z.string(),
+        status: httpStatus,
+        type: z.enum(['urlset', 'sitemapindex', 'invalid']),
+        urlCount: count,
+        gzipped: z.boolean()
+    })),
+    urlCount: count,
+    truncated: z.boolean(),
+    listsAnalyzedUrl: z.boolean(),
+    lastmod: z.object({
+        newest: z.string().nullable(),
+        oldest: z.string().nullable(),
+        withLastmod: count,
+        updatedLast90Days: count
+    })
+});
+
+const robotsGroupSchema: z.ZodType<RobotsGroup> = z.object({
+    userAgents: z.array(z.string()),
+    rules: z.array(z.object({ type: z.enum(['allow', 'disallow']), path: z.string() }))
+});
+
+const linkAuditSchema: z.ZodType<LinkAudit> = z.object({
+    links: z.array(z.object({
+        href: z.string(),
+        url: z.string().nullable(),
+        type: linkType,
+        rel: z.array(z.string()),
+        anchorText: z.string(),
+        genericAnchor: z.boolean()
+    })),
+    counts: z.record(linkType, count),
+    nofollow: count,
+    sponsored: count,
+    ugc: count,
+    externalDomains: z.array(z.string()),
+    genericAnchors: z.array(z.object({ anchorText: z.string(), url: z.string() })),
+    emptyAnchors: count,
+    checked: count,
+    broken: z.array(z.object({ url: z.string(), type: linkType, status: httpStatus, anchorText: z.string() })),
+    redirected: z.array(z.object({ url: z.string(), type: linkType, finalUrl: z.string() }))
+}).register(schemaRegistry, { id: 'LinkAudit' });
+
+const structuredDataSchema: z.ZodType<StructuredDataInfo> = z.object({
+    entities: z.array(z.object({
+        format: structuredDataFormat,
+        type: z.string(),
+        richResult: z.string().nullable(),
+        valid: z.boolean(),
+        missingRequired: z.array(z.string()),
+        missingRecommended: z.array(z.string())
+    })),
+    types: z.array(z.string()),
+    jsonLdBlocks: count,
+    jsonLdErrors: count,
+    eligibleRichResults: z.array(z.string())
+});
+
+const userAgentVersionSchema: z.ZodType<UserAgentVersion> = z.object({
+    status: httpStatus,
+    finalUrl: z.string(),
+    vary: z.string().nullable(),
+    htmlBytes: count,
+    title: z.string(),
+    h1: z.string(),
+    wordCount: count,
+    links: count,
+    structuredData: count
+});
+
+const cssFindingSchema = z.object({ selector: z.string(), px: z.number().nonnegative() });
+
+const mobileSchema: z.ZodType<MobileInfo> = z.object({
+    viewport: z.object({
+        content: z.string().nullable(),
+        deviceWidth: z.boolean(),
+        fixedWidth: z.number().int().nullable(),
+        zoomBlocked: z.boolean()
+    }),
+    smartphone: userAgentVersionSchema,
+    desktop: userAgentVersionSchema,
+    servesDifferentHtml: z.boolean(),
+    varyUserAgent: z.boolean(),
+    stylesheetsChecked: count,
+    smallFonts: z.array(cssFindingSchema),
+    smallTapTargets: z.array(cssFindingSchema)
+});
+
+const socialSchema: z.ZodType<SocialInfo> = z.object({
+    hasOg: z.boolean(),
+    ogTitle: z.string().nullable(),
+    ogImage: z.string().nullable(),
+    openGraph: z.record(z.string(), z.string()),
+    twitter: z.record(z.string(), z.string()),
+    missing: z.array(z.string()),
+    image: z.object({
+        url: z.string(),
+        status: httpStatus,
+        contentType: z.string().nullable(),
+        format: z.enum(['jpeg', 'png', 'gif', 'webp']).nullable(),
+        bytes: count.nullable(),
+        width: count.nullable(),
+        height: count.nullable(),
+        aspectRatio: z.number().nonnegative().nullable()
+    }).nullable()
+});
+
+const snippetLineSchema = z.object({ text: z.string(), widthPx: count, maxPx: count, truncated: z.boolean() });
+const serpPreviewSchema = z.object({ title: snippetLineSchema, description: snippetLineSchema });
+
+const snippetSchema: z.ZodType<SerpSnippet> = z.object({
+    desktop: serpPreviewSchema,
+    mobile: serpPreviewSchema,
+    breadcrumb: z.string(),
+    titleRewrite: z.object({
+        likely: z.boolean(),
+        reasons: z.array(z.enum(['missing', 'boilerplate', 'tooLong', 'repetitive']))
+    })
+});
+
+const renderDiffSchema: z.ZodType<RenderDiff> = z.object({
+    wordCount: z.object({ raw: count, rendered: count }),
+    elements: z.array(z.object({
+        element: z.string(),
+        label: z.string(),
+        change: z.enum(['added', 'removed', 'changed']),
+        raw: z.string(),
+        rendered: z.string()
+    }))
+});
+
+// --- Raw analysis ---
+
+const textTagSchema = z.object({ text: z.string(), length: count, exists: z.boolean() });
+
+export const onPageSchema = z.object({
+    title: textTagSchema,
+    meta: textTagSchema,
+    headings: z.object({
+        h1Count: count,
+        h2Count: count,
+        h3Count: count,
+        h1Exists: z.boolean(),
+        h1Unique: z.boolean()
+    }).and(headingInfoSchema),
+    og: socialSchema,
+    snippet: snippetSchema,
+    images: z.object({ altStats: z.object({ total: count, missing: count }) }),
+    content: z.object({ wordCount: count }),
+    keywords: keywordInfoSchema,
+    topics: contentProfileSchema
+}).register(schemaRegistry, { id: 'OnPageAnalysis' });
+
+export const technicalSchema = z.object({
+    https: z.boolean(),
+    mobileFriendly: z.boolean(),
+    mobile: mobileSchema,
+    noindex: z.boolean(),
+    xRobotsTag: z.object({ value: z.string().nullable(), noindex: z.boolean(), nofollow: z.boolean() }),
+    redirects: z.object({
+        chain: z.array(redirectHopSchema),
+        hops: count,
+        finalUrl: z.string(),
+        httpToHttps: z.boolean(),
+        www: z.enum(['added', 'removed']).nullable()
+    }),
+    canonical: canonicalSchema,
+    hreflang: hreflangSchema,
+    performance: performanceSchema,
+    sitemap: z.boolean(),
+    sitemapDetails: sitemapSummarySchema,
+    robotsTxt: z.object({
+        url: z.string(),
+        status: httpStatus,
+        found: z.boolean(),
+        groups: z.array(robotsGroupSchema),
+        sitemaps: z.array(z.string()),
+        blockedForGooglebot: z.boolean(),
+        blockedForSeoduelBot: z.boolean()
+    }),
+    doctype: z.boolean(),
+    charset: z.string().nullable(),
+    rendering: renderDiffSchema.optional() // only when analyzed with `render: true`
+}).register(schemaRegistry, { id: 'TechnicalAnalysis' });
+
+export const trustSchema = z.object({
+    internalLinks: count,
+    links: linkAuditSchema,
+    hasSchema: z.boolean(),
+    structuredData: structuredDataSchema
+}).register(schemaRegistry, { id: 'TrustAnalysis' });
+
+const a11yIssueSchema = z.object({ selector: z.string(), html: z.string(), problem: z.string() });
+const issueListSchema = z.object({ count, issues: z.array(a11yIssueSchema) });
+
+export const accessibilitySchema: z.ZodType<AccessibilityInfo> = z.object({
+    lang: z.object({ value: z.string().nullable(), valid: z.boolean() }),
+    formFields: count,
+    unlabeledFields: issueListSchema,
+    buttons: count,
+    unnamedButtons: issueListSchema,
+    links: count,
+    unnamedLinks: issueListSchema,
+    aria: issueListSchema,
+    duplicateIds: issueListSchema,
+    landmarks: z.object({ main: count, banner: count, navigation: count, contentinfo: count }),
+    lowContrast: z.object({
+        count,
+        issues: z.array(a11yIssueSchema.extend({ ratio: z.number().min(1), large: z.boolean() }))
+    })
+}).register(schemaRegistry, { id: 'AccessibilityAnalysis' });
+
+export const pageAnalysisSchema = z.object({
+    onpage: onPageSchema,
+    technical: technicalSchema,
+    trust: trustSchema,
+    accessibility: accessibilitySchema
+});
+
+export type OnPageAnalysis = z.infer<typeof onPageSchema>;
+export type TechnicalAnalysis = z.infer<typeof technicalSchema>;
+export type TrustAnalysis = z.infer<typeof trustSchema>;
+export type PageAnalysis = z.infer<typeof pageAnalysisSchema>;
+
+// --- Report ---
+
+const metricResultSchema: z.ZodType<MetricResult> = z.object({
+    metric: z.string().optional(),
+    title: z.string(),
+    status,
+    value: z.union([z.number(), z.boolean()]).optional(),
+    weight: z.number().positive().optional(),
+    effort: effort.optional(),
+    plainExplanation: z.string(),
+    whyItMatters: z.string(),
+    action: z.string(),
+    fixDetails: z.array(z.string()).optional()
+}).register(schemaRegistry, { id: 'MetricResult' });
+
+const breakdownCategorySchema: z.ZodType<SeoBreakdownCategory> = z.object({
+    score: percent,
+    label: z.string(),
+    description: z.string(),
+    passed: count,
+    total: count,
+    priority: status
+});
+
+const breakdownSchema: z.ZodType<SeoBreakdown> = z.object({
+    onPage: breakdownCategorySchema,
+    technical: breakdownCategorySchema,
+    authority: breakdownCategorySchema,
+    accessibility: breakdownCategorySchema,
+    summary: z.object({ weakestArea: z.string(), strongestArea: z.string(), recommendedFocus: z.string() })
+});
+
+const metricScoreSchema: z.ZodType<MetricScore> = z.object({
+    metric: z.string(),
+    title: z.string(),
+    section: z.string(),
+    status: z.enum(['good', 'warning', 'critical']),
+    weight: z.number().positive(),
+    maxPoints: percent,
+    points: percent,
+    lost: percent
+}).register(schemaRegistry, { id: 'MetricScore' });
+
+const actionTaskSchema: z.ZodType<ActionTask> = z.object({
+    metric: z.string(),
+    title: z.string(),
+    section: z.string(),
+    urls: z.array(z.string()),
+    severity: z.enum(['warning', 'critical']),
+    scoreGain: percent,
+    effort,
+    action: z.string(),
+    details: z.array(z.string()),
+    flips: z.array(z.string()).optional()
+}).register(schemaRegistry, { id: 'ActionTask' });
+
+export const seoReportSchema: z.ZodType<SeoReport> = z.object({
+    sections: z.array(z.object({ name: z.string(), metrics: z.array(metricResultSchema) })),
+    summary: z.object({ actions: z.array(z.string()) }),
+    score: percent,
+    seoBreakdown: breakdownSchema,
+    scoreBreakdown: z.array(metricScoreSchema),
+    actionPlan: z.array(actionTaskSchema)
+}).register(schemaRegistry, { id: 'SeoReport' });
+
+// --- Response ---
+
+const siteCrawlSchema: z.ZodType<SiteCrawl> = z.object({
+    maxDepth: count,
+    maxPages: count,
+    pages: z.array(z.object({
+        url: z.string(),
+        depth: count,
+        status: z.enum(['ok', 'error']),
+        error: z.string().optional(),
+        onpage: onPageSchema.optional(),
+        technical: technicalSchema.optional(),
+        trust: trustSchema.optional(),
+        accessibility: accessibilitySchema.optional(),
+        report: seoReportSchema.optional()
+    })),
+    worstPages: z.record(z.string(), z.array(z.object({
+        url: z.string(),
+        status,
+        value: z.union([z.number(), z.boolean()]).optional(),
+        explanation: z.string()
+    })))
+}).register(schemaRegistry, { id: 'SiteCrawl' });
+
+const snapshotSummarySchema: z.ZodType<SnapshotSummary> = z.object({
+    id: z.string(),
+    url: z.string(),
+    createdAt: z.string(),
+    score: percent,
+    seoBreakdown: z.object({ onPage: percent, technical: percent, authority: percent, accessibility: percent })
+});
+
+const metricChangeSchema: z.ZodType<MetricChange> = z.object({
+    metric: z.string(),
+    title: z.string(),
+    section: z.string(),
+    from: status.nullable(),
+    to: status.nullable(),
+    direction: z.enum(['improved', 'regressed', 'changed'])
+});
+
+const historyEntrySchema: z.ZodType<HistoryEntry> = z.object({
+    snapshot: snapshotSummarySchema,
+    previous: snapshotSummarySchema.nullable(),
+    scoreChange: z.number().nullable(),
+    changes: z.array(metricChangeSchema)
+}).register(schemaRegistry, { id: 'HistoryEntry' });
+
+export const analysisResponseSchema: z.ZodType<SeoAnalysisResponse> = z.object({
+    schemaVersion: z.literal(ANALYSIS_SCHEMA_VERSION),
+    url: z.string(),
+    status: z.enum(['ok', 'error']),
+    error: z.string().optional(),
+    onpage: onPageSchema.optional(),
+    technical: technicalSchema.optional(),
+    trust: trustSchema.optional(),
+    accessibility: accessibilitySchema.optional(),
+    warnings: z.array(z.string()),
+    report: seoReportSchema.optional(),
+    crawl: siteCrawlSchema.optional(),
+    history: historyEntrySchema.optional()
+}).register(schemaRegistry, { id: 'AnalysisResponse' });
+
+// --- Duel ---
+
+const breakdownKey = z.enum(['onPage', 'technical', 'authority', 'accessibility']);
+const duelSide = z.enum(['user', 'competitor', 'tie']);
+const metricValue = z.union([z.number(), z.boolean()]).optional();
+
+const leaderboardEntrySchema: z.ZodType<LeaderboardEntry> = z.object({
+    url: z.string(),
+    isUser: z.boolean(),
+    rank: count,
+    score: percent,
+    seoBreakdown: breakdownSchema
+});
+
+const metricMatrixRowSchema: z.ZodType<MetricMatrixRow> = z.object({
+    metric: z.string(),
+    section: z.string(),
+    title: z.string(),
+    cells: z.array(z.object({ url: z.string(), status: status.nullable(), value: metricValue })),
+    bestInClass: z.object({ urls: z.array(z.string()), status, value: metricValue }).nullable()
+});
+
+const duelComparisonSchema: z.ZodType<DuelComparison> = z.object({
+    winner: duelSide,
+    userScore: percent,
+    competitorScore: percent,
+    scoreGap: z.number(),
+    metrics: z.array(z.object({
+        metric: z.string(),
+        section: z.string(),
+        user: metricResultSchema.nullable(),
+        competitor: metricResultSchema.nullable(),
+        winner: duelSide
+    })),
+    categories: z.array(z.object({ category: breakdownKey, label: z.string(), user: percent, competitor: percent, gap: z.number() })),
+    gapsToClose: z.array(z.object({
+        metric: z.string(),
+        title: z.string(),
+        userStatus: status,
+        competitorStatus: status,
+        severity: z.number(),
+        action: z.string()
+    })),
+    pointSwings: z.array(z.object({
+        metric: z.string(),
+        title: z.string(),
+        userLost: z.number(),
+        competitorLost: z.number(),
+        difference: z.number()
+    })),
+    verdict: z.string()
+});
+
+const gapStatus = z.enum(['missing', 'underweighted']);
+
+const contentGapItemSchema: z.ZodType<ContentGapItem> = z.object({
+    term: z.string(),
+    status: gapStatus,
+    importance: percent,
+    userCount: count,
+    competitorCount: count,
+    competitors: z.array(z.string())
+});
+
+const subtopicGapSchema: z.ZodType<SubtopicGap> = z.object({
+    heading: z.string(),
+    level: z.union([z.literal(2), z.literal(3)]),
+    status: gapStatus,
+    importance: percent,
+    competitors: z.array(z.string())
+});
+
+const contentGapSchema: z.ZodType<ContentGapReport> = z.object({
+    terms: z.array(contentGapItemSchema),
+    entities: z.array(contentGapItemSchema),
+    subtopics: z.array(subtopicGapSchema)
+});
+
+// What /api/duel returns; the export takes it back from the browser
+export const duelResultSchema: z.ZodType<DuelResult> = z.object({
+    status: z.literal('ok'),
+    id: z.string().optional(),
+    user: analysisResponseSchema,
+    competitors: z.array(analysisResponseSchema),
+    leaderboard: z.array(leaderboardEntrySchema),
+    matrix: z.array(metricMatrixRowSchema),
+    headToHead: z.array(duelComparisonSchema),
+    actionPlan: z.array(actionTaskSchema),
+    contentGap: contentGapSchema,
+    keywordCoverage: z.array(targetKeywordSchema.partial().extend({ url: z.string() })).nullable(),
+    competitor: analysisResponseSchema,
+    comparison: duelComparisonSchema
+});
+
+// --- Validation ---
+
+export class SchemaValidationError extends Error {
+    issues: string[];
+
+    constructor(what: string, issues: string[]) {
+        super(`Invalid ${what}: ${issues.slice(0, 5).join('; ')}${issues.length > 5 ? ` (and ${issues.length - 5} more)` : ''}`);
+        this.name = 'SchemaValidationError';
+        this.issues = issues;
+    }
+}
+
+function validate<T>(schema: z.ZodType<T>, data: unknown, what: string): T {
+    const result = schema.safeParse(data);
+    if (!result.success) {
+        throw new SchemaValidationError(what, result.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`));
+    }
+    return result.data;
+}
+
+// Throws a SchemaValidationError listing every field that doesn't match
+export const validatePageAnalysis = (data: unknown) => validate(pageAnalysisSchema, data, 'page analysis');
+export const validateAnalysisResponse = (data: unknown) => validate(analysisResponseSchema, data, 'analysis response');
+export const validateDuelResult = (data: unknown) => validate(duelResultSchema, data, 'duel');
+
+// Every registered schema as JSON Schema (draft 2020-12), referencing each
+// other under #/components/schemas/ so the set drops into an OpenAPI document
+export function analysisJsonSchemas(): Record<string, object> {
+    const { schemas } = z.toJSONSchema(schemaRegistry, { uri: id => `#/components/schemas/${id}` });
+    return Object.fromEntries(Object.entries(schemas).map(([id, schema]) => {
+        const component = { ...schema };
+        delete component.$schema;
+        delete component.$id;
+        return [id, component];
+    }));
+}
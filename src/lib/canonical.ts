@@ -0,0 +1,81 @@
+import type { Readable } from 'stream';
+import { CheerioAPI } from 'cheerio';
+import { fetchWithRedirects } from '@/lib/redirects';
+
+export interface CanonicalInfo {
+    exists: boolean;
+    href: string | null;      // as written in the tag or header
+    resolved: string | null;  // absolute URL
+    source: 'tag' | 'header' | null;
+    tagCount: number;
+    selfReferencing: boolean;
+    crossDomain: boolean;
+    targetStatus: number | null;
+    targetRedirects: boolean;
+}
+
+// rel="canonical" from a Link header, e.g. `<https://example.com/>; rel="canonical"`
+function canonicalFromLinkHeader(header: string | null): string | null {
+    if (!header) return null;
+    for (const part of header.split(/,(?=\s*<)/)) {
+        const match = part.match(/<([^>]+)>\s*;(.*)$/);
+        if (match && /rel\s*=\s*"?canonical"?/i.test(match[2])) return match[1].trim();
+    }
+    return null;
+}
+
+function sameUrl(a: string, b: string): boolean {
+    const strip = (u: string) => {
+        const url = new URL(u);
+        url.hash = '';
+        return url.toString().replace(/\/$/, '');
+    };
+    return strip(a) === strip(b);
+}
+
+// `pageUrl` is the URL the page was finally served from, after redirects.
+export async function analyzeCanonical($: CheerioAPI, pageUrl: string, linkHeader: string | null): Promise<CanonicalInfo> {
+    const tags = $('link[rel="canonical" i]');
+    const tagHref = tags.first().attr('href')?.trim() || null;
+    const headerHref = canonicalFromLinkHeader(linkHeader);
+    const href = tagHref || headerHref;
+
+    const info: CanonicalInfo = {
+        exists: !!href,
+        href,
+        resolved: null,
+        source: tagHref ? 'tag' : (headerHref ? 'header' : null),
+        tagCount: tags.length,
+        selfReferencing: false,
+        crossDomain: false,
+        targetStatus: null,
+        targetRedirects: false
+    };
+    if (!href) return info;
+
+    try {
+        info.resolved = new URL(href, pageUrl).toString();
+    } catch {
+        return info;
+    }
+
+    info.selfReferencing = sameUrl(info.resolved, pageUrl);
+    info.crossDomain = new URL(info.resolved).hostname !== new URL(pageUrl).hostname;
+
+    if (info.selfReferencing) {
+        info.targetStatus = 200;
+        return info;
+    }
+
+    try {
+        const { response, chain } = await fetchWithRedirects(info.resolved, {
+            headers: { 'User-Agent': 'SEOduel-Bot/1.0' }
+        });
+        // Only the status is needed; an unread body holds on to its connection
+        (response.body as Readable | null)?.destroy();
+        info.targetStatus = chain.hops[0].status;
+        info.targetRedirects = chain.hops.length > 1;
+    } catch { }
+
+    return info;
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { ContentProfile, findContentGaps } from '@/lib/content-gap';
+
+const profile = (termCounts: Record<string, number>, subtopics: ContentProfile['subtopics'] = []): ContentProfile => ({
+    wordCount: 500,
+    termCounts,
+    entities: {},
+    subtopics
+});
+
+describe('findContentGaps', () => {
+    it('treats words named like object properties as ordinary words', () => {
+        const user = profile({ javascript: 10, classes: 4 });
+        const competitors = ['https://a.example', 'https://b.example'].map(url => ({
+            url,
+            profile: profile({ javascript: 10, constructor: 5 }, [{ level: 2, text: 'Constructor toString valueOf' }])
+        }));
+
+        const gaps = findContentGaps(user, competitors);
+        expect(gaps.terms).toEqual([{
+            term: 'constructor',
+            status: 'missing',
+            importance: 100,
+            userCount: 0,
+            competitorCount: 5,
+            competitors: ['https://a.example', 'https://b.example']
+        }]);
+        expect(gaps.subtopics).toEqual([{
+            heading: 'Constructor toString valueOf',
+            level: 2,
+            status: 'missing',
+            importance: 100,
+            competitors: ['https://a.example', 'https://b.example']
+        }]);
+    });
+});
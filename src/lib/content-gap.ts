@@ -0,0 +1,169 @@
+import { CheerioAPI } from 'cheerio';
+import { countNGrams, STOP_WORDS, tokenize } from '@/lib/keywords';
+
+// What a page talks about, kept small enough to ship in the analysis payload
+export interface ContentProfile {
+    wordCount: number;
+    termCounts: Record<string, number>; // every topical word, plus two-word phrases seen at least twice
+    entities: Record<string, number>; // capitalized names, e.g. "New York" or "Gore-Tex"
+    subtopics: { level: 2 | 3; text: string }[];
+}
+
+export interface ContentGapItem {
+    term: string;
+    status: 'missing' | 'underweighted';
+    importance: number; // 0-100, relative to the most important gap in the same list
+    userCount: number;
+    competitorCount: number; // average over the competitors that use it
+    competitors: string[];
+}
+
+export interface SubtopicGap {
+    heading: string;
+    level: 2 | 3;
+    status: 'missing' | 'underweighted';
+    importance: number;
+    competitors: string[];
+}
+
+export interface ContentGapReport {
+    terms: ContentGapItem[];
+    entities: ContentGapItem[];
+    subtopics: SubtopicGap[];
+}
+
+const MAX_TERMS = 15;
+const MAX_ENTITIES = 10;
+const MAX_SUBTOPICS = 10;
+const MIN_TERM_COUNT = 3; // on the competitor page, to leave out passing mentions
+const MIN_ENTITY_COUNT = 2;
+// Below this share of the competitors' frequency, a term counts as underweighted
+const UNDERWEIGHT_RATIO = 0.5;
+// Share of a heading's words the user's page must use to cover the subtopic
+const SUBTOPIC_COVERAGE = 0.6;
+
+// Runs of capitalized words. A single capitalized word right after a full
+// stop is usually just the start of a sentence, so it isn't counted.
+const ENTITY_PATTERN = /\p{Lu}[\p{L}\p{N}'’-]*(?:\s+\p{Lu}[\p{L}\p{N}'’-]*)*/gu;
+
+// Profiles are plain objects (they travel as JSON), so words like
+// "constructor" must not be looked up on Object.prototype
+const countOf = (counts: Record<string, number>, key: string) => (Object.hasOwn(counts, key) ? counts[key] : 0);
+
+function extractEntities(text: string): Record<string, number> {
+    const entities: Record<string, number> = {};
+    for (const match of text.matchAll(ENTITY_PATTERN)) {
+        const name = match[0];
+        const single = !/\s/.test(name);
+        const sentenceStart = /(^|[.!?:]\s*)$/.test(text.slice(Math.max(0, match.index! - 3), match.index));
+        if (single && (sentenceStart || STOP_WORDS.has(name.toLowerCase()) || name.length < 3)) continue;
+        entities[name] = countOf(entities, name) + 1;
+    }
+    return entities;
+}
+
+// `bodyText` is the visible text of the page, scripts and styles removed
+export function profileContent($: CheerioAPI, bodyText: string): ContentProfile {
+    const tokens = tokenize(bodyText);
+    const bigrams = [...countNGrams(tokens, 2)].filter(([, count]) => count > 1);
+
+    const subtopics: ContentProfile['subtopics'] = [];
+    $('h2, h3').each((i, el) => {
+        const text = $(el).text().replace(/\s+/g, ' ').trim();
+        if (text) subtopics.push({ level: el.tagName.toLowerCase() === 'h2' ? 2 : 3, text });
+    });
+
+    return {
+        wordCount: tokens.length,
+        termCounts: Object.fromEntries([...countNGrams(tokens, 1), ...bigrams]),
+        entities: extractEntities(bodyText),
+        subtopics
+    };
+}
+
+const per1000 = (count: number, words: number) => (words > 0 ? (count / words) * 1000 : 0);
+
+// Scales scores so the most important gap of a list is 100
+function rank<T extends { importance: number }>(items: T[], limit: number): T[] {
+    const sorted = items.sort((a, b) => b.importance - a.importance).slice(0, limit);
+    const top = sorted[0]?.importance || 1;
+    return sorted.map(item => ({ ...item, importance: Math.round((item.importance / top) * 100) }));
+}
+
+// Terms the competitors use more than `minCount` times that the user's page
+// lacks or uses at under half their rate. Importance grows with the share of
+// competitors using the term and the frequency the user is missing.
+function findTermGaps(
+    user: ContentProfile,
+    competitors: { url: string; profile: ContentProfile }[],
+    pick: (profile: ContentProfile) => Record<string, number>,
+    userCount: (term: string) => number,
+    minCount: number
+): ContentGapItem[] {
+    const candidates = new Map<string, { url: string; count: number; freq: number }[]>();
+    competitors.forEach(({ url, profile }) => Object.entries(pick(profile)).forEach(([term, count]) => {
+        if (count < minCount) return;
+        if (!candidates.has(term)) candidates.set(term, []);
+        candidates.get(term)!.push({ url, count, freq: per1000(count, profile.wordCount) });
+    }));
+
+    const gaps: ContentGapItem[] = [];
+    candidates.forEach((using, term) => {
+        const count = userCount(term);
+        const userFreq = per1000(count, user.wordCount);
+        const competitorFreq = using.reduce((sum, u) => sum + u.freq, 0) / using.length;
+        if (userFreq >= competitorFreq * UNDERWEIGHT_RATIO) return;
+        gaps.push({
+            term,
+            status: count === 0 ? 'missing' : 'underweighted',
+            importance: (using.length / competitors.length) * (competitorFreq - userFreq),
+            userCount: count,
+            competitorCount: Math.round(using.reduce((sum, u) => sum + u.count, 0) / using.length),
+            competitors: using.map(u => u.url)
+        });
+    });
+    return gaps;
+}
+
+// H2/H3 headings from the competitors whose words the user's page mostly
+// doesn't use. The same heading on several competitors is reported once.
+function findSubtopicGaps(user: ContentProfile, competitors: { url: string; profile: ContentProfile }[]): SubtopicGap[] {
+    const gaps = new Map<string, SubtopicGap & { coverage: number }>();
+    competitors.forEach(({ url, profile }) => profile.subtopics.forEach(({ level, text }) => {
+        const words = [...new Set(tokenize(text))].filter(w => w.length > 2 && !STOP_WORDS.has(w));
+        if (words.length === 0) return;
+        const coverage = words.filter(w => countOf(user.termCounts, w) > 0).length / words.length;
+        if (coverage >= SUBTOPIC_COVERAGE) return;
+
+        const key = [...words].sort().join(' ');
+        const gap = gaps.get(key);
+        if (gap) {
+            if (!gap.competitors.includes(url)) gap.competitors.push(url);
+            gap.level = Math.min(gap.level, level) as 2 | 3;
+        } else {
+            gaps.set(key, { heading: text, level, status: coverage === 0 ? 'missing' : 'underweighted', importance: 0, competitors: [url], coverage });
+        }
+    }));
+
+    return [...gaps.values()].map(({ coverage, ...gap }) => ({
+        ...gap,
+        // H3s are narrower than H2s, so they weigh a little less
+        importance: (gap.competitors.length / competitors.length) * (1 - coverage) * (gap.level === 2 ? 1 : 0.7)
+    }));
+}
+
+// What the competitor pages cover that the user's page doesn't, most important first
+export function findContentGaps(user: ContentProfile, competitors: { url: string; profile: ContentProfile }[]): ContentGapReport {
+    if (competitors.length === 0) return { terms: [], entities: [], subtopics: [] };
+
+    const terms = findTermGaps(user, competitors, p => p.termCounts, term => countOf(user.termCounts, term), MIN_TERM_COUNT);
+    // An entity also counts as used when the user's page writes it in lower case
+    const entities = findTermGaps(user, competitors, p => p.entities,
+        name => countOf(user.entities, name) || countOf(user.termCounts, name.toLowerCase()), MIN_ENTITY_COUNT);
+
+    return {
+        terms: rank(terms, MAX_TERMS),
+        entities: rank(entities, MAX_ENTITIES),
+        subtopics: rank(findSubtopicGaps(user, competitors), MAX_SUBTOPICS)
+    };
+}
@@ -0,0 +1,81 @@
+// Five-field cron expressions: minute hour day-of-month month day-of-week.
+// Fields take `*`, numbers, ranges (1-5), lists (1,15) and steps (*/15, 0-30/10).
+// Day-of-week runs 0-6 from Sunday; 7 is accepted for Sunday too.
+
+export interface CronSchedule {
+    expression: string;
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    // Standard cron: when both day fields are restricted, either may match
+    anyDayOfMonth: boolean;
+    anyDayOfWeek: boolean;
+}
+
+const FIELDS = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12 },
+    { name: 'day of week', min: 0, max: 7 }
+];
+
+const ALIASES: Record<string, string> = {
+    '@hourly': '0 * * * *',
+    '@daily': '0 0 * * *',
+    '@weekly': '0 0 * * 0',
+    '@monthly': '0 0 1 * *'
+};
+
+function parseField(value: string, field: typeof FIELDS[number]): Set<number> {
+    const values = new Set<number>();
+    for (const part of value.split(',')) {
+        const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+        if (!match) throw new Error(`Invalid ${field.name} "${part}"`);
+
+        const start = match[1] === '*' ? field.min : Number(match[2]);
+        const end = match[1] === '*' ? field.max : (match[3] !== undefined ? Number(match[3]) : (match[4] ? field.max : start));
+        const step = match[4] ? Number(match[4]) : 1;
+        if (start < field.min || end > field.max || start > end || step < 1) {
+            throw new Error(`Invalid ${field.name} "${part}" (allowed ${field.min}-${field.max})`);
+        }
+        for (let n = start; n <= end; n += step) values.add(n);
+    }
+    return values;
+}
+
+// Throws an Error describing the problem when the expression is invalid
+export function parseCron(expression: string): CronSchedule {
+    const normalized = ALIASES[expression.trim()] || expression.trim();
+    const parts = normalized.split(/\s+/);
+    if (parts.length !== 5) {
+        throw new Error(`Expected 5 fields (minute hour day month weekday), got ${parts.length}`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i]));
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+    return {
+        expression: expression.trim(),
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        anyDayOfMonth: parts[2] === '*',
+        anyDayOfWeek: parts[4] === '*'
+    };
+}
+
+// Whether the schedule fires in the minute of `date`, in the server's local time
+export function matchesCron(schedule: CronSchedule, date: Date): boolean {
+    if (!schedule.minutes.has(date.getMinutes()) || !schedule.hours.has(date.getHours())) return false;
+    if (!schedule.months.has(date.getMonth() + 1)) return false;
+
+    const dom = schedule.daysOfMonth.has(date.getDate());
+    const dow = schedule.daysOfWeek.has(date.getDay());
+    if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) return dom && dow;
+    return dom || dow;
+}
@@ -0,0 +1,30 @@
+// Just enough CSS for the heuristics that read styles without a browser
+
+const ROOT_FONT_PX = 16;
+
+// A length in CSS pixels. Relative sizes are taken relative to the browser's default 16px.
+export function toPx(value: string): number | null {
+    const named: Record<string, number> = { 'xx-small': 9, 'x-small': 10, small: 13 };
+    if (named[value] !== undefined) return named[value];
+    const match = value.match(/^(-?[\d.]+)(px|pt|r?em|%)$/);
+    if (!match) return null; // vw, calc() and the like depend on the screen
+    const n = parseFloat(match[1]);
+    switch (match[2]) {
+        case 'px': return n;
+        case 'pt': return n * 4 / 3;
+        case '%': return n * ROOT_FONT_PX / 100;
+        default: return n * ROOT_FONT_PX; // em taken as rem: the parent's size is unknown
+    }
+}
+
+// The body of a rule or a style="" attribute, by lowercased property
+export function parseDeclarations(text: string): Map<string, string> {
+    const declarations = new Map<string, string>();
+    text.split(';').forEach(decl => {
+        const colon = decl.indexOf(':');
+        if (colon > 0) {
+            declarations.set(decl.slice(0, colon).trim().toLowerCase(), decl.slice(colon + 1).replace(/!important/i, '').trim().toLowerCase());
+        }
+    });
+    return declarations;
+}
@@ -0,0 +1,289 @@
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import type { DuelResult } from '@/lib/seo-duel';
+import type { MetricResult, SeoReport } from '@/lib/seo-interpreter';
+import type { SeoAnalysisResponse } from '@/lib/seo-analyzer';
+import { formatCategoryScore, formatMetricValue } from '@/lib/metric-format';
+
+export type ExportFormat = 'pdf' | 'csv' | 'md';
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+    pdf: 'application/pdf',
+    csv: 'text/csv; charset=utf-8',
+    md: 'text/markdown; charset=utf-8'
+};
+
+interface ExportSite {
+    label: string;
+    url: string;
+    isUser: boolean;
+    rank: number;
+    report: SeoReport;
+    title: string;
+    description: string;
+}
+
+// Sites in the order they were entered: the user first, then competitors
+function sitesOf(duel: DuelResult): ExportSite[] {
+    const all: SeoAnalysisResponse[] = [duel.user, ...duel.competitors];
+    return all.map((analysis, i) => ({
+        label: i === 0 ? "Your site" : (all.length > 2 ? `Competitor ${i}` : "Competitor"),
+        url: analysis.url,
+        isUser: i === 0,
+        rank: duel.leaderboard.find(e => e.url === analysis.url)?.rank ?? i + 1,
+        report: analysis.report!,
+        title: analysis.onpage?.title?.text || "",
+        description: analysis.onpage?.meta?.text || ""
+    }));
+}
+
+const STATUS_LABELS: Record<MetricResult["status"], string> = {
+    good: "Good",
+    warning: "Warning",
+    critical: "Critical",
+    unknown: "Unknown"
+};
+
+const STATUS_EMOJI: Record<MetricResult["status"], string> = {
+    good: "🟢",
+    warning: "🟡",
+    critical: "🔴",
+    unknown: "⚪"
+};
+
+// One sentence per competitor on why the user is ahead or behind
+function verdictsOf(duel: DuelResult, sites: ExportSite[]): string[] {
+    return duel.headToHead.map((h, i) => `${sites[i + 1].label}: ${h.verdict}`);
+}
+
+const hostOf = (url: string) => url.replace(/^https?:\/\//, '').replace(/\/$/, '');
+
+// --- CSV: one row per metric per site ---
+
+// Spreadsheets run text starting with = + - @ (or a tab or CR) as a formula,
+// and titles and messages quote pages anyone can write, so such text is
+// marked as text with a leading '
+function csvCell(value: unknown): string {
+    let text = value === undefined || value === null ? '' : String(value);
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function exportCsv(duel: DuelResult): string {
+    const header = ['site', 'url', 'rank', 'score', 'section', 'metric', 'title', 'status', 'value', 'explanation', 'why_it_matters', 'action'];
+    const rows = sitesOf(duel).flatMap(site => site.report.sections.flatMap(section => section.metrics.map(m => [
+        site.label, site.url, site.rank, site.report.score, section.name, m.metric || '', m.title,
+        m.status, m.value, m.plainExplanation, m.whyItMatters, m.action
+    ])));
+    return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// --- Markdown, for pasting into tickets ---
+
+const mdCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+export function exportMarkdown(duel: DuelResult): string {
+    const sites = sitesOf(duel);
+    const lines: string[] = [];
+
+    lines.push(`# SEO duel: ${sites.map(s => hostOf(s.url)).join(' vs ')}`, '');
+    lines.push(`_Generated ${new Date().toISOString().slice(0, 10)} by SEOduel._`, '');
+
+    lines.push('## Leaderboard', '');
+    lines.push('| Rank | Site | Score | On-page | Technical | Authority | Accessibility |', '| --- | --- | --- | --- | --- | --- | --- |');
+    [...sites].sort((a, b) => a.rank - b.rank).forEach(s => {
+        const b = s.report.seoBreakdown;
+        lines.push(`| ${s.rank} | ${s.label} (${hostOf(s.url)}) | ${s.report.score} | ${formatCategoryScore(b.onPage)} | ${formatCategoryScore(b.technical)} | ${formatCategoryScore(b.authority)} | ${formatCategoryScore(b.accessibility)} |`);
+    });
+    lines.push('');
+    const verdicts = verdictsOf(duel, sites);
+    if (verdicts.length > 0) {
+        verdicts.forEach(v => lines.push(`- ${v}`));
+        lines.push('');
+    }
+
+    lines.push('## Comparison', '');
+    lines.push(`| Metric | ${sites.map(s => s.label).join(' | ')} | Best in class |`);
+    lines.push(`| --- | ${sites.map(() => '---').join(' | ')} | --- |`);
+    duel.matrix.forEach(row => {
+        const cells = row.cells.map(c => `${c.status ? STATUS_EMOJI[c.status] : ''} ${formatMetricValue(row.metric, c.status, c.value)}`.trim());
+        const best = row.bestInClass ? formatMetricValue(row.metric, row.bestInClass.status, row.bestInClass.value) : '—';
+        lines.push(`| ${mdCell(row.title)} | ${cells.map(mdCell).join(' | ')} | ${mdCell(best)} |`);
+    });
+    lines.push('');
+
+    if (duel.actionPlan.length > 0) {
+        lines.push('## Action plan', '');
+        duel.actionPlan.forEach((task, i) => {
+            lines.push(`${i + 1}. ${STATUS_EMOJI[task.severity]} **${task.title}** (+${task.scoreGain} points, ${task.effort} effort): ${task.action}`);
+            task.details.forEach(d => lines.push(`   - ${d}`));
+            if (task.flips?.length) lines.push(`   - Stops ${task.flips.map(hostOf).join(', ')} beating you on this check`);
+        });
+        lines.push('');
+    }
+
+    sites.forEach(site => {
+        lines.push(`## ${site.label}: ${hostOf(site.url)} (score ${site.report.score})`, '');
+        lines.push(`**Search preview:** ${site.title || '(no title)'}  `, `${site.url}  `, `${site.description || '(no meta description)'}`, '');
+        site.report.sections.forEach(section => {
+            lines.push(`### ${section.name}`, '');
+            section.metrics.forEach(m => {
+                lines.push(`- ${STATUS_EMOJI[m.status]} **${m.title}** (${STATUS_LABELS[m.status]}): ${m.plainExplanation}`);
+                if (m.status !== 'good') {
+                    lines.push(`  - Why it matters: ${m.whyItMatters}`, `  - Action: ${m.action}`);
+                }
+            });
+            lines.push('');
+        });
+    });
+
+    return lines.join('\n');
+}
+
+// --- PDF ---
+
+const BRAND = '#6366f1';
+const TEXT = '#18181b';
+const MUTED = '#71717a';
+const STATUS_COLORS: Record<MetricResult["status"], string> = {
+    good: '#22c55e',
+    warning: '#f59e0b',
+    critical: '#ef4444',
+    unknown: '#a1a1aa'
+};
+
+// The standard PDF fonts only cover Latin-1. DejaVu Sans also has Greek,
+// Cyrillic, Hebrew, Arabic and most symbols, so pages print as written; only
+// the characters used are embedded. Node looks the package up at runtime (the
+// bundler would replace the path with a module id), so it's found wherever
+// the server is started from.
+const FONT_DIR = path.join(path.dirname(require.resolve(/* turbopackIgnore: true */ 'dejavu-fonts-ttf/package.json')), 'ttf');
+const FONTS = { regular: path.join(FONT_DIR, 'DejaVuSans.ttf'), bold: path.join(FONT_DIR, 'DejaVuSans-Bold.ttf') };
+
+export function exportPdf(duel: DuelResult): Promise<Buffer> {
+    const sites = sitesOf(duel);
+    const doc = new PDFDocument({
+        size: 'A4',
+        margin: 48,
+        bufferPages: true,
+        info: { Title: `SEO duel: ${sites.map(s => hostOf(s.url)).join(' vs ')}`, Author: 'SEOduel' }
+    });
+    doc.registerFont('regular', FONTS.regular);
+    doc.registerFont('bold', FONTS.bold);
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+        doc.on('data', chunk => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+    });
+
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+    const bottom = () => doc.page.height - doc.page.margins.bottom;
+    const ensureSpace = (height: number) => {
+        if (doc.y + height > bottom()) doc.addPage();
+    };
+    const heading = (text: string) => {
+        ensureSpace(60);
+        doc.moveDown(1).font('bold').fontSize(15).fillColor(TEXT).text(text, left, doc.y);
+        doc.moveDown(0.5);
+    };
+
+    // Header band
+    doc.rect(0, 0, doc.page.width, 90).fill(BRAND);
+    doc.font('bold').fontSize(22).fillColor('#ffffff').text('SEOduel', left, 28);
+    doc.font('regular').fontSize(10).text(`SEO duel report - ${new Date().toISOString().slice(0, 10)}`, left, 56);
+    doc.y = 110;
+
+    // Score cards
+    heading('Scores');
+    const gap = 10;
+    const cardWidth = (width - gap * (sites.length - 1)) / sites.length;
+    const cardTop = doc.y;
+    sites.forEach((site, i) => {
+        const x = left + i * (cardWidth + gap);
+        doc.roundedRect(x, cardTop, cardWidth, 84, 6).lineWidth(site.isUser ? 2 : 1).stroke(site.isUser ? BRAND : '#d4d4d8');
+        doc.font('bold').fontSize(9).fillColor(MUTED).text(`#${site.rank}  ${site.label.toUpperCase()}`, x + 8, cardTop + 8, { width: cardWidth - 16 });
+        doc.font('regular').fontSize(8).text(hostOf(site.url), x + 8, cardTop + 21, { width: cardWidth - 16, height: 10, ellipsis: true });
+        doc.font('bold').fontSize(24).fillColor(TEXT).text(String(site.report.score), x + 8, cardTop + 36);
+        const b = site.report.seoBreakdown;
+        doc.font('regular').fontSize(7).fillColor(MUTED)
+            .text(`On-page ${formatCategoryScore(b.onPage)}  Tech ${formatCategoryScore(b.technical)}  Auth ${formatCategoryScore(b.authority)}  A11y ${formatCategoryScore(b.accessibility)}`, x + 8, cardTop + 68, { width: cardWidth - 16 });
+    });
+    doc.y = cardTop + 96;
+    verdictsOf(duel, sites).forEach(v => {
+        doc.font('regular').fontSize(9).fillColor(TEXT).text(v, left, doc.y, { width });
+        doc.moveDown(0.3);
+    });
+
+    // Comparison table
+    heading('Comparison');
+    const metricCol = Math.min(170, width * 0.3);
+    const colWidth = (width - metricCol) / (sites.length + 1);
+    const tableRow = (cells: { text: string; color?: string }[], bold = false) => {
+        doc.font(bold ? 'bold' : 'regular').fontSize(8);
+        const height = Math.max(...cells.map((c, i) => doc.heightOfString(c.text, { width: (i === 0 ? metricCol : colWidth) - 6 }))) + 6;
+        ensureSpace(height);
+        const top = doc.y;
+        cells.forEach((cell, i) => {
+            const x = i === 0 ? left : left + metricCol + (i - 1) * colWidth;
+            doc.fillColor(cell.color || TEXT).text(cell.text, x + 3, top + 3, { width: (i === 0 ? metricCol : colWidth) - 6 });
+        });
+        doc.moveTo(left, top + height).lineTo(left + width, top + height).lineWidth(0.5).stroke('#e4e4e7');
+        doc.y = top + height;
+    };
+    tableRow([{ text: 'Metric' }, ...sites.map(s => ({ text: s.label })), { text: 'Best in class' }], true);
+    duel.matrix.forEach(row => tableRow([
+        { text: row.title },
+        ...row.cells.map(c => ({
+            text: formatMetricValue(row.metric, c.status, c.value),
+            color: c.status ? STATUS_COLORS[c.status] : MUTED
+        })),
+        { text: row.bestInClass ? formatMetricValue(row.metric, row.bestInClass.status, row.bestInClass.value) : '-', color: MUTED }
+    ]));
+
+    // SERP previews
+    heading('How each site appears in Google');
+    sites.forEach(site => {
+        ensureSpace(70);
+        doc.font('bold').fontSize(8).fillColor(MUTED).text(site.label.toUpperCase(), left, doc.y);
+        doc.font('regular').fontSize(9).fillColor('#188038').text(site.url, { width });
+        doc.fontSize(13).fillColor('#1a0dab').text(site.title || 'No title found', { width });
+        doc.fontSize(9).fillColor('#4d5156').text(site.description || 'No meta description found for this page.', { width });
+        doc.moveDown(0.8);
+    });
+
+    // Every metric of every site
+    sites.forEach(site => {
+        doc.addPage();
+        doc.font('bold').fontSize(17).fillColor(TEXT).text(`${site.label}: ${hostOf(site.url)}`, left, doc.y);
+        doc.font('regular').fontSize(10).fillColor(MUTED).text(`Score ${site.report.score} - rank #${site.rank}`);
+        site.report.sections.forEach(section => {
+            heading(section.name);
+            section.metrics.forEach(m => {
+                ensureSpace(60);
+                const top = doc.y;
+                doc.circle(left + 4, top + 5, 3.5).fill(STATUS_COLORS[m.status]);
+                doc.font('bold').fontSize(10).fillColor(TEXT)
+                    .text(`${m.title} - ${STATUS_LABELS[m.status]}`, left + 14, top, { width: width - 14 });
+                doc.font('regular').fontSize(9).fillColor(TEXT).text(m.plainExplanation, { width: width - 14 });
+                doc.fillColor(MUTED).text(`Why it matters: ${m.whyItMatters}`, { width: width - 14 });
+                doc.text(`Action: ${m.action}`, { width: width - 14 });
+                doc.moveDown(0.6);
+            });
+        });
+    });
+
+    // Page numbers
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+        doc.switchToPage(i);
+        // Footer text sits inside the bottom margin; without this pdfkit would start a new page
+        doc.page.margins.bottom = 0;
+        doc.font('regular').fontSize(8).fillColor(MUTED)
+            .text(`SEOduel - page ${i + 1} of ${range.count}`, left, doc.page.height - 30, { width, align: 'center', lineBreak: false });
+    }
+
+    doc.end();
+    return done;
+}
@@ -0,0 +1,139 @@
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { analyzeUrl } from '@/lib/seo-analyzer';
+import { crawlSite, CrawlOptions } from '@/lib/seo-crawler';
+import { compareSites, DuelResult } from '@/lib/seo-duel';
+import { findContentGaps } from '@/lib/content-gap';
+import { diffReports, MetricChange, withHistory } from '@/lib/history';
+import { DATA_DIR, readJson, writeJson } from '@/lib/storage';
+import type { RuleConfig } from '@/lib/seo-rules';
+
+export interface DuelInput {
+    userUrl: string;
+    competitorUrls: string[];
+    targetKeyword?: string;
+    crawl?: boolean | CrawlOptions;
+    render?: boolean;
+    rules?: RuleConfig;
+}
+
+// A completed duel, stored so it can be shared at /duel/<id>
+export interface SavedDuel {
+    id: string;
+    createdAt: string; // ISO 8601
+    input: DuelInput;
+    result: DuelResult;
+}
+
+export interface SiteRunChange {
+    url: string;
+    previousScore: number | null; // null when the site wasn't in the saved duel
+    score: number;
+    previousRank: number | null;
+    rank: number;
+    changes: MetricChange[];
+}
+
+// A re-run of a saved duel compared with the saved run, site by site
+export interface DuelRunComparison {
+    previous: { id: string; createdAt: string };
+    current: { id: string; createdAt: string };
+    sites: SiteRunChange[];
+}
+
+const DUELS_DIR = path.join(DATA_DIR, 'duels');
+const ID_ALPHABET = 'abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const ID_LENGTH = 8;
+
+const duelFile = (id: string) => path.join(DUELS_DIR, `${id}.json`);
+
+// Short and unambiguous to read out loud; no 0/O or 1/l/I
+function createId(): string {
+    return Array.from(randomBytes(ID_LENGTH), b => ID_ALPHABET[b % ID_ALPHABET.length]).join('');
+}
+
+export const isDuelId = (id: string) => new RegExp(`^[${ID_ALPHABET}]{${ID_LENGTH}}$`).test(id);
+
+// Analyzes every site and compares them. Fails as a whole when any site
+// can't be analyzed, since a duel with a missing side isn't meaningful.
+export async function runDuel(input: DuelInput): Promise<DuelResult | { status: 'error'; error: string }> {
+    const { userUrl, competitorUrls, targetKeyword, crawl, render, rules } = input;
+
+    // Same `crawl`, `render`, `targetKeyword` and `rules` options as /api/analyze, applied to every site
+    const options = { targetKeyword, rules, render };
+    const analyze = (url: string) => crawl
+        ? crawlSite(url, typeof crawl === 'object' ? crawl : {}, options)
+        : analyzeUrl(url, options);
+
+    const analyses = await Promise.all([
+        analyze(userUrl),
+        ...competitorUrls.map(url => analyze(url))
+    ]);
+
+    const failed = analyses.find(r => r.status === 'error');
+    if (failed) {
+        return { status: 'error', error: `${failed.url}: ${failed.error}` };
+    }
+
+    // Competitors are recorded too, so their trend can be compared with ours
+    const [user, ...competitors] = await Promise.all(analyses.map(withHistory));
+
+    const { leaderboard, matrix, headToHead, actionPlan } = compareSites(
+        { url: user.url, report: user.report! },
+        competitors.map(c => ({ url: c.url, report: c.report! }))
+    );
+
+    return {
+        status: 'ok',
+        user,
+        competitors,
+        leaderboard,
+        matrix,
+        headToHead,
+        actionPlan,
+        contentGap: findContentGaps(
+            user.onpage!.topics,
+            competitors.map(c => ({ url: c.url, profile: c.onpage!.topics }))
+        ),
+        // Every site's placement, density and prominence for the target keyword
+        keywordCoverage: targetKeyword
+            ? [user, ...competitors].map(r => ({ url: r.url, ...r.onpage!.keywords.target }))
+            : null,
+        competitor: competitors[0],
+        comparison: headToHead[0]
+    };
+}
+
+export async function saveDuel(input: DuelInput, result: DuelResult): Promise<SavedDuel> {
+    const id = createId();
+    const saved: SavedDuel = { id, createdAt: new Date().toISOString(), input, result: { ...result, id } };
+    await writeJson(duelFile(saved.id), saved);
+    return saved;
+}
+
+export async function getDuel(id: string): Promise<SavedDuel | null> {
+    if (!isDuelId(id)) return null;
+    return readJson<SavedDuel | null>(duelFile(id), null);
+}
+
+export function compareDuelRuns(previous: SavedDuel, current: SavedDuel): DuelRunComparison {
+    const sites = (result: DuelResult) => [result.user, ...result.competitors];
+    const before = new Map(sites(previous.result).map(a => [a.url, a]));
+    const rankOf = (result: DuelResult, url: string) => result.leaderboard.find(e => e.url === url)?.rank ?? null;
+
+    return {
+        previous: { id: previous.id, createdAt: previous.createdAt },
+        current: { id: current.id, createdAt: current.createdAt },
+        sites: sites(current.result).map(site => {
+            const old = before.get(site.url);
+            return {
+                url: site.url,
+                previousScore: old?.report?.score ?? null,
+                score: site.report!.score,
+                previousRank: rankOf(previous.result, site.url),
+                rank: rankOf(current.result, site.url)!,
+                changes: old?.report ? diffReports(old.report, site.report!) : []
+            };
+        })
+    };
+}
@@ -0,0 +1,75 @@
+import { CheerioAPI } from 'cheerio';
+import type { Element } from 'domhandler';
+
+export interface OutlineHeading {
+    level: number; // 1-6
+    text: string; // alt text for image-only headings
+    empty: boolean;
+    hidden: boolean;
+    imageOnly: boolean;
+    skippedFrom: number | null; // level of the previous heading when this one skips levels
+}
+
+export interface HeadingInfo {
+    outline: OutlineHeading[]; // in document order
+    skippedLevels: { from: number; to: number; text: string }[];
+    empty: number; // neither text nor image
+    duplicates: { text: string; count: number }[];
+    hidden: string[];
+    imageOnly: string[];
+}
+
+// Hidden by the page itself, for everyone. Visually-hidden CSS classes are
+// left alone: those headings are still read out by screen readers.
+function isHidden($: CheerioAPI, el: Element): boolean {
+    return $(el).add($(el).parents()).toArray().some(node => {
+        const $node = $(node);
+        const style = ($node.attr('style') || '').replace(/\s+/g, '').toLowerCase();
+        return $node.attr('hidden') !== undefined
+            || $node.attr('aria-hidden') === 'true'
+            || style.includes('display:none')
+            || style.includes('visibility:hidden');
+    });
+}
+
+export function analyzeHeadings($: CheerioAPI): HeadingInfo {
+    const outline: OutlineHeading[] = [];
+    let previousLevel: number | null = null;
+
+    $('h1, h2, h3, h4, h5, h6').each((i, el) => {
+        const level = Number(el.tagName.slice(1));
+        const text = $(el).text().replace(/\s+/g, ' ').trim();
+        const images = $(el).find('img, svg');
+        const imageOnly = !text && images.length > 0;
+
+        outline.push({
+            level,
+            text: imageOnly ? images.map((j, img) => $(img).attr('alt') || $(img).attr('aria-label') || '').get().join(' ').trim() : text,
+            empty: !text && !imageOnly,
+            hidden: isHidden($, el),
+            imageOnly,
+            // Going back up (H4 -> H2) is fine; only going down more than one level skips
+            skippedFrom: previousLevel !== null && level > previousLevel + 1 ? previousLevel : null
+        });
+        previousLevel = level;
+    });
+
+    const counts = new Map<string, number>();
+    outline.filter(h => h.text && !h.imageOnly).forEach(h => {
+        const key = h.text.toLowerCase();
+        counts.set(key, (counts.get(key) || 0) + 1);
+    });
+
+    return {
+        outline,
+        skippedLevels: outline
+            .filter(h => h.skippedFrom !== null)
+            .map(h => ({ from: h.skippedFrom!, to: h.level, text: h.text })),
+        empty: outline.filter(h => h.empty).length,
+        duplicates: [...counts.entries()]
+            .filter(([, count]) => count > 1)
+            .map(([text, count]) => ({ text: outline.find(h => h.text.toLowerCase() === text)!.text, count })),
+        hidden: outline.filter(h => h.hidden).map(h => h.text),
+        imageOnly: outline.filter(h => h.imageOnly).map(h => h.text)
+    };
+}
@@ -0,0 +1,209 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { SeoAnalysisResponse } from '@/lib/seo-analyzer';
+import { MetricResult, SeoReport, STATUS_RANK } from '@/lib/seo-interpreter';
+import { DATA_DIR, readJson } from '@/lib/storage';
+
+// One line of a domain's index; the full analysis lives in its own file
+export interface SnapshotSummary {
+    id: string;
+    url: string;
+    createdAt: string; // ISO 8601
+    score: number;
+    seoBreakdown: {
+        onPage: number;
+        technical: number;
+        authority: number;
+        accessibility: number;
+    };
+}
+
+export interface Snapshot extends SnapshotSummary {
+    analysis: SeoAnalysisResponse;
+}
+
+export interface MetricChange {
+    metric: string;
+    title: string;
+    section: string;
+    from: MetricResult["status"] | null; // null when the metric is new
+    to: MetricResult["status"] | null; // null when it's no longer reported
+    direction: 'improved' | 'regressed' | 'changed';
+}
+
+// What changed since the previous snapshot of the same URL
+export interface HistoryEntry {
+    snapshot: SnapshotSummary;
+    previous: SnapshotSummary | null;
+    scoreChange: number | null;
+    changes: MetricChange[];
+}
+
+export interface TimeSeriesPoint {
+    createdAt: string;
+    score: number;
+    onPage: number;
+    technical: number;
+    authority: number;
+    accessibility: number;
+}
+
+const HISTORY_DIR = path.join(DATA_DIR, 'history');
+
+// Per URL; older snapshots are deleted as new ones come in
+const MAX_SNAPSHOTS_PER_URL = 200;
+
+// www.example.com and example.com share a history
+const normalizeDomain = (domain: string) => domain.trim().toLowerCase().replace(/^www\./, '');
+
+export function domainOf(url: string): string {
+    return normalizeDomain(new URL(url).hostname);
+}
+
+// https://example.com/blog/ and https://example.com/blog#top are the same page
+export function historyUrl(url: string): string {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    if (parsed.pathname.length > 1) parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+    return parsed.toString();
+}
+
+function domainDir(domain: string): string {
+    // Hostnames are already safe file names; this guards against crafted input
+    const safe = normalizeDomain(domain).replace(/[^a-z0-9.-]/g, '_').replace(/^\.+/, '');
+    return path.join(HISTORY_DIR, safe);
+}
+
+const indexFile = (domain: string) => path.join(domainDir(domain), 'index.jsonl');
+
+const snapshotFile = (domain: string, id: string) => path.join(domainDir(domain), `${id.replace(/[^\w-]/g, '')}.json`);
+
+export async function listSnapshots(domain: string, url?: string): Promise<SnapshotSummary[]> {
+    let index: string;
+    try {
+        index = await fs.readFile(indexFile(domain), 'utf8');
+    } catch {
+        return [];
+    }
+    const page = url && historyUrl(url);
+    return index.split('\n')
+        .filter(Boolean)
+        .map(line => JSON.parse(line) as SnapshotSummary)
+        .filter(s => !page || historyUrl(s.url) === page);
+}
+
+// Writes to a domain's index go through its chain one at a time, so a prune
+// can't replace the file while another request appends to it
+const indexWrites = new Map<string, Promise<unknown>>();
+
+function updateIndex<T>(domain: string, write: () => Promise<T>): Promise<T> {
+    const result = (indexWrites.get(domain) ?? Promise.resolve()).then(write);
+    const pending = result.catch(() => undefined);
+    indexWrites.set(domain, pending);
+    // Forget the domain once nothing is queued behind this write
+    pending.then(() => {
+        if (indexWrites.get(domain) === pending) indexWrites.delete(domain);
+    });
+    return result;
+}
+
+// Drops the URL's oldest snapshots past MAX_SNAPSHOTS_PER_URL. Only call it
+// through updateIndex.
+async function pruneSnapshots(domain: string, url: string): Promise<void> {
+    const all = await listSnapshots(domain);
+    const expired = new Set(all.filter(s => historyUrl(s.url) === url).slice(0, -MAX_SNAPSHOTS_PER_URL).map(s => s.id));
+    if (expired.size === 0) return;
+
+    const file = indexFile(domain);
+    const tmp = `${file}.${randomUUID()}.tmp`;
+    await fs.writeFile(tmp, all.filter(s => !expired.has(s.id)).map(s => JSON.stringify(s) + '\n').join(''));
+    await fs.rename(tmp, file);
+    await Promise.all([...expired].map(id => fs.rm(snapshotFile(domain, id), { force: true })));
+}
+
+export async function getSnapshot(domain: string, id: string): Promise<Snapshot | null> {
+    return readJson<Snapshot | null>(snapshotFile(domain, id), null);
+}
+
+export async function getTimeSeries(domain: string, url?: string): Promise<TimeSeriesPoint[]> {
+    return (await listSnapshots(domain, url)).map(s => ({
+        createdAt: s.createdAt,
+        score: s.score,
+        ...s.seoBreakdown
+    }));
+}
+
+// Status changes between two reports, matched by metric id
+export function diffReports(previous: SeoReport, current: SeoReport): MetricChange[] {
+    const index = (report: SeoReport) => new Map(report.sections.flatMap(section =>
+        section.metrics.map(m => [m.metric || m.title, { section: section.name, result: m }] as const)));
+    const before = index(previous);
+    const after = index(current);
+
+    const changes: MetricChange[] = [];
+    new Set([...before.keys(), ...after.keys()]).forEach(id => {
+        const from = before.get(id);
+        const to = after.get(id);
+        if (from && to && from.result.status === to.result.status) return;
+
+        const fromRank = from ? STATUS_RANK[from.result.status] : null;
+        const toRank = to ? STATUS_RANK[to.result.status] : null;
+        changes.push({
+            metric: id,
+            title: (to || from)!.result.title,
+            section: (to || from)!.section,
+            from: from ? from.result.status : null,
+            to: to ? to.result.status : null,
+            direction: fromRank === null || toRank === null ? 'changed' : (toRank > fromRank ? 'improved' : 'regressed')
+        });
+    });
+    return changes;
+}
+
+// Stores a successful analysis and compares it with the previous one of the same URL
+export async function recordSnapshot(analysis: SeoAnalysisResponse): Promise<HistoryEntry> {
+    const report = analysis.report!;
+    const domain = domainOf(analysis.url);
+    const url = historyUrl(analysis.url);
+    const previous = (await listSnapshots(domain, url)).pop() || null;
+
+    const summary: SnapshotSummary = {
+        id: `${Date.now()}-${randomUUID().slice(0, 8)}`,
+        url,
+        createdAt: new Date().toISOString(),
+        score: report.score,
+        seoBreakdown: {
+            onPage: report.seoBreakdown.onPage.score,
+            technical: report.seoBreakdown.technical.score,
+            authority: report.seoBreakdown.authority.score,
+            accessibility: report.seoBreakdown.accessibility.score
+        }
+    };
+
+    await fs.mkdir(domainDir(domain), { recursive: true });
+    const snapshot: Snapshot = { ...summary, analysis };
+    await fs.writeFile(snapshotFile(domain, summary.id), JSON.stringify(snapshot));
+    await updateIndex(domain, async () => {
+        await fs.appendFile(indexFile(domain), JSON.stringify(summary) + '\n');
+        await pruneSnapshots(domain, url);
+    });
+
+    const previousReport = previous ? (await getSnapshot(domain, previous.id))?.analysis.report : undefined;
+    return {
+        snapshot: summary,
+        previous,
+        scoreChange: previous ? summary.score - previous.score : null,
+        changes: previousReport ? diffReports(previousReport, report) : []
+    };
+}
+
+// Recording is best effort: a read-only disk shouldn't fail the analysis
+export async function withHistory(analysis: SeoAnalysisResponse): Promise<SeoAnalysisResponse> {
+    try {
+        return { ...analysis, history: await recordSnapshot(analysis) };
+    } catch (err) {
+        console.error('Saving snapshot failed:', err);
+        return { ...analysis, warnings: [...analysis.warnings, 'This analysis could not be saved to history.'] };
+    }
+}
@@ -0,0 +1,85 @@
+import type { Readable } from 'stream';
+import { CheerioAPI, load } from 'cheerio';
+import { fetchWithRedirects } from '@/lib/redirects';
+
+export interface HreflangEntry {
+    lang: string;
+    href: string;
+    validCode: boolean;
+}
+
+export interface HreflangInfo {
+    entries: HreflangEntry[];
+    hasXDefault: boolean;
+    includesSelf: boolean;
+    invalidCodes: string[];
+    checkedAlternates: number;
+    missingReturnLinks: string[]; // alternates that don't link back to this page
+    unreachable: string[];
+}
+
+const MAX_ALTERNATES_CHECKED = 10;
+
+// ISO 639-1 language, optional script, optional ISO 3166-1 region (or UN M.49)
+const HREFLANG_CODE = /^[a-z]{2,3}(-[a-z]{4})?(-([a-z]{2}|\d{3}))?$/i;
+
+function comparable(url: string): string {
+    const u = new URL(url);
+    u.hash = '';
+    return u.toString().replace(/\/$/, '');
+}
+
+export function extractHreflangEntries($: CheerioAPI, baseUrl: string): HreflangEntry[] {
+    const entries: HreflangEntry[] = [];
+    $('link[rel="alternate" i][hreflang]').each((i, el) => {
+        const lang = ($(el).attr('hreflang') || '').trim();
+        const href = $(el).attr('href');
+        if (!lang || !href) return;
+        try {
+            entries.push({
+                lang,
+                href: new URL(href, baseUrl).toString(),
+                validCode: lang.toLowerCase() === 'x-default' || HREFLANG_CODE.test(lang)
+            });
+        } catch { }
+    });
+    return entries;
+}
+
+// Checks the page's hreflang cluster. Every alternate must link back to this
+// page, otherwise Google ignores the pair.
+export async function analyzeHreflang($: CheerioAPI, pageUrl: string): Promise<HreflangInfo> {
+    const entries = extractHreflangEntries($, pageUrl);
+    const self = comparable(pageUrl);
+    const alternates = [...new Set(entries.map(e => e.href))].filter(href => comparable(href) !== self);
+    const checked = alternates.slice(0, MAX_ALTERNATES_CHECKED);
+
+    const missingReturnLinks: string[] = [];
+    const unreachable: string[] = [];
+    await Promise.all(checked.map(async href => {
+        try {
+            const { response, chain } = await fetchWithRedirects(href, {
+                headers: { 'User-Agent': 'SEOduel-Bot/1.0' }
+            });
+            if (!response.ok) {
+                (response.body as Readable | null)?.destroy();
+                unreachable.push(href);
+                return;
+            }
+            const links = extractHreflangEntries(load(await response.text()), chain.finalUrl);
+            if (!links.some(l => comparable(l.href) === self)) missingReturnLinks.push(href);
+        } catch {
+            unreachable.push(href);
+        }
+    }));
+
+    return {
+        entries,
+        hasXDefault: entries.some(e => e.lang.toLowerCase() === 'x-default'),
+        includesSelf: entries.some(e => comparable(e.href) === self),
+        invalidCodes: entries.filter(e => !e.validCode).map(e => e.lang),
+        checkedAlternates: checked.length,
+        missingReturnLinks,
+        unreachable
+    };
+}
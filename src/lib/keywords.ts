@@ -0,0 +1,142 @@
+import { CheerioAPI, load } from 'cheerio';
+
+export interface TermCount {
+    term: string;
+    count: number;
+    density: number; // % of the page's words taken up by the term
+}
+
+export interface KeywordPlacement {
+    title: boolean;
+    metaDescription: boolean;
+    h1: boolean;
+    firstParagraph: boolean;
+    urlSlug: boolean;
+    imageAlt: boolean;
+}
+
+export interface TargetKeywordInfo {
+    keyword: string;
+    occurrences: number;
+    density: number;
+    prominence: number; // 100 when the body text opens with the keyword, 0 when it's absent
+    placement: KeywordPlacement;
+}
+
+export interface KeywordInfo {
+    wordCount: number;
+    terms: {
+        unigrams: TermCount[];
+        bigrams: TermCount[];
+        trigrams: TermCount[];
+    };
+    target: TargetKeywordInfo | null;
+}
+
+export const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'he',
+    'in', 'is', 'it', 'its', 'of', 'on', 'that', 'the', 'to', 'was', 'were',
+    'will', 'with', 'i', 'you', 'your', 'we', 'they', 'this', 'or', 'but', 'not'
+]);
+
+const TOP_TERMS = 10;
+
+// The text a visitor reads, without scripts and styles, as one line
+export function visibleText(html: string): string {
+    const $ = load(html);
+    $('script, style, noscript, iframe').remove();
+    // Block elements end a word even when the markup has no whitespace between them
+    $('p, div, li, td, th, br, h1, h2, h3, h4, h5, h6, section, article, header, footer, nav, blockquote').after(' ');
+    return $('body').text().replace(/\s+/g, ' ').trim();
+}
+
+export const countWords = (text: string) => text.split(' ').filter(w => w.length > 0).length;
+
+export function tokenize(text: string): string[] {
+    return text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu) || [];
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// Counts every n-word phrase. Phrases that start or end with a stop word
+// ("of the", "the best") say nothing about the topic and are skipped, as are
+// short words and bare numbers.
+export function countNGrams(tokens: string[], n: number): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (let i = 0; i + n <= tokens.length; i++) {
+        const gram = tokens.slice(i, i + n);
+        if (STOP_WORDS.has(gram[0]) || STOP_WORDS.has(gram[n - 1])) continue;
+        if (n === 1 && (gram[0].length < 3 || /^\d+$/.test(gram[0]))) continue;
+        const term = gram.join(' ');
+        counts.set(term, (counts.get(term) || 0) + 1);
+    }
+    return counts;
+}
+
+// Most frequent n-word phrases. Longer phrases must repeat to be worth reporting.
+function topNGrams(tokens: string[], n: number): TermCount[] {
+    return [...countNGrams(tokens, n).entries()]
+        .filter(([, count]) => n === 1 || count > 1)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, TOP_TERMS)
+        .map(([term, count]) => ({ term, count, density: round((count * n / tokens.length) * 100) }));
+}
+
+// Start index of every occurrence of `phrase` in `tokens`
+function findPhrase(tokens: string[], phrase: string[]): number[] {
+    const found: number[] = [];
+    if (phrase.length === 0) return found;
+    for (let i = 0; i + phrase.length <= tokens.length; i++) {
+        if (phrase.every((word, j) => tokens[i + j] === word)) found.push(i);
+    }
+    return found;
+}
+
+function decodePath(pathname: string): string {
+    try {
+        return decodeURIComponent(pathname);
+    } catch {
+        return pathname;
+    }
+}
+
+const contains = (text: string, phrase: string[]) => findPhrase(tokenize(text), phrase).length > 0;
+
+// `bodyText` is the visible text of the page, scripts and styles removed
+export function analyzeKeywords($: CheerioAPI, pageUrl: string, bodyText: string, targetKeyword?: string): KeywordInfo {
+    const tokens = tokenize(bodyText);
+    const info: KeywordInfo = {
+        wordCount: tokens.length,
+        terms: {
+            unigrams: tokens.length > 0 ? topNGrams(tokens, 1) : [],
+            bigrams: tokens.length > 0 ? topNGrams(tokens, 2) : [],
+            trigrams: tokens.length > 0 ? topNGrams(tokens, 3) : []
+        },
+        target: null
+    };
+
+    const phrase = tokenize(targetKeyword || '');
+    if (phrase.length === 0) return info;
+
+    const positions = findPhrase(tokens, phrase);
+    const firstParagraph = $('body p').filter((i, el) => $(el).text().trim().length > 0).first().text();
+    // Slugs separate words with hyphens or underscores, which tokenize() already splits on
+    const slug = decodePath(new URL(pageUrl).pathname);
+    const alts = $('img[alt]').map((i, el) => $(el).attr('alt')).get();
+
+    info.target = {
+        keyword: phrase.join(' '),
+        occurrences: positions.length,
+        density: tokens.length > 0 ? round((positions.length * phrase.length / tokens.length) * 100) : 0,
+        prominence: positions.length > 0 ? Math.round(100 * (1 - positions[0] / tokens.length)) : 0,
+        placement: {
+            title: contains($('title').first().text(), phrase),
+            metaDescription: contains($('meta[name="description" i]').attr('content') || '', phrase),
+            h1: $('h1').toArray().some(el => contains($(el).text(), phrase)),
+            firstParagraph: contains(firstParagraph, phrase),
+            urlSlug: contains(slug, phrase),
+            imageAlt: alts.some(alt => contains(alt, phrase))
+        }
+    };
+    return info;
+}
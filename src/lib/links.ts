@@ -0,0 +1,167 @@
+import type { Readable } from 'stream';
+import { CheerioAPI } from 'cheerio';
+import { fetchWithRedirects } from '@/lib/redirects';
+
+export type LinkType = 'internal' | 'external' | 'mailto' | 'tel' | 'fragment' | 'other';
+
+export interface PageLink {
+    href: string; // as written
+    url: string | null; // resolved against <base> and the page URL, without fragment
+    type: LinkType;
+    rel: string[];
+    anchorText: string; // link text, or the alt text of a linked image
+    genericAnchor: boolean;
+}
+
+export interface LinkCheck {
+    url: string;
+    status: number | null; // null when the request failed
+    finalUrl: string;
+    redirected: boolean;
+}
+
+export interface LinkAudit {
+    links: PageLink[];
+    counts: Record<LinkType, number>;
+    nofollow: number;
+    sponsored: number;
+    ugc: number;
+    externalDomains: string[];
+    genericAnchors: { anchorText: string; url: string }[];
+    emptyAnchors: number;
+    checked: number;
+    broken: { url: string; type: LinkType; status: number | null; anchorText: string }[];
+    redirected: { url: string; type: LinkType; finalUrl: string }[];
+}
+
+// Shared between the pages of a crawl, so each URL is only checked once
+export type LinkCheckCache = Map<string, Promise<LinkCheck>>;
+
+const MAX_LINKS_CHECKED = 50;
+const CHECK_CONCURRENCY = 5;
+const CHECK_TIMEOUT_MS = 8000;
+
+const GENERIC_ANCHORS = new Set([
+    'click here', 'click', 'here', 'read more', 'more', 'learn more', 'find out more',
+    'see more', 'more info', 'more information', 'details', 'link', 'this link',
+    'this', 'this page', 'go', 'continue', 'website', 'download'
+]);
+
+// www.example.com and example.com are the same site; other subdomains aren't
+const hostKey = (hostname: string) => hostname.toLowerCase().replace(/^www\./, '');
+
+function classify(href: string, resolved: URL | null, pageUrl: URL): LinkType {
+    if (href.startsWith('#')) return 'fragment';
+    if (!resolved) return 'other';
+    if (resolved.protocol === 'mailto:') return 'mailto';
+    if (resolved.protocol === 'tel:') return 'tel';
+    if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') return 'other';
+    return hostKey(resolved.hostname) === hostKey(pageUrl.hostname) ? 'internal' : 'external';
+}
+
+// Every <a href> on the page. Relative and protocol-relative links are
+// resolved against <base href> when the page has one.
+export function extractLinks($: CheerioAPI, pageUrl: string): PageLink[] {
+    const page = new URL(pageUrl);
+    let base = page;
+    const baseHref = $('base[href]').first().attr('href');
+    if (baseHref) {
+        try {
+            base = new URL(baseHref, page);
+        } catch { }
+    }
+
+    return $('a[href]').map((i, el) => {
+        const $el = $(el);
+        const href = ($el.attr('href') || '').trim();
+        let resolved: URL | null = null;
+        try {
+            resolved = new URL(href, base);
+            resolved.hash = '';
+        } catch { }
+
+        const anchorText = ($el.text().replace(/\s+/g, ' ').trim()
+            || $el.find('img[alt]').map((j, img) => $(img).attr('alt')).get().join(' ').trim()
+            || $el.attr('aria-label')?.trim()
+            || '');
+
+        return {
+            href,
+            url: resolved ? resolved.toString() : null,
+            type: classify(href, resolved, page),
+            rel: ($el.attr('rel') || '').toLowerCase().split(/\s+/).filter(Boolean),
+            anchorText,
+            genericAnchor: GENERIC_ANCHORS.has(anchorText.toLowerCase().replace(/[^\p{L}\p{N} ]/gu, '').trim())
+        };
+    }).get();
+}
+
+// HEAD first. Plenty of servers mishandle HEAD, so an error is confirmed with a GET.
+async function checkLink(url: string): Promise<LinkCheck> {
+    const request = async (method: 'HEAD' | 'GET') => {
+        const result = await fetchWithRedirects(url, {
+            method,
+            headers: { 'User-Agent': 'SEOduel-Bot/1.0' },
+            signal: AbortSignal.timeout(CHECK_TIMEOUT_MS)
+        });
+        // Only the status is needed; an unread body holds on to its connection
+        (result.response.body as Readable | null)?.destroy();
+        return result;
+    };
+    try {
+        let { response, chain } = await request('HEAD');
+        if (response.status >= 400) {
+            ({ response, chain } = await request('GET'));
+        }
+        return { url, status: response.status, finalUrl: chain.finalUrl, redirected: chain.hops.length > 1 };
+    } catch {
+        return { url, status: null, finalUrl: url, redirected: false };
+    }
+}
+
+// Login walls and rate limits answer 401/403/429 to bots even when the page
+// is fine for visitors, so those don't count as broken.
+const isBroken = (status: number | null) => status === null || (status >= 400 && ![401, 403, 429].includes(status));
+
+export async function auditLinks($: CheerioAPI, pageUrl: string, cache: LinkCheckCache = new Map()): Promise<LinkAudit> {
+    const links = extractLinks($, pageUrl);
+
+    const counts: Record<LinkType, number> = { internal: 0, external: 0, mailto: 0, tel: 0, fragment: 0, other: 0 };
+    links.forEach(l => counts[l.type]++);
+    const has = (rel: string) => links.filter(l => l.rel.includes(rel)).length;
+
+    // Internal links first: they're the ones the site owner can always fix
+    const checkable = [...new Map(links
+        .filter(l => l.type === 'internal' || l.type === 'external')
+        .sort((a, b) => (a.type === b.type ? 0 : a.type === 'internal' ? -1 : 1))
+        .map(l => [l.url!, l])).values()]
+        .slice(0, MAX_LINKS_CHECKED);
+
+    const queue = [...checkable];
+    const results = new Map<string, LinkCheck>();
+    await Promise.all(Array.from({ length: CHECK_CONCURRENCY }, async () => {
+        for (let link = queue.shift(); link; link = queue.shift()) {
+            if (!cache.has(link.url!)) cache.set(link.url!, checkLink(link.url!));
+            results.set(link.url!, await cache.get(link.url!)!);
+        }
+    }));
+    const checks = checkable.map(link => ({ link, check: results.get(link.url!)! }));
+
+    return {
+        links,
+        counts,
+        nofollow: has('nofollow'),
+        sponsored: has('sponsored'),
+        ugc: has('ugc'),
+        externalDomains: [...new Set(links.filter(l => l.type === 'external').map(l => new URL(l.url!).hostname))],
+        genericAnchors: links.filter(l => l.genericAnchor).map(l => ({ anchorText: l.anchorText, url: l.url || l.href })),
+        emptyAnchors: links.filter(l => !l.anchorText && l.type !== 'fragment').length,
+        checked: checkable.length,
+        broken: checks
+            .filter(({ check }) => isBroken(check.status))
+            .map(({ link, check }) => ({ url: check.url, type: link.type, status: check.status, anchorText: link.anchorText })),
+        redirected: checks
+            .filter(({ check }) => !isBroken(check.status) && check.redirected)
+            .map(({ link, check }) => ({ url: check.url, type: link.type, finalUrl: check.finalUrl }))
+    };
+}
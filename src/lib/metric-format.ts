@@ -0,0 +1,63 @@
+import type { MetricResult, SeoBreakdownCategory } from '@/lib/seo-interpreter';
+
+// Units shown next to numeric metric values, keyed by metric id
+export const METRIC_UNITS: Record<string, string> = {
+    title: "chars",
+    metaDescription: "chars",
+    socialPreview: "missing tags",
+    h1: "H1",
+    contentDepth: "words",
+    imageAlt: "missing alt",
+    internalLinks: "links",
+    sitemap: "URLs",
+    redirects: "hops",
+    mobileFontSize: "too small",
+    tapTargets: "too small",
+    hreflang: "languages",
+    jsRendering: "changed by JS",
+    ttfb: "ms",
+    htmlWeight: "KB",
+    renderBlocking: "files",
+    thirdParty: "domains",
+    lazyImages: "not lazy",
+    imageDimensions: "missing size",
+    schema: "rich results",
+    headingOrder: "skips",
+    emptyHeadings: "empty",
+    duplicateHeadings: "repeated",
+    hiddenHeadings: "hidden",
+    imageHeadings: "image-only",
+    keywordDensity: "% of words",
+    keywordProminence: "/ 100",
+    formLabels: "unlabeled",
+    buttonNames: "unlabeled",
+    linkNames: "unlabeled",
+    ariaUsage: "problems",
+    duplicateIds: "repeated",
+    colorContrast: "low contrast"
+};
+
+// A metric's value as shown in comparison tables and exports. `status` is
+// null when the site's report doesn't have the metric.
+export function formatMetricValue(metric: string, status: MetricResult["status"] | null, value?: number | boolean): string {
+    if (status === null) return "—";
+    if (typeof value === "boolean") return value ? "Yes" : "No";
+    if (typeof value === "number") {
+        const unit = METRIC_UNITS[metric];
+        if (unit === "chars" && value === 0) return "Missing";
+        return unit ? `${value} ${unit}` : `${value}`;
+    }
+    return status === "unknown" ? "Unknown" : status;
+}
+
+// A category's score, or a dash when none of its checks could be run
+export function formatCategoryScore(category: SeoBreakdownCategory): string {
+    return category.total > 0 ? `${category.score}%` : "—";
+}
+
+export function statusColor(status: MetricResult["status"] | null): string {
+    if (status === "good") return "var(--success)";
+    if (status === "warning") return "var(--warning)";
+    if (status === "critical") return "var(--danger)";
+    return "var(--text-muted)";
+}
@@ -0,0 +1,263 @@
+import fetch from 'node-fetch';
+import { CheerioAPI, load } from 'cheerio';
+import { fetchWithRedirects } from '@/lib/redirects';
+import { parseDeclarations, toPx } from '@/lib/css';
+import type { FetchedPage } from '@/lib/seo-analyzer';
+
+// Google indexes the smartphone version of a page. This fetches the page as
+// both of Googlebot's user agents to catch servers that send phones less, and
+// reads the viewport and the CSS for text and buttons too small to use.
+
+export const GOOGLEBOT_SMARTPHONE = 'Mozilla/5.0 (Linux; Android 6.0.1; Nexus 5X Build/MMB29P) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/141.0.0.0 Mobile Safari/537.36 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)';
+export const GOOGLEBOT_DESKTOP = 'Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; Googlebot/2.1; +http://www.google.com/bot.html) Chrome/141.0.0.0 Safari/537.36';
+
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_STYLESHEETS = 5;
+const MAX_STYLESHEET_BYTES = 1_000_000;
+const MAX_FINDINGS = 20;
+
+// Widest screen still treated as a phone; media queries for wider ones are skipped
+const PHONE_MAX_WIDTH_PX = 768;
+
+// Only sizes below these are recorded; the rules' thresholds pick from them
+const FONT_CANDIDATE_PX = 16;
+const TAP_CANDIDATE_PX = 48;
+
+// Sizes of HTML beyond this much apart mean the server sends each device its own page
+const DYNAMIC_SERVING_BYTES_PERCENT = 5;
+
+export interface ViewportInfo {
+    content: string | null; // null without a viewport meta tag
+    deviceWidth: boolean; // width=device-width
+    fixedWidth: number | null; // e.g. width=1024
+    zoomBlocked: boolean; // user-scalable=no, or a maximum-scale below 2
+}
+
+export interface UserAgentVersion {
+    status: number | null; // null when the request failed
+    finalUrl: string;
+    vary: string | null;
+    htmlBytes: number;
+    title: string;
+    h1: string;
+    wordCount: number;
+    links: number;
+    structuredData: number; // JSON-LD blocks
+}
+
+export interface CssFinding {
+    selector: string;
+    px: number;
+}
+
+export interface MobileInfo {
+    viewport: ViewportInfo;
+    smartphone: UserAgentVersion;
+    desktop: UserAgentVersion;
+    servesDifferentHtml: boolean; // dynamic serving or separate mobile URLs
+    varyUserAgent: boolean;
+    stylesheetsChecked: number; // linked ones; inline styles are always read
+    smallFonts: CssFinding[]; // font sizes under 16px
+    smallTapTargets: CssFinding[]; // links and buttons sized under 48px
+}
+
+function parseViewport(content: string | undefined): ViewportInfo {
+    if (content === undefined) return { content: null, deviceWidth: false, fixedWidth: null, zoomBlocked: false };
+    const props = new Map(content.split(/[,;]/).map(part => {
+        const [key, value = ''] = part.split('=').map(s => s.trim().toLowerCase());
+        return [key, value] as const;
+    }));
+    const width = props.get('width') || '';
+    const maxScale = parseFloat(props.get('maximum-scale') || '');
+    return {
+        content,
+        deviceWidth: width === 'device-width',
+        fixedWidth: /^\d+$/.test(width) ? parseInt(width, 10) : null,
+        zoomBlocked: ['no', '0'].includes(props.get('user-scalable') || '') || maxScale < 2
+    };
+}
+
+// --- User agents ---
+
+function describeVersion($: CheerioAPI) {
+    $('script:not([type="application/ld+json" i]), style, noscript').remove();
+    return {
+        title: $('title').first().text().trim(),
+        h1: $('h1').first().text().trim(),
+        wordCount: $('body').text().split(/\s+/).filter(Boolean).length,
+        links: $('a[href]').length,
+        structuredData: $('script[type="application/ld+json" i]').length
+    };
+}
+
+async function fetchAs(url: string, userAgent: string): Promise<UserAgentVersion> {
+    try {
+        const { response, chain } = await fetchWithRedirects(url, {
+            headers: { 'User-Agent': userAgent },
+            signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+        });
+        const html = await response.text();
+        return {
+            status: response.status,
+            finalUrl: chain.finalUrl,
+            vary: response.headers.get('vary'),
+            htmlBytes: Buffer.byteLength(html),
+            ...describeVersion(load(html))
+        };
+    } catch {
+        return { status: null, finalUrl: url, vary: null, htmlBytes: 0, title: '', h1: '', wordCount: 0, links: 0, structuredData: 0 };
+    }
+}
+
+function differ(a: UserAgentVersion, b: UserAgentVersion): boolean {
+    const bytes = Math.abs(a.htmlBytes - b.htmlBytes) * 100 > Math.max(a.htmlBytes, b.htmlBytes) * DYNAMIC_SERVING_BYTES_PERCENT;
+    return a.finalUrl !== b.finalUrl || a.title !== b.title || a.h1 !== b.h1 || bytes;
+}
+
+// --- CSS heuristics ---
+
+interface CssRule {
+    selector: string;
+    declarations: Map<string, string>;
+}
+
+// Whether the rules in an at-rule block can apply on a phone
+function appliesOnPhone(prelude: string): boolean {
+    const lower = prelude.toLowerCase();
+    if (lower.startsWith('@media')) {
+        const query = lower.slice(6).trim();
+        if (/^(only\s+)?print\b/.test(query)) return false;
+        const minWidth = query.match(/min-width\s*:\s*([\d.]+(?:px|r?em))/);
+        return !minWidth || (toPx(minWidth[1]) ?? 0) < PHONE_MAX_WIDTH_PX;
+    }
+    // Grouping rules; keyframes, font faces and the like hold no element styles
+    return /^@(supports|layer|container|scope)\b/.test(lower);
+}
+
+// Style rules a phone would apply, in source order. Not a full CSS parser:
+// braces inside strings aren't expected.
+function phoneRules(css: string): CssRule[] {
+    const text = css.replace(/\/\*[\s\S]*?\*\//g, '');
+    const rules: CssRule[] = [];
+    const blocks: boolean[] = []; // per open at-rule block: does it apply on a phone
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '{') {
+            const prelude = text.slice(start, i).trim();
+            if (prelude.startsWith('@')) {
+                blocks.push(appliesOnPhone(prelude));
+            } else {
+                const end = text.indexOf('}', i);
+                if (end === -1) break;
+                if (blocks.every(Boolean)) rules.push({ selector: prelude, declarations: parseDeclarations(text.slice(i + 1, end)) });
+                i = end;
+            }
+            start = i + 1;
+        } else if (ch === '}') {
+            blocks.pop();
+            start = i + 1;
+        } else if (ch === ';' && text.slice(start, i).trim().startsWith('@')) {
+            start = i + 1; // @import, @charset
+        }
+    }
+    return rules;
+}
+
+// Links, buttons and form fields, as the last part of a selector
+const TAP_TARGET = /(^|[\s>+~])(a|button|input|select|textarea)(?=$|[.#:[])|\[role=["']?button|\.(btn|button)\b/i;
+
+function isTapTarget(selector: string): boolean {
+    return selector.split(',').some(s => TAP_TARGET.test(s.trim().split(/\s*[\s>+~]\s*/).pop() || ''));
+}
+
+// The smaller of the declared width and height, counting min-width/min-height
+function tapSize(declarations: Map<string, string>): number | null {
+    const dimension = (prop: 'width' | 'height') => {
+        const sizes = [declarations.get(prop), declarations.get(`min-${prop}`)]
+            .map(v => v === undefined || v.endsWith('%') ? null : toPx(v))
+            .filter((px): px is number => px !== null);
+        return sizes.length > 0 ? Math.max(...sizes) : null;
+    };
+    const sizes = [dimension('width'), dimension('height')].filter((px): px is number => px !== null);
+    return sizes.length > 0 ? Math.min(...sizes) : null;
+}
+
+function findSmallSizes(rules: CssRule[]) {
+    const smallFonts = new Map<string, number>();
+    const smallTapTargets = new Map<string, number>();
+    rules.forEach(({ selector, declarations }) => {
+        const fontSize = declarations.get('font-size');
+        const fontPx = fontSize ? toPx(fontSize) : null;
+        if (fontPx !== null && fontPx > 0 && fontPx < FONT_CANDIDATE_PX) smallFonts.set(selector, Math.round(fontPx * 10) / 10);
+
+        const tapPx = isTapTarget(selector) ? tapSize(declarations) : null;
+        if (tapPx !== null && tapPx > 0 && tapPx < TAP_CANDIDATE_PX) smallTapTargets.set(selector, Math.round(tapPx));
+    });
+    const findings = (sizes: Map<string, number>) => [...sizes]
+        .map(([selector, px]) => ({ selector, px }))
+        .sort((a, b) => a.px - b.px)
+        .slice(0, MAX_FINDINGS);
+    return { smallFonts: findings(smallFonts), smallTapTargets: findings(smallTapTargets) };
+}
+
+async function fetchStylesheet(url: string): Promise<string | null> {
+    try {
+        const response = await fetch(url, {
+            headers: { 'User-Agent': 'SEOduel-Bot/1.0' },
+            signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+            size: MAX_STYLESHEET_BYTES
+        });
+        return response.ok ? await response.text() : null;
+    } catch {
+        return null;
+    }
+}
+
+// <style> blocks, style="" attributes (as their element's tag) and the first
+// few linked stylesheets
+async function collectCss($: CheerioAPI, pageUrl: string): Promise<{ rules: CssRule[]; stylesheetsChecked: number }> {
+    const hrefs = $('link[rel~="stylesheet" i][href]')
+        .filter((i, el) => !/^\s*print\s*$/i.test($(el).attr('media') || ''))
+        .map((i, el) => {
+            try {
+                return new URL($(el).attr('href')!, pageUrl).toString();
+            } catch {
+                return null;
+            }
+        }).get()
+        .filter((href): href is string => !!href && href.startsWith('http'))
+        .slice(0, MAX_STYLESHEETS);
+    const sheets = (await Promise.all(hrefs.map(fetchStylesheet))).filter((css): css is string => css !== null);
+
+    const inline = $('style').map((i, el) => $(el).text()).get();
+    const attributes = $('[style]').map((i, el) => {
+        return { selector: `${el.tagName.toLowerCase()}[style]`, declarations: parseDeclarations($(el).attr('style') || '') };
+    }).get();
+
+    return {
+        rules: [...sheets, ...inline].flatMap(phoneRules).concat(attributes),
+        stylesheetsChecked: sheets.length
+    };
+}
+
+export async function analyzeMobile(page: FetchedPage): Promise<MobileInfo> {
+    const { $, url, finalUrl } = page;
+    // From the URL as requested, so redirects to a separate mobile site show up
+    const [smartphone, desktop, css] = await Promise.all([
+        fetchAs(url, GOOGLEBOT_SMARTPHONE),
+        fetchAs(url, GOOGLEBOT_DESKTOP),
+        collectCss($, finalUrl)
+    ]);
+    const varies = (version: UserAgentVersion) => /(^|,)\s*(user-agent|\*)\s*(,|$)/i.test(version.vary || '');
+
+    return {
+        viewport: parseViewport($('meta[name="viewport" i]').attr('content')),
+        smartphone,
+        desktop,
+        servesDifferentHtml: smartphone.status !== null && desktop.status !== null && differ(smartphone, desktop),
+        varyUserAgent: varies(smartphone) || varies(desktop),
+        stylesheetsChecked: css.stylesheetsChecked,
+        ...findSmallSizes(css.rules)
+    };
+}
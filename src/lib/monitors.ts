@@ -0,0 +1,258 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import fetch from 'node-fetch';
+import { analyzeUrl, normalizeUrl } from '@/lib/seo-analyzer';
+import { diffReports, domainOf, getSnapshot, MetricChange, withHistory } from '@/lib/history';
+import { matchesCron, parseCron } from '@/lib/cron';
+import { DATA_DIR, readJson, writeJson } from '@/lib/storage';
+
+export interface MonitorInput {
+    url: string;
+    competitorUrls?: string[]; // makes it a duel monitor
+    schedule: string; // cron expression, server local time
+    webhookUrl?: string; // falls back to SEODUEL_WEBHOOK_URL
+    targetKeyword?: string;
+}
+
+export interface MonitorRun {
+    at: string;
+    status: 'ok' | 'error';
+    error?: string;
+    scores: Record<string, number>; // by URL, the monitored site first
+    snapshotId?: string; // the monitored site's latest history snapshot, which the next run compares with
+    alerted: boolean;
+    webhookError?: string;
+}
+
+export interface Monitor {
+    id: string;
+    url: string;
+    competitorUrls: string[];
+    schedule: string;
+    webhookUrl: string | null;
+    targetKeyword: string | null;
+    createdAt: string;
+    lastRun: MonitorRun | null;
+}
+
+export interface RegressedMetric extends MetricChange {
+    plainExplanation: string;
+    action: string;
+}
+
+// POSTed to the webhook. `text` is a ready-made summary for chat tools
+// (Slack and Mattermost incoming webhooks render it as-is).
+export interface RegressionAlert {
+    event: 'seoduel.regression';
+    text: string;
+    monitor: { id: string; url: string; schedule: string };
+    runAt: string;
+    error?: string; // the monitored site couldn't be analyzed at all
+    score: { previous: number | null; current: number | null };
+    regressions: RegressedMetric[];
+    overtakenBy: { url: string; score: number; previousScore: number | null }[];
+}
+
+const MONITORS_FILE = path.join(DATA_DIR, 'monitors.json');
+const MAX_COMPETITORS = 5;
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// Every change goes through this chain, so concurrent runs can't overwrite
+// each other's updates
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+function updateMonitors<T>(change: (monitors: Monitor[]) => T): Promise<T> {
+    const result = pendingWrite.then(async () => {
+        const monitors = await listMonitors();
+        const value = change(monitors);
+        await writeJson(MONITORS_FILE, monitors);
+        return value;
+    });
+    pendingWrite = result.catch(() => undefined);
+    return result;
+}
+
+export function listMonitors(): Promise<Monitor[]> {
+    return readJson<Monitor[]>(MONITORS_FILE, []);
+}
+
+// Returns what's wrong with the input, or null when it can be saved
+export function validateMonitor(data: unknown): string | null {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) return 'The body must be a JSON object';
+    const input = data as Partial<Record<keyof MonitorInput, unknown>>;
+    if (!input.url || typeof input.url !== 'string') return 'url is required';
+    if (!input.schedule || typeof input.schedule !== 'string') return 'schedule is required';
+    try {
+        parseCron(input.schedule);
+    } catch (err) {
+        return `Invalid schedule: ${err instanceof Error ? err.message : err}`;
+    }
+    if (input.competitorUrls !== undefined && (!Array.isArray(input.competitorUrls) || input.competitorUrls.some(u => typeof u !== 'string'))) {
+        return 'competitorUrls must be a list of URLs';
+    }
+    if ((input.competitorUrls?.length || 0) > MAX_COMPETITORS) return `At most ${MAX_COMPETITORS} competitors are supported`;
+    if (input.webhookUrl && (typeof input.webhookUrl !== 'string' || !/^https?:\/\//i.test(input.webhookUrl))) return 'webhookUrl must be an http(s) URL';
+    if (input.targetKeyword !== undefined && typeof input.targetKeyword !== 'string') return 'targetKeyword must be text';
+    return null;
+}
+
+export function createMonitor(input: MonitorInput): Promise<Monitor> {
+    const monitor: Monitor = {
+        id: randomUUID(),
+        url: normalizeUrl(input.url),
+        competitorUrls: (input.competitorUrls || []).filter(Boolean).map(normalizeUrl),
+        schedule: input.schedule.trim(),
+        webhookUrl: input.webhookUrl || null,
+        targetKeyword: input.targetKeyword || null,
+        createdAt: new Date().toISOString(),
+        lastRun: null
+    };
+    return updateMonitors(monitors => {
+        monitors.push(monitor);
+        return monitor;
+    });
+}
+
+export function deleteMonitor(id: string): Promise<boolean> {
+    return updateMonitors(monitors => {
+        const index = monitors.findIndex(m => m.id === id);
+        if (index === -1) return false;
+        monitors.splice(index, 1);
+        return true;
+    });
+}
+
+function describeAlert(alert: Omit<RegressionAlert, 'text'>): string {
+    const lines = [`SEOduel alert for ${alert.monitor.url}`];
+    if (alert.error) lines.push(`The site could not be analyzed: ${alert.error}`);
+    if (alert.score.previous !== null && alert.score.current !== null && alert.score.current !== alert.score.previous) {
+        lines.push(`Score: ${alert.score.previous} → ${alert.score.current}`);
+    }
+    alert.regressions.forEach(r => {
+        lines.push(`• ${r.title}: ${r.from} → ${r.to ?? 'not measured'}. ${r.plainExplanation} Next step: ${r.action}`);
+    });
+    alert.overtakenBy.forEach(c => {
+        lines.push(`• ${c.url} overtook you with a score of ${c.score} (yours: ${alert.score.current})`);
+    });
+    return lines.join('\n');
+}
+
+async function sendWebhook(url: string, alert: RegressionAlert): Promise<string | undefined> {
+    try {
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'User-Agent': 'SEOduel-Bot/1.0' },
+            body: JSON.stringify(alert),
+            signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+        });
+        return response.ok ? undefined : `Webhook answered ${response.status}`;
+    } catch (err) {
+        return err instanceof Error ? err.message : 'Webhook request failed';
+    }
+}
+
+// Re-analyzes the monitored site (and competitors), compares the result with
+// the monitor's previous run, and POSTs an alert when something got worse.
+// Analyses made in between, by hand or by other monitors, don't count.
+export async function runMonitor(monitor: Monitor): Promise<{ run: MonitorRun; alert: RegressionAlert | null }> {
+    const runAt = new Date().toISOString();
+    const options = { targetKeyword: monitor.targetKeyword || undefined };
+    const analyses = await Promise.all([monitor.url, ...monitor.competitorUrls].map(url => analyzeUrl(url, options)));
+    const [user, ...competitors] = await Promise.all(analyses.map(a => (a.status === 'ok' ? withHistory(a) : a)));
+
+    const scores: Record<string, number> = {};
+    [user, ...competitors].forEach(a => {
+        if (a.report) scores[a.url] = a.report.score;
+    });
+
+    const previousScores = monitor.lastRun?.scores || {};
+    const userScore = user.report?.score ?? null;
+    const previousUserScore = previousScores[user.url] ?? null;
+
+    const previousSnapshot = monitor.lastRun?.snapshotId ? await getSnapshot(domainOf(user.url), monitor.lastRun.snapshotId) : null;
+    const changes = previousSnapshot?.analysis.report && user.report ? diffReports(previousSnapshot.analysis.report, user.report) : [];
+    const details = new Map(user.report?.sections.flatMap(s => s.metrics.map(m => [m.metric || m.title, m] as const)) || []);
+    const regressions: RegressedMetric[] = changes
+        .filter(c => c.direction === 'regressed')
+        .map(c => ({
+            ...c,
+            plainExplanation: details.get(c.metric)?.plainExplanation || '',
+            action: details.get(c.metric)?.action || ''
+        }));
+
+    // Only a change of leader counts: a competitor that was already ahead isn't news
+    const overtakenBy = userScore === null ? [] : competitors
+        .filter(c => c.report && c.report.score > userScore)
+        .filter(c => previousScores[c.url] !== undefined && previousUserScore !== null && previousScores[c.url] <= previousUserScore)
+        .map(c => ({ url: c.url, score: c.report!.score, previousScore: previousScores[c.url] }));
+
+    let alert: RegressionAlert | null = null;
+    if (user.status === 'error' || regressions.length > 0 || overtakenBy.length > 0) {
+        const body: Omit<RegressionAlert, 'text'> = {
+            event: 'seoduel.regression',
+            monitor: { id: monitor.id, url: monitor.url, schedule: monitor.schedule },
+            runAt,
+            ...(user.status === 'error' ? { error: user.error } : {}),
+            score: { previous: previousUserScore, current: userScore },
+            regressions,
+            overtakenBy
+        };
+        alert = { ...body, text: describeAlert(body) };
+    }
+
+    const webhookUrl = monitor.webhookUrl || process.env.SEODUEL_WEBHOOK_URL;
+    const webhookError = alert && webhookUrl ? await sendWebhook(webhookUrl, alert) : undefined;
+    if (alert && !webhookUrl) console.warn(`Monitor ${monitor.id} has an alert but no webhook URL is configured`);
+
+    const failed = [user, ...competitors].find(a => a.status === 'error');
+    // Like the scores, a failed run keeps the last snapshot to compare with
+    const snapshotId = user.history?.snapshot.id ?? monitor.lastRun?.snapshotId;
+    const run: MonitorRun = {
+        at: runAt,
+        status: failed ? 'error' : 'ok',
+        ...(failed ? { error: `${failed.url}: ${failed.error}` } : {}),
+        // Keep the last known scores of sites that failed, so overtaking is still detected next time
+        scores: { ...previousScores, ...scores },
+        ...(snapshotId ? { snapshotId } : {}),
+        alerted: !!alert && !!webhookUrl && !webhookError,
+        ...(webhookError ? { webhookError } : {})
+    };
+
+    await updateMonitors(monitors => {
+        const stored = monitors.find(m => m.id === monitor.id);
+        if (stored) stored.lastRun = run;
+    });
+    return { run, alert };
+}
+
+// Checks every monitor's schedule at the start of each minute. Started once
+// per server process from instrumentation.ts; SEODUEL_SCHEDULER=off disables it.
+export function startMonitorScheduler() {
+    const state = globalThis as typeof globalThis & { seoduelScheduler?: boolean };
+    if (state.seoduelScheduler || process.env.SEODUEL_SCHEDULER === 'off') return;
+    state.seoduelScheduler = true;
+
+    const running = new Set<string>();
+    const tick = async (now: Date) => {
+        for (const monitor of await listMonitors()) {
+            if (running.has(monitor.id)) continue; // previous run still going
+            try {
+                if (!matchesCron(parseCron(monitor.schedule), now)) continue;
+            } catch {
+                continue;
+            }
+            running.add(monitor.id);
+            runMonitor(monitor)
+                .catch(err => console.error(`Monitor ${monitor.id} failed:`, err))
+                .finally(() => running.delete(monitor.id));
+        }
+    };
+
+    const scheduleNext = () => {
+        setTimeout(() => {
+            scheduleNext();
+            tick(new Date()).catch(err => console.error('Monitor scheduler failed:', err));
+        }, 60000 - (Date.now() % 60000) + 100).unref();
+    };
+    scheduleNext();
+}
@@ -0,0 +1,98 @@
+import type { FetchedPage, PageTiming } from '@/lib/seo-analyzer';
+
+export interface PerformanceInfo {
+    timing: PageTiming;
+    compression: string | null; // content-encoding, e.g. "br" or "gzip"
+    htmlBytes: number;
+    transferBytes: number | null; // content-length as sent, when the server gives one
+    caching: {
+        cacheControl: string | null;
+        maxAge: number | null;
+        noStore: boolean;
+        expires: string | null;
+        etag: boolean;
+        lastModified: boolean;
+    };
+    renderBlocking: {
+        scripts: string[];
+        stylesheets: string[];
+    };
+    thirdPartyOrigins: string[];
+    images: {
+        total: number;
+        notLazy: number;
+        missingDimensions: number;
+    };
+}
+
+// Hosts on the same registrable domain (www.example.com, cdn.example.com)
+// count as first party. Two-label suffixes like .co.uk aren't handled.
+function siteKey(hostname: string): string {
+    return hostname.split('.').slice(-2).join('.');
+}
+
+export function analyzePerformance(page: FetchedPage): PerformanceInfo {
+    const { $, html, response, timing, finalUrl } = page;
+    const headers = response.headers;
+
+    const cacheControl = headers.get('cache-control');
+    const maxAgeMatch = cacheControl?.match(/(?:s-)?max-age=(\d+)/i);
+    const contentLength = headers.get('content-length');
+
+    // <script src> in <head> without async/defer blocks parsing; modules are deferred by default
+    const scripts = $('head script[src]')
+        .filter((i, el) => {
+            const $el = $(el);
+            return $el.attr('async') === undefined && $el.attr('defer') === undefined && $el.attr('type') !== 'module';
+        })
+        .map((i, el) => $(el).attr('src')!)
+        .get();
+
+    const stylesheets = $('head link[rel="stylesheet" i]')
+        .filter((i, el) => {
+            const media = ($(el).attr('media') || 'all').toLowerCase();
+            return media !== 'print' && $(el).attr('disabled') === undefined;
+        })
+        .map((i, el) => $(el).attr('href') || '')
+        .get();
+
+    const pageSite = siteKey(new URL(finalUrl).hostname);
+    const origins = new Set<string>();
+    $('script[src], link[href][rel~="stylesheet" i], link[href][rel~="preload" i], img[src], iframe[src]').each((i, el) => {
+        const ref = $(el).attr('src') || $(el).attr('href');
+        if (!ref) return;
+        try {
+            const resolved = new URL(ref, finalUrl);
+            if (resolved.protocol.startsWith('http') && siteKey(resolved.hostname) !== pageSite) {
+                origins.add(resolved.origin);
+            }
+        } catch { }
+    });
+
+    // The first image is usually above the fold and shouldn't be lazy-loaded
+    const imgs = $('img');
+    const notLazy = imgs.slice(1).filter((i, el) => ($(el).attr('loading') || '').toLowerCase() !== 'lazy').length;
+    const missingDimensions = imgs.filter((i, el) => !$(el).attr('width') || !$(el).attr('height')).length;
+
+    return {
+        timing,
+        compression: headers.get('content-encoding'),
+        htmlBytes: Buffer.byteLength(html),
+        transferBytes: contentLength ? Number(contentLength) : null,
+        caching: {
+            cacheControl,
+            maxAge: maxAgeMatch ? Number(maxAgeMatch[1]) : null,
+            noStore: /no-store/i.test(cacheControl || ''),
+            expires: headers.get('expires'),
+            etag: headers.has('etag'),
+            lastModified: headers.has('last-modified')
+        },
+        renderBlocking: { scripts, stylesheets },
+        thirdPartyOrigins: [...origins],
+        images: {
+            total: imgs.length,
+            notLazy,
+            missingDimensions
+        }
+    };
+}
@@ -0,0 +1,69 @@
+import type { Readable } from 'stream';
+import fetch, { RequestInit, Response } from 'node-fetch';
+
+export interface RedirectHop {
+    url: string;
+    status: number;
+    location?: string;
+    timeMs: number; // request start to response headers
+}
+
+export interface RedirectChain {
+    hops: RedirectHop[]; // every response, the final one included
+    finalUrl: string;
+    loop: boolean;
+    tooManyRedirects: boolean;
+}
+
+const MAX_REDIRECTS = 10;
+// For the whole chain, unless the caller passes a signal of its own
+const FETCH_TIMEOUT_MS = 10_000;
+
+// Like fetch(), but follows redirects by hand so each hop can be reported.
+// The last response is returned as-is, even when it is itself a redirect
+// (loop or too many hops).
+export async function fetchWithRedirects(url: string, init: RequestInit = {}): Promise<{ response: Response; chain: RedirectChain }> {
+    const hops: RedirectHop[] = [];
+    const visited = new Set<string>();
+    const signal = init.signal ?? AbortSignal.timeout(FETCH_TIMEOUT_MS);
+    let current = url;
+
+    for (;;) {
+        const startedAt = performance.now();
+        const response = await fetch(current, { ...init, signal, redirect: 'manual' });
+        const timeMs = Math.round(performance.now() - startedAt);
+        const location = response.headers.get('location');
+        const isRedirect = response.status >= 300 && response.status < 400 && !!location;
+
+        hops.push(isRedirect
+            ? { url: current, status: response.status, location: location!, timeMs }
+            : { url: current, status: response.status, timeMs });
+        visited.add(current);
+
+        if (!isRedirect) {
+            return { response, chain: { hops, finalUrl: current, loop: false, tooManyRedirects: false } };
+        }
+
+        const next = new URL(location!, current).toString();
+        const loop = visited.has(next);
+        if (loop || hops.length > MAX_REDIRECTS) {
+            return { response, chain: { hops, finalUrl: current, loop, tooManyRedirects: !loop } };
+        }
+        // node-fetch bodies are Node streams; an unread one holds on to its connection
+        (response.body as Readable | null)?.destroy();
+        current = next;
+    }
+}
+
+// What the redirects did to the URL, beyond just moving it
+export function describeNormalization(chain: RedirectChain) {
+    const first = new URL(chain.hops[0].url);
+    const last = new URL(chain.finalUrl);
+    const firstWww = first.hostname.startsWith('www.');
+    const lastWww = last.hostname.startsWith('www.');
+
+    return {
+        httpToHttps: first.protocol === 'http:' && last.protocol === 'https:',
+        www: firstWww === lastWww ? null : (lastWww ? 'added' as const : 'removed' as const)
+    };
+}
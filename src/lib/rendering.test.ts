@@ -0,0 +1,83 @@
+import { promises as fs } from 'fs';
+import { createServer, Server } from 'http';
+import type { AddressInfo } from 'net';
+import path from 'path';
+import { load } from 'cheerio';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { fetchPage, FetchedPage } from '@/lib/seo-analyzer';
+import { diffRendering, renderPage } from '@/lib/rendering';
+
+const FIXTURES = path.join(__dirname, '__fixtures__', 'rendering');
+
+let server: Server;
+let origin = '';
+
+beforeAll(async () => {
+    server = createServer(async (req, res) => {
+        try {
+            const html = await fs.readFile(path.join(FIXTURES, path.basename(req.url || '')));
+            res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end(html);
+        } catch {
+            res.writeHead(404).end();
+        }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise(resolve => server.close(resolve)));
+
+// The page with its DOM replaced, as renderPage returns it
+async function withDom(page: FetchedPage, fixture: string): Promise<FetchedPage> {
+    const html = await fs.readFile(path.join(FIXTURES, fixture), 'utf8');
+    return { ...page, html, $: load(html), raw: page };
+}
+
+describe('diffRendering', () => {
+    it('lists what JavaScript adds and changes', async () => {
+        const raw = await fetchPage(`${origin}/app-shell.html`);
+        const { elements, wordCount } = diffRendering(raw, await withDom(raw, 'app-shell.rendered.html'));
+
+        expect(wordCount.raw).toBe(0);
+        expect(wordCount.rendered).toBeGreaterThan(60);
+        expect(Object.fromEntries(elements.map(e => [e.element, [e.change, e.raw, e.rendered]]))).toEqual({
+            title: ['changed', 'Loading…', 'Acme Widgets - Hand-made widgets for every home'],
+            metaDescription: ['added', '', 'Browse hand-made widgets for the kitchen, the garden and the office.'],
+            h1: ['added', '', 'Hand-made widgets'],
+            canonical: ['changed', `${origin}/app-shell.html`, `${origin}/widgets`],
+            noindex: ['added', '', 'noindex'],
+            internalLinks: ['added', '', '2 links'],
+            content: ['added', '', `${wordCount.rendered} words`]
+        });
+    });
+
+    it('finds nothing when JavaScript leaves the SEO elements alone', async () => {
+        const raw = await fetchPage(`${origin}/static.html`);
+        const rendered = { ...raw, $: load(raw.html), raw };
+        rendered.$('body').attr('data-ready', 'true');
+
+        const diff = diffRendering(raw, rendered);
+        expect(diff.elements).toEqual([]);
+        expect(diff.wordCount.raw).toBe(diff.wordCount.rendered);
+    });
+});
+
+describe('renderPage', () => {
+    it.skipIf(process.env.SEODUEL_CHROME_PATH)('is unavailable without a configured browser', async () => {
+        const page = await fetchPage(`${origin}/static.html`);
+        await expect(renderPage(page)).rejects.toThrow('JavaScript rendering is unavailable: SEODUEL_CHROME_PATH is not set');
+    });
+
+    it.runIf(process.env.SEODUEL_CHROME_PATH)('returns the DOM after JavaScript ran and keeps the download as raw', async () => {
+        const page = await fetchPage(`${origin}/app-shell.html`);
+        const rendered = await renderPage(page);
+
+        expect(rendered.raw).toBe(page);
+        expect(rendered.timing).toBe(page.timing);
+        expect(rendered.$('title').text()).toBe('Acme Widgets - Hand-made widgets for every home');
+        expect(rendered.$('h1').text()).toBe('Hand-made widgets');
+        expect(diffRendering(page, rendered).elements.map(e => e.element)).toEqual(
+            ['title', 'metaDescription', 'h1', 'canonical', 'noindex', 'internalLinks', 'content']
+        );
+    }, 30_000);
+});
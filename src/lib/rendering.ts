@@ -0,0 +1,139 @@
+import { CheerioAPI, load } from 'cheerio';
+import type { Browser } from 'puppeteer-core';
+import type { FetchedPage } from '@/lib/seo-analyzer';
+import { analyzeHeadings } from '@/lib/headings';
+import { countWords, visibleText } from '@/lib/keywords';
+import { extractHreflangEntries } from '@/lib/hreflang';
+import { extractLinks } from '@/lib/links';
+import { collectTags } from '@/lib/social';
+import { analyzeStructuredData } from '@/lib/structured-data';
+
+// Runs pages in headless Chrome, for sites that build their content with
+// JavaScript, and compares what the browser ends up with to the HTML the
+// server sent. No browser is bundled: SEODUEL_CHROME_PATH points to the
+// Chrome or Chromium to run, and without it rendering is unavailable.
+
+const RENDER_TIMEOUT_MS = 20_000;
+
+// A word count change smaller than this is ads, cookie banners and the like
+const MIN_CONTENT_CHANGE = { words: 50, percent: 20 };
+
+export type RenderChange = 'added' | 'removed' | 'changed';
+
+export interface RenderedElement {
+    element: string; // 'title', 'metaDescription', 'h1', 'canonical', 'noindex', 'content', ...
+    label: string;
+    change: RenderChange; // 'added': only exists after JavaScript
+    raw: string; // as the HTML has it, '' when missing
+    rendered: string; // after JavaScript ran
+}
+
+export interface RenderDiff {
+    wordCount: { raw: number; rendered: number };
+    elements: RenderedElement[]; // only the ones JavaScript changes
+}
+
+// One browser for the whole process; a new one is launched if it crashes
+let browser: Promise<Browser> | null = null;
+
+async function launch(): Promise<Browser> {
+    const executablePath = process.env.SEODUEL_CHROME_PATH;
+    if (!executablePath) throw new Error('SEODUEL_CHROME_PATH is not set');
+    // Loaded on first use, so analyses without rendering never pull it in
+    const { default: puppeteer } = await import('puppeteer-core');
+    return puppeteer.launch({ executablePath, headless: true });
+}
+
+function getBrowser(): Promise<Browser> {
+    if (!browser) {
+        browser = launch().then(b => {
+            b.on('disconnected', () => { browser = null; });
+            return b;
+        }, err => {
+            browser = null;
+            throw new Error(`JavaScript rendering is unavailable: ${err instanceof Error ? err.message.split('\n')[0] : err}`);
+        });
+    }
+    return browser;
+}
+
+// The page as Chrome sees it once the network settles. Headers, timing and
+// redirects stay those of the raw fetch, which is kept as `raw`.
+export async function renderPage(page: FetchedPage): Promise<FetchedPage> {
+    const tab = await (await getBrowser()).newPage();
+    try {
+        await tab.setUserAgent({ userAgent: 'SEOduel-Bot/1.0' });
+        try {
+            await tab.goto(page.finalUrl, { waitUntil: 'networkidle2', timeout: RENDER_TIMEOUT_MS });
+        } catch (err) {
+            // Pages that keep polling never go quiet; what has rendered by now is what Google would see too
+            if (!(err instanceof Error && err.name === 'TimeoutError')) throw new Error(`Failed to render URL: ${err instanceof Error ? err.message : err}`);
+        }
+        const html = await tab.content();
+        return { ...page, html, $: load(html), raw: page };
+    } finally {
+        await tab.close();
+    }
+}
+
+const words = (n: number) => n > 0 ? `${n} words` : '';
+const count = (n: number, what: string) => n > 0 ? `${n} ${what}` : '';
+
+function canonicalOf($: CheerioAPI, url: string): string {
+    const href = $('link[rel="canonical" i]').first().attr('href')?.trim();
+    try {
+        return href ? new URL(href, url).toString() : '';
+    } catch {
+        return href || '';
+    }
+}
+
+// The SEO elements worth comparing, as text read straight from the document;
+// '' means missing. Headers are the same for both versions and left out.
+const ELEMENTS: { element: string; label: string; value: ($: CheerioAPI, url: string) => string }[] = [
+    { element: 'title', label: 'Title', value: $ => $('title').first().text().trim() },
+    {
+        element: 'metaDescription',
+        label: 'Meta description',
+        value: $ => $('meta[name="description" i]').attr('content')?.trim() || $('meta[property="og:description" i]').attr('content')?.trim() || ''
+    },
+    { element: 'h1', label: 'Main headline (H1)', value: $ => analyzeHeadings($).outline.find(h => h.level === 1)?.text || '' },
+    { element: 'canonical', label: 'Canonical URL', value: canonicalOf },
+    { element: 'noindex', label: 'noindex', value: $ => ($('meta[name="robots" i]').attr('content')?.toLowerCase() || '').includes('noindex') ? 'noindex' : '' },
+    { element: 'internalLinks', label: 'Internal links', value: ($, url) => count(extractLinks($, url).filter(l => l.type === 'internal').length, 'links') },
+    { element: 'structuredData', label: 'Structured data', value: $ => analyzeStructuredData($).types.join(', ') },
+    { element: 'hreflang', label: 'Language versions (hreflang)', value: ($, url) => count(extractHreflangEntries($, url).length, 'entries') },
+    {
+        element: 'socialPreview',
+        label: 'Social preview',
+        value: $ => {
+            const og = collectTags($, 'og:');
+            return og['og:title'] || og['og:image'] || og['og:image:url'] || og['og:image:secure_url'] || '';
+        }
+    }
+];
+
+function contentChanged(raw: number, rendered: number): boolean {
+    const delta = Math.abs(rendered - raw);
+    return delta >= MIN_CONTENT_CHANGE.words && delta * 100 >= Math.max(raw, 1) * MIN_CONTENT_CHANGE.percent;
+}
+
+const changeOf = (raw: string, rendered: string): RenderChange => !raw ? 'added' : !rendered ? 'removed' : 'changed';
+
+// Compares the page as downloaded with the page after JavaScript ran, from
+// the two documents alone: nothing is fetched again
+export function diffRendering(raw: FetchedPage, rendered: FetchedPage): RenderDiff {
+    const elements: RenderedElement[] = [];
+    ELEMENTS.forEach(({ element, label, value }) => {
+        const before = value(raw.$, raw.finalUrl);
+        const after = value(rendered.$, rendered.finalUrl);
+        if (before !== after) elements.push({ element, label, change: changeOf(before, after), raw: before, rendered: after });
+    });
+
+    const wordCount = { raw: countWords(visibleText(raw.html)), rendered: countWords(visibleText(rendered.html)) };
+    if (contentChanged(wordCount.raw, wordCount.rendered)) {
+        const [before, after] = [words(wordCount.raw), words(wordCount.rendered)];
+        elements.push({ element: 'content', label: 'Page text', change: changeOf(before, after), raw: before, rendered: after });
+    }
+    return { wordCount, elements };
+}
@@ -0,0 +1,131 @@
+import fetch from 'node-fetch';
+
+export interface RobotsRule {
+    type: 'allow' | 'disallow';
+    path: string;
+}
+
+export interface RobotsGroup {
+    userAgents: string[];
+    rules: RobotsRule[];
+}
+
+export interface RobotsTxt {
+    groups: RobotsGroup[];
+    sitemaps: string[];
+}
+
+export interface RobotsTxtFetch {
+    url: string;
+    status: number | null; // null when the request itself failed
+    found: boolean;
+    robots: RobotsTxt;
+}
+
+const FETCH_TIMEOUT_MS = 10_000;
+
+export const GOOGLEBOT = 'googlebot';
+export const SEODUEL_BOT = 'seoduel-bot';
+
+// Parses robots.txt the way Google documents it: consecutive user-agent lines
+// open a group, rules belong to the last group opened, and Sitemap lines are
+// global regardless of where they appear.
+export function parseRobotsTxt(text: string): RobotsTxt {
+    const groups: RobotsGroup[] = [];
+    const sitemaps: string[] = [];
+    let current: RobotsGroup | null = null;
+    let lastWasAgent = false;
+
+    text.split(/\r?\n/).forEach(rawLine => {
+        const line = rawLine.replace(/#.*$/, '').trim();
+        const sep = line.indexOf(':');
+        if (sep === -1) return;
+
+        const field = line.slice(0, sep).trim().toLowerCase();
+        const value = line.slice(sep + 1).trim();
+
+        if (field === 'user-agent') {
+            if (!current || !lastWasAgent) {
+                current = { userAgents: [], rules: [] };
+                groups.push(current);
+            }
+            current.userAgents.push(value.toLowerCase());
+            lastWasAgent = true;
+            return;
+        }
+        lastWasAgent = false;
+
+        if (field === 'sitemap') {
+            if (value) sitemaps.push(value);
+        } else if ((field === 'allow' || field === 'disallow') && current) {
+            // An empty Disallow means "allow everything" and adds no rule
+            if (value) current.rules.push({ type: field, path: value });
+        }
+    });
+
+    return { groups, sitemaps };
+}
+
+// Rules of the most specific group matching `userAgent`, falling back to `*`.
+// Groups naming the same agent are merged.
+function rulesFor(robots: RobotsTxt, userAgent: string): RobotsRule[] {
+    const agent = userAgent.toLowerCase();
+    let best = '';
+    robots.groups.forEach(g => g.userAgents.forEach(ua => {
+        if (ua !== '*' && agent.startsWith(ua) && ua.length > best.length) best = ua;
+    }));
+    const target = best || '*';
+    return robots.groups.filter(g => g.userAgents.includes(target)).flatMap(g => g.rules);
+}
+
+function patternToRegExp(path: string): RegExp {
+    const anchored = path.endsWith('$');
+    const body = (anchored ? path.slice(0, -1) : path)
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+// The rule that decides whether `url` may be crawled, null when none matches.
+// The longest matching rule wins; on a tie, Allow beats Disallow.
+export function decidingRule(robots: RobotsTxt, userAgent: string, url: string): RobotsRule | null {
+    const { pathname, search } = new URL(url);
+    const target = pathname + search;
+
+    let winner: RobotsRule | null = null;
+    for (const rule of rulesFor(robots, userAgent)) {
+        if (!patternToRegExp(rule.path).test(target)) continue;
+        if (!winner
+            || rule.path.length > winner.path.length
+            || (rule.path.length === winner.path.length && rule.type === 'allow')) {
+            winner = rule;
+        }
+    }
+    return winner;
+}
+
+export function isAllowed(robots: RobotsTxt, userAgent: string, url: string): boolean {
+    const winner = decidingRule(robots, userAgent, url);
+    return !winner || winner.type === 'allow';
+}
+
+export async function fetchRobotsTxt(origin: string): Promise<RobotsTxtFetch> {
+    const url = `${origin}/robots.txt`;
+    try {
+        const res = await fetch(url, {
+            headers: { 'User-Agent': 'SEOduel-Bot/1.0' },
+            signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+        });
+        if (res.ok) {
+            return { url, status: res.status, found: true, robots: parseRobotsTxt(await res.text()) };
+        }
+        // Google treats a 5xx robots.txt as "disallow everything"; a 4xx as no rules at all
+        const robots: RobotsTxt = res.status >= 500
+            ? { groups: [{ userAgents: ['*'], rules: [{ type: 'disallow', path: '/' }] }], sitemaps: [] }
+            : { groups: [], sitemaps: [] };
+        return { url, status: res.status, found: false, robots };
+    } catch {
+        return { url, status: null, found: false, robots: { groups: [], sitemaps: [] } };
+    }
+}
@@ -0,0 +1,273 @@
+import type { IssueList } from '@/lib/accessibility';
+import { defineRule } from '@/lib/rules/define';
+
+// Where to find each problem: the element's CSS selector, for the browser's dev tools
+const locate = (list: IssueList) => list.issues.slice(0, 5).map(i => `${i.selector}: ${i.problem}`);
+
+const htmlLang = defineRule({
+    id: "htmlLang",
+    section: "Accessibility",
+    title: "Page Language",
+    severity: "warning",
+    weight: 3,
+    effort: "low",
+    thresholds: {},
+    messages: {
+        good: {
+            status: "good",
+            plainExplanation: "Your page declares its language ({lang}).",
+            whyItMatters: "Screen readers pick their voice and pronunciation from it, and browsers use it to offer translation.",
+            action: "No action needed."
+        },
+        missing: {
+            status: "warning",
+            plainExplanation: "Your page doesn't say which language it's written in.",
+            whyItMatters: "Screen readers may read the text with the wrong pronunciation, which makes it hard to follow.",
+            action: "Add a lang attribute to the <html> tag, e.g. <html lang=\"en\">."
+        },
+        invalid: {
+            status: "warning",
+            plainExplanation: "Your page's language, \"{lang}\", isn't a valid language code.",
+            whyItMatters: "Screen readers may read the text with the wrong pronunciation, which makes it hard to follow.",
+            action: "Use a language code like \"en\" or \"en-GB\" in the <html> tag's lang attribute."
+        }
+    },
+    evaluate(data) {
+        const { lang } = data.accessibility;
+        const message = !lang.value ? "missing" : lang.valid ? "good" : "invalid";
+        return { message, value: message === "good", vars: { lang: lang.value || "" } };
+    }
+});
+
+const formLabels = defineRule({
+    id: "formLabels",
+    section: "Accessibility",
+    title: "Form Labels",
+    severity: "critical",
+    weight: 4,
+    effort: "low",
+    thresholds: {},
+    messages: {
+        good: {
+            status: "good",
+            plainExplanation: "All {total} form fields have a label.",
+            whyItMatters: "Screen readers announce a field by its label; without one, visitors can't tell what to type.",
+            action: "No action needed."
+        },
+        unlabeled: {
+            status: "critical",
+            plainExplanation: "{count} of {total} form fields have no label.",
+            whyItMatters: "Screen readers announce a field by its label; without one, visitors can't tell what to type, and may not be able to sign up or buy.",
+            action: "Give every field a <label for=\"...\">, or an aria-label when there's no room for visible text."
+        }
+    },
+    evaluate(data) {
+        const { formFields, unlabeledFields } = data.accessibility;
+        if (formFields === 0) return null;
+        const count = unlabeledFields.count;
+        return { message: count === 0 ? "good" : "unlabeled", value: count, vars: { count, total: formFields } };
+    },
+    fix: data => locate(data.accessibility.unlabeledFields)
+});
+
+const buttonNames = defineRule({
+    id: "buttonNames",
+    section: "Accessibility",
+    title: "Button Labels",
+    severity: "critical",
+    weight: 4,
+    effort: "low",
+    thresholds: {},
+    messages: {
+        good: {
+            status: "good",
+            plainExplanation: "All {total} buttons say what they do.",
+            whyItMatters: "Screen readers read a button's text or label; an icon alone is announced as just \"button\".",
+            action: "No action needed."
+        },
+        unnamed: {
+            status: "critical",
+            plainExplanation: "{count} of {total} buttons have no text or label.",
+            whyItMatters: "Screen readers announce these as just \"button\", so visitors can't know what pressing one does.",
+            action: "Add text to each button, or an aria-label for icon-only ones."
+        }
+    },
+    evaluate(data) {
+        const { buttons, unnamedButtons } = data.accessibility;
+        if (buttons === 0) return null;
+        const count = unnamedButtons.count;
+        return { message: count === 0 ? "good" : "unnamed", value: count, vars: { count, total: buttons } };
+    },
+    fix: data => locate(data.accessibility.unnamedButtons)
+});
+
+const linkNames = defineRule({
+    id: "linkNames",
+    section: "Accessibility",
+    title: "Link Labels",
+    severity: "warning",
+    weight: 3,
+    effort: "low",
+    thresholds: {},
+    messages: {
+        good: {
+            status: "good",
+            plainExplanation: "All {total} links have text or a label.",
+            whyItMatters: "Screen readers, and Google, understand a link by its text.",
+            action: "No action needed."
+        },
+        unnamed: {
+            status: "warning",
+            plainExplanation: "{count} of {total} links have no text or label.",
+            whyItMatters: "Screen readers read these out as a bare address or skip them, and Google learns nothing about where they lead.",
+            action: "Add link text, alt text to linked images, or an aria-label to icon links."
+        }
+    },
+    evaluate(data) {
+        const { links, unnamedLinks } = data.accessibility;
+        if (links === 0) return null;
+        const count = unnamedLinks.count;
+        return { message: count === 0 ? "good" : "unnamed", value: count, vars: { count, total: links } };
+    },
+    fix: data => locate(data.accessibility.unnamedLinks)
+});
+
+const ariaUsage = defineRule({
+    id: "ariaUsage",
+    section: "Accessibility",
+    title: "ARIA Usage",
+    severity: "warning",
+    weight: 2,
+    effort: "medium",
+    thresholds: {},
+    messages: {
+        good: {
+            status: "good",
+            plainExplanation: "No misused ARIA roles or attributes found.",
+            whyItMatters: "ARIA tells screen readers what an element is; used wrong, it tells them something false.",
+            action: "No action needed."
+        },
+        misused: {
+            status: "warning",
+            plainExplanation: "{count} ARIA problems: unknown roles or attributes, references to missing elements, or hidden elements that can still be focused.",
+            whyItMatters: "Broken ARIA is worse than none: screen readers announce the wrong thing, or keyboard users land on something they can't hear.",
+            action: "Fix or remove the listed ARIA attributes; native HTML elements are often the better choice."
+        }
+    },
+    evaluate(data) {
+        const { count } = data.accessibility.aria;
+        return { message: count === 0 ? "good" : "misused", value: count, vars: { count } };
+    },
+    fix: data => locate(data.accessibility.aria)
+});
+
+const duplicateIds = defineRule({
+    id: "duplicateIds",
+    section: "Accessibility",
+    title: "Unique IDs",
+    severity: "warning",
+    weight: 1,
+    effort: "low",
+    thresholds: {},
+    messages: {
+        good: {
+            status: "good",
+            plainExplanation: "Every id on the page is used once.",
+            whyItMatters: "Labels and ARIA attributes point to elements by id, so each one must be unique.",
+            action: "No action needed."
+        },
+        duplicated: {
+            status: "warning",
+            plainExplanation: "Some ids are used by more than one element ({count} in all).",
+            whyItMatters: "A label or ARIA reference to a repeated id may point to the wrong element, so the wrong thing gets read out.",
+            action: "Give each element its own id."
+        }
+    },
+    evaluate(data) {
+        const { count } = data.accessibility.duplicateIds;
+        return { message: count === 0 ? "good" : "duplicated", value: count, vars: { count } };
+    },
+    fix: data => locate(data.accessibility.duplicateIds)
+});
+
+const landmarks = defineRule({
+    id: "landmarks",
+    section: "Accessibility",
+    title: "Page Landmarks",
+    severity: "warning",
+    weight: 2,
+    effort: "medium",
+    thresholds: {},
+    messages: {
+        good: {
+            status: "good",
+            plainExplanation: "Your page marks up its main content area.",
+            whyItMatters: "Screen reader users jump between landmarks (header, navigation, main content, footer) to find their way around.",
+            action: "No action needed."
+        },
+        none: {
+            status: "warning",
+            plainExplanation: "Your page has no landmarks: no header, navigation, main content or footer regions.",
+            whyItMatters: "Screen reader users have to listen to the whole page from the top to find the content.",
+            action: "Wrap the page's parts in <header>, <nav>, <main> and <footer>."
+        },
+        noMain: {
+            status: "warning",
+            plainExplanation: "Your page doesn't mark its main content with <main>.",
+            whyItMatters: "Screen reader users can't skip straight past the menus to the content.",
+            action: "Wrap the page's main content in a <main> element."
+        },
+        multipleMain: {
+            status: "warning",
+            plainExplanation: "Your page has {main} main content regions instead of one.",
+            whyItMatters: "Screen readers can't tell which one is the actual content.",
+            action: "Keep a single <main> element and use <section> or <aside> for the rest."
+        }
+    },
+    evaluate(data) {
+        const { main, banner, navigation, contentinfo } = data.accessibility.landmarks;
+        const message = main === 1 ? "good"
+            : main > 1 ? "multipleMain"
+                : banner + navigation + contentinfo === 0 ? "none"
+                    : "noMain";
+        return { message, value: main === 1, vars: { main } };
+    }
+});
+
+const colorContrast = defineRule({
+    id: "colorContrast",
+    section: "Accessibility",
+    title: "Text Contrast",
+    severity: "warning",
+    weight: 3,
+    effort: "medium",
+    // WCAG AA contrast ratios; large text is 24px, or 18.66px bold
+    thresholds: { min: 4.5, minLarge: 3 },
+    messages: {
+        good: {
+            status: "good",
+            plainExplanation: "No low-contrast text found in the page's inline styles.",
+            whyItMatters: "Faint text is hard to read for people with low vision, and for everyone on a phone in the sun.",
+            action: "No action needed."
+        },
+        low: {
+            status: "warning",
+            plainExplanation: "Some text has too little contrast with its background ({count} places, as low as {lowest}:1).",
+            whyItMatters: "Faint text is hard to read for people with low vision, and for everyone on a phone in the sun.",
+            action: "Darken the text or lighten the background to reach a contrast ratio of at least {min}:1 ({minLarge}:1 for large text)."
+        }
+    },
+    evaluate(data, t) {
+        const failing = data.accessibility.lowContrast.issues.filter(i => i.ratio < (i.large ? t.minLarge : t.min));
+        if (failing.length === 0) return { message: "good", value: 0 };
+        return { message: "low", value: failing.length, vars: { count: failing.length, lowest: Math.min(...failing.map(i => i.ratio)) } };
+    },
+    fix(data, t) {
+        return data.accessibility.lowContrast.issues
+            .filter(i => i.ratio < (i.large ? t.minLarge : t.min))
+            .slice(0, 5)
+            .map(i => `${i.selector}: ${i.problem}`);
+    }
+});
+
+export const accessibilityRules = [htmlLang, formLabels, buttonNames, linkNames, ariaUsage, duplicateIds, landmarks, colorContrast];
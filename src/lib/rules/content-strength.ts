@@ -0,0 +1,301 @@
+import { defineRule } from '@/lib/rules/define';
+
+const list = (items: string[]) => items.slice(0, 3).join(", ") + (items.length > 3 ? ` and ${items.length - 3} more` : "");
+const quote = (texts: string[]) => list(texts.map(t => `"${t || "untitled"}"`));
+
+const h1 = defineRule({
+    id: "h1",
+    section: "Content strength",
+    title: "Main Headline (H1)",
+    severity: "critical",
+    weight: 6,
+    effort: "low",
+    thresholds: {},
+    messages: {
+        missing: {
+            status: "critical",
+            plainExplanation: "Google can't quickly understand what this specific page is about because the main headline is missing.",
+            whyItMatters: "The H1 is the primary signal to Google and visitors about the page's topic. Without it, your message is lost.",
+            action: "Add one clear main headline (H1 tag) to the top of the page."
+        },
+        multiple: {
+            status: "warning",
+            title: "Main Headlines (H1)",
+            plainExplanation: "You have multiple main headlines on this page.",
+            whyItMatters: "It's like reading a book with two different titles on the same cover; it confuses Google about your main focus.",
+            action: "Keep only one main headline and turn the others into sub-headlines."
+        },
+        good: {
+            status: "good",
+            plainExplanation: "You have a clear, single main headline.",
+            whyItMatters: "Google knows exactly what the topic of this page is.",
+            action: "Good job, no action needed."
+        }
+    },
+    evaluate(data) {
+        const { h1Count } = data.onpage.headings;
+        return { message: h1Count === 0 ? "missing" : h1Count > 1 ? "multiple" : "good", value: h1Count };
+    },
+    fix(data) {
+        const h1s = data.onpage.headings.outline.filter(h => h.level === 1);
+        if (h1s.length > 0) return h1s.map(h => `H1: "${h.text || "untitled"}"`);
+        return data.onpage.title.text ? [`Your page title could double as the headline: "${data.onpage.title.text}"`] : [];
+    }
+});
+
+// The outline checks only apply to pages with headings at all
+
+const headingOrder = defineRule({
+    id: "headingOrder",
+    section: "Content strength",
+    title: "Heading Structure",
+    severity: "warning",
+    weight: 2,
+    effort: "low",
+    thresholds: {},
+    messages: {
+        skipped: {
+            status: "warning",
+            plainExplanation: "Your headings skip levels: {skipped}.",
+            whyItMatters: "Headings work like a table of contents. Skipping levels makes it harder for Google and screen readers to see how sections relate.",
+            action: "Change the skipped headings to the next level down (e.g. an H3 under an H2) instead of picking tags by font size."
+        },
+        good: {
+            status: "good",
+            plainExplanation: "Your headings follow a clean outline, each level nested under the one above.",
+            whyItMatters: "Headings work like a table of contents. Skipping levels makes it harder for Google and screen readers to see how sections relate.",
+            action: "No action needed."
+        }
+    },
+    evaluate(data) {
+        const { outline, skippedLevels } = data.onpage.headings;
+        if (outline.length === 0) return null;
+        return {
+            message: skippedLevels.length > 0 ? "skipped" : "good",
+            value: skippedLevels.length,
+            vars: { skipped: list(skippedLevels.map(s => `H${s.from} → H${s.to} ("${s.text}")`)) }
+        };
+    },
+    fix(data) {
+        return data.onpage.headings.skippedLevels.map(s => `"${s.text}" is an H${s.to} under an H${s.from}; make it an H${s.from + 1}.`);
+    }
+});
+
+const emptyHeadings = defineRule({
+    id: "emptyHeadings",
+    section: "Content strength",
+    title: "Empty Headings",
+    severity: "warning",
+    weight: 1,
+    effort: "low",
+    thresholds: {},
+    messages: {
+        found: {
+            status: "warning",
+            plainExplanation: "{count} headings on this page have no text at all.",
+            whyItMatters: "An empty heading is a section title that says nothing, often left over from a template or used for spacing.",
+            action: "Give these headings real titles or remove them and use CSS for spacing."
+        },
+        good: {
+            status: "good",
+            plainExplanation: "Every heading has text.",
+            whyItMatters: "An empty heading is a section title that says nothing, often left over from a template or used for spacing.",
+            action: "No action needed."
+        }
+    },
+    evaluate(data) {
+        const { outline, empty } = data.onpage.headings;
+        if (outline.length === 0) return null;
+        return { message: empty > 0 ? "found" : "good", value: empty, vars: { count: empty } };
+    },
+    fix(data) {
+        const { outline } = data.onpage.headings;
+        return outline.flatMap((h, i) => {
+            if (!h.empty) return [];
+            const before = outline.slice(0, i).reverse().find(o => !o.empty);
+            return [`Empty H${h.level} ${before ? `after "${before.text}"` : "at the top of the page"}`];
+        });
+    }
+});
+
+const duplicateHeadings = defineRule({
+    id: "duplicateHeadings",
+    section: "Content strength",
+    title: "Repeated Headings",
+    severity: "warning",
+    weight: 1,
+    effort: "low",
+    thresholds: {},
+    messages: {
+        found: {
+            status: "warning",
+            plainExplanation: "Some headings appear more than once: {duplicates}.",
+            whyItMatters: "Identical section titles make it unclear what each section adds, to readers and to Google.",
+            action: "Reword repeated headings so each describes what its own section covers."
+        },
+        good: {
+            status: "good",
+            plainExplanation: "Every heading is unique.",
+            whyItMatters: "Identical section titles make it unclear what each section adds, to readers and to Google.",
+            action: "No action needed."
+        }
+    },
+    evaluate(data) {
+        const { outline, duplicates } = data.onpage.headings;
+        if (outline.length === 0) return null;
+        return {
+            message: duplicates.length > 0 ? "found" : "good",
+            value: duplicates.length,
+            vars: { duplicates: list(duplicates.map(d => `"${d.text}" (${d.count}×)`)) }
+        };
+    },
+    fix(data) {
+        return data.onpage.headings.duplicates.map(d => `"${d.text}" is used ${d.count} times`);
+    }
+});
+
+const hiddenHeadings = defineRule({
+    id: "hiddenHeadings",
+    section: "Content strength",
+    title: "Hidden Headings",
+    severity: "warning",
+    weight: 2,
+    effort: "low",
+    thresholds: {},
+    messages: {
+        found: {
+            status: "warning",
+            plainExplanation: "{count} headings are hidden from visitors: {headings}.",
+            whyItMatters: "Google gives little weight to text visitors can't see, and hidden headings can look like an attempt to stuff keywords.",
+            action: "Show these headings or remove them; don't rely on hidden text to rank."
+        },
+        good: {
+            status: "good",
+            plainExplanation: "All headings are visible to visitors.",
+            whyItMatters: "Google gives little weight to text visitors can't see, and hidden headings can look like an attempt to stuff keywords.",
+            action: "No action needed."
+        }
+    },
+    evaluate(data) {
+        const { outline, hidden } = data.onpage.headings;
+        if (outline.length === 0) return null;
+        return {
+            message: hidden.length > 0 ? "found" : "good",
+            value: hidden.length,
+            vars: { count: hidden.length, headings: quote(hidden) }
+        };
+    },
+    fix(data) {
+        return data.onpage.headings.hidden.map(text => `Hidden: "${text || "untitled"}"`);
+    }
+});
+
+const imageHeadings = defineRule({
+    id: "imageHeadings",
+    section: "Content strength",
+    title: "Image-Only Headings",
+    severity: "warning",
+    weight: 1,
+    effort: "low",
+    thresholds: {},
+    messages: {
+        found: {
+            status: "warning",
+            plainExplanation: "{count} headings are only an image: {headings}.",
+            whyItMatters: "Google reads text far more reliably than images; a heading that's just a logo or picture carries little meaning.",
+            action: "Put the heading's words in as text, keeping the image alongside if needed."
+        },
+        good: {
+            status: "good",
+            plainExplanation: "Your headings use real text.",
+            whyItMatters: "Google reads text far more reliably than images; a heading that's just a logo or picture carries little meaning.",
+            action: "No action needed."
+        }
+    },
+    evaluate(data) {
+        const { outline, imageOnly } = data.onpage.headings;
+        if (outline.length === 0) return null;
+        return {
+            message: imageOnly.length > 0 ? "found" : "good",
+            value: imageOnly.length,
+            vars: { count: imageOnly.length, headings: quote(imageOnly) }
+        };
+    },
+    fix(data) {
+        return data.onpage.headings.imageOnly.map(text => `Image only: "${text || "untitled"}"`);
+    }
+});
+
+const contentDepth = defineRule({
+    id: "contentDepth",
+    section: "Content strength",
+    title: "Content Depth",
+    severity: "critical",
+    weight: 6,
+    effort: "high",
+    // Word counts: below thin is critical, below solid a warning
+    thresholds: { thin: 300, solid: 600 },
+    messages: {
+        thin: {
+            status: "critical",
+            plainExplanation: "This page is very 'thin' with only {words} words.",
+            whyItMatters: "Google prefers pages that provide thorough answers. Short pages rarely rank on the first page.",
+            action: "Expand your content with more helpful details, examples, or data."
+        },
+        short: {
+            status: "warning",
+            plainExplanation: "The content is okay, but it might not be enough to beat competitors.",
+            whyItMatters: "The top results in Google usually have between 1000 and 2000 words.",
+            action: "Consider adding more value or answering common questions people have about this topic."
+        },
+        good: {
+            status: "good",
+            plainExplanation: "You have a solid amount of content on this page.",
+            whyItMatters: "This shows Google you are covering the topic seriously.",
+            action: "Ensure the content stays updated and relevant."
+        }
+    },
+    evaluate(data, t) {
+        const words = data.onpage.content.wordCount;
+        return { message: words < t.thin ? "thin" : words < t.solid ? "short" : "good", value: words, vars: { words } };
+    },
+    fix(data, t) {
+        const words = data.onpage.content.wordCount;
+        return [`${words} words now; about ${t.solid - words} more would reach ${t.solid}.`];
+    }
+});
+
+const imageAlt = defineRule({
+    id: "imageAlt",
+    section: "Content strength",
+    title: "Image accessibility",
+    severity: "warning",
+    weight: 3,
+    effort: "low",
+    thresholds: {},
+    messages: {
+        missing: {
+            status: "warning",
+            plainExplanation: "{missing} images on your site have no text descriptions.",
+            whyItMatters: "Google cannot 'see' images. It uses these descriptions to understand what's in the picture and rank you in Image Search.",
+            action: "Add descriptive 'alt text' to every image on your page."
+        },
+        good: {
+            status: "good",
+            plainExplanation: "All your images have text descriptions.",
+            whyItMatters: "This helps blind users and gives Google more keywords to rank you for.",
+            action: "Perfect. No action needed."
+        }
+    },
+    evaluate(data) {
+        const { total, missing } = data.onpage.images.altStats;
+        if (total === 0) return null;
+        return { message: missing > 0 ? "missing" : "good", value: missing, vars: { missing } };
+    },
+    fix(data) {
+        const { total, missing } = data.onpage.images.altStats;
+        return [`${missing} of ${total} images have no alt text.`];
+    }
+});
+
+export const contentStrengthRules = [h1, headingOrder, emptyHeadings, duplicateHeadings, hiddenHeadings, imageHeadings, contentDepth, imageAlt];
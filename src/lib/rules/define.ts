@@ -0,0 +1,52 @@
+import type { PageAnalysis } from '@/lib/analysis-schema';
+import type { MetricResult } from '@/lib/seo-interpreter';
+
+export type SectionName =
+    | 'Search visibility'
+    | 'Content strength'
+    | 'Keyword targeting'
+    | 'Technical health'
+    | 'Speed'
+    | 'Trust & credibility'
+    | 'Growth signals'
+    | 'Accessibility';
+
+export type RuleSeverity = 'warning' | 'critical';
+export type RuleEffort = NonNullable<MetricResult['effort']>;
+export type RuleThresholds = Record<string, number>;
+
+// Texts may use {placeholders}, filled from the rule's thresholds and the
+// vars its outcome returns
+export interface RuleMessage {
+    status: MetricResult['status'];
+    title?: string; // the rule's title when left out
+    plainExplanation: string;
+    whyItMatters: string;
+    action: string;
+}
+
+export interface RuleOutcome<K extends string = string> {
+    message: K;
+    value?: number | boolean;
+    vars?: Record<string, string | number>;
+}
+
+export interface SeoRule<T extends RuleThresholds = RuleThresholds, K extends string = string> {
+    id: string; // becomes the metric id, so keep it stable
+    section: SectionName;
+    title: string;
+    severity: RuleSeverity; // the worst status the rule reports
+    weight: number; // impact on the score; noindex (10) outweighs a missing social preview (1)
+    effort: RuleEffort; // usual work to fix it; a meta description is quicker than a faster server
+    thresholds: T;
+    messages: Record<K, RuleMessage>;
+    // null when the rule doesn't apply to the page, e.g. image checks on a page without images
+    evaluate(data: PageAnalysis, thresholds: T): RuleOutcome<K> | null;
+    // Specifics for fixing a failing outcome, like the current title and how much to cut
+    fix?(data: PageAnalysis, thresholds: T): string[];
+}
+
+// Only there to infer T and K from the object literal
+export function defineRule<T extends RuleThresholds, K extends string>(rule: SeoRule<T, K>): SeoRule<T, K> {
+    return rule;
+}
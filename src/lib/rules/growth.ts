@@ -0,0 +1,43 @@
+import { defineRule } from '@/lib/rules/define';
+
+// We don't measure backlinks or domain history yet, so these always report "unknown"
+
+const referringDomains = defineRule({
+    id: "referringDomains",
+    section: "Growth signals",
+    title: "Other Sites Recommending You",
+    severity: "warning",
+    weight: 8,
+    effort: "high",
+    thresholds: {},
+    messages: {
+        unmeasured: {
+            status: "unknown",
+            plainExplanation: "We couldn't determine the number of websites linking to you.",
+            whyItMatters: "Getting links from other sites is the #1 way to build authority and outrank big competitors.",
+            action: "Register for a free service like Google Search Console to see your backlinks."
+        }
+    },
+    evaluate: () => ({ message: "unmeasured" })
+});
+
+const domainAuthority = defineRule({
+    id: "domainAuthority",
+    section: "Growth signals",
+    title: "Domain Authority",
+    severity: "warning",
+    weight: 5,
+    effort: "high",
+    thresholds: {},
+    messages: {
+        unmeasured: {
+            status: "unknown",
+            plainExplanation: "Domain age and history could not be verified.",
+            whyItMatters: "Older, well-established sites often have an easier time ranking than brand new ones.",
+            action: "Focus on creating high-quality, unique content to build your site's reputation over time."
+        }
+    },
+    evaluate: () => ({ message: "unmeasured" })
+});
+
+export const growthRules = [referringDomains, domainAuthority];
@@ -0,0 +1,21 @@
+import type { SeoRule } from '@/lib/rules/define';
+import { searchVisibilityRules } from '@/lib/rules/search-visibility';
+import { contentStrengthRules } from '@/lib/rules/content-strength';
+import { keywordTargetingRules } from '@/lib/rules/keyword-targeting';
+import { technicalHealthRules } from '@/lib/rules/technical-health';
+import { speedRules } from '@/lib/rules/speed';
+import { trustRules } from '@/lib/rules/trust';
+import { growthRules } from '@/lib/rules/growth';
+import { accessibilityRules } from '@/lib/rules/accessibility';
+
+// In report order: a section lists its metrics in the order they appear here
+export const BUILT_IN_RULES: SeoRule[] = [
+    ...searchVisibilityRules,
+    ...contentStrengthRules,
+    ...keywordTargetingRules,
+    ...technicalHealthRules,
+    ...speedRules,
+    ...trustRules,
+    ...growthRules,
+    ...accessibilityRules
+];
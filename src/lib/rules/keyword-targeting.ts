@@ -0,0 +1,185 @@
+import type { PageAnalysis } from '@/lib/analysis-schema';
+import type { KeywordPlacement } from '@/lib/keywords';
+import { defineRule, RuleEffort, RuleSeverity } from '@/lib/rules/define';
+
+// Every rule here only applies when a target keyword was given
+
+interface Placement {
+    id: string;
+    key: keyof KeywordPlacement;
+    title: string;
+    where: string;
+    severity: RuleSeverity;
+    weight: number;
+    effort: RuleEffort;
+    whyItMatters: string;
+    action: string;
+    current?: (data: PageAnalysis) => string; // the text the keyword should go into, when we have it
+}
+
+const placement = (p: Placement) => defineRule({
+    id: p.id,
+    section: "Keyword targeting",
+    title: p.title,
+    severity: p.severity,
+    weight: p.weight,
+    effort: p.effort,
+    thresholds: {},
+    messages: {
+        found: {
+            status: "good",
+            plainExplanation: "Your {where} contains {keyword}.",
+            whyItMatters: p.whyItMatters,
+            action: "No action needed."
+        },
+        missing: {
+            status: p.severity,
+            plainExplanation: "Your {where} doesn't contain {keyword}.",
+            whyItMatters: p.whyItMatters,
+            action: p.action
+        }
+    },
+    evaluate(data) {
+        const target = data.onpage.keywords.target;
+        if (!target) return null;
+        // Alt text can't contain the keyword on a page without images
+        if (p.key === "imageAlt" && data.onpage.images.altStats.total === 0) return null;
+        const found = !!target.placement[p.key];
+        return { message: found ? "found" : "missing", value: found, vars: { where: p.where, keyword: `"${target.keyword}"` } };
+    },
+    fix(data) {
+        const text = p.current?.(data);
+        return text ? [`Current ${p.where}: "${text}"`] : [];
+    }
+});
+
+const firstH1 = (data: PageAnalysis) => data.onpage.headings.outline.find(h => h.level === 1)?.text || "";
+
+const placements = [
+    placement({
+        id: "keywordTitle", key: "title", title: "Keyword in Title", where: "page title", severity: "critical", weight: 6, effort: "low",
+        current: data => data.onpage.title.text,
+        whyItMatters: "The title is the strongest on-page signal of what a page should rank for, and Google bolds matching words in results.",
+        action: "Work {keyword} into the page title, ideally near the start."
+    }),
+    placement({
+        id: "keywordMeta", key: "metaDescription", title: "Keyword in Search Snippet", where: "meta description", severity: "warning", weight: 3, effort: "low",
+        current: data => data.onpage.meta.text,
+        whyItMatters: "Google highlights the searched words in the snippet, which draws the eye and earns clicks.",
+        action: "Mention {keyword} naturally in the meta description."
+    }),
+    placement({
+        id: "keywordH1", key: "h1", title: "Keyword in Main Headline", where: "main headline (H1)", severity: "warning", weight: 4, effort: "low",
+        current: firstH1,
+        whyItMatters: "Visitors and Google both read the main headline to confirm they've landed on the right page.",
+        action: "Use {keyword} in the H1."
+    }),
+    placement({
+        id: "keywordIntro", key: "firstParagraph", title: "Keyword in Opening Paragraph", where: "first paragraph", severity: "warning", weight: 3, effort: "low",
+        whyItMatters: "Saying what the page is about straight away reassures readers and confirms the topic to Google.",
+        action: "Mention {keyword} in the first paragraph."
+    }),
+    placement({
+        id: "keywordUrl", key: "urlSlug", title: "Keyword in Page Address", where: "URL", severity: "warning", weight: 2, effort: "high",
+        current: data => new URL(data.technical.redirects.finalUrl).pathname,
+        whyItMatters: "A descriptive address tells people what to expect before they click, and is a small ranking signal.",
+        action: "Use {keyword} in the URL slug when you next restructure the page (and redirect the old address)."
+    }),
+    placement({
+        id: "keywordAlt", key: "imageAlt", title: "Keyword in Image Text", where: "image alt text", severity: "warning", weight: 1, effort: "low",
+        whyItMatters: "Alt text is how Google understands your images, and it can bring in traffic from Image Search.",
+        action: "Describe at least one relevant image with {keyword} in its alt text."
+    })
+];
+
+const keywordDensity = defineRule({
+    id: "keywordDensity",
+    section: "Keyword targeting",
+    title: "Keyword Usage",
+    severity: "critical",
+    weight: 5,
+    effort: "medium",
+    // Percent of the words; a couple of mentions on a short page never count as stuffing
+    thresholds: { min: 0.5, max: 3 },
+    messages: {
+        absent: {
+            status: "critical",
+            plainExplanation: "{keyword} doesn't appear anywhere in the page's text.",
+            whyItMatters: "Google can't rank a page for a topic the page never talks about.",
+            action: "Write about {keyword} in the body of the page, in your own words."
+        },
+        sparse: {
+            status: "warning",
+            plainExplanation: "{keyword} appears only {occurrences} times ({density}% of the words).",
+            whyItMatters: "A keyword mentioned in passing looks like a side topic rather than the focus of the page.",
+            action: "Cover {keyword} in more depth, using it and close variations a few more times."
+        },
+        stuffed: {
+            status: "warning",
+            plainExplanation: "{keyword} makes up {density}% of the words on the page, which reads as repetitive.",
+            whyItMatters: "Repeating a keyword too often ('keyword stuffing') annoys readers and can get the page demoted.",
+            action: "Replace some repetitions with synonyms or related phrases."
+        },
+        good: {
+            status: "good",
+            plainExplanation: "{keyword} appears {occurrences} times ({density}% of the words).",
+            whyItMatters: "The page clearly focuses on the topic without overdoing it.",
+            action: "No action needed."
+        }
+    },
+    evaluate(data, t) {
+        const target = data.onpage.keywords.target;
+        if (!target) return null;
+        const { occurrences, density } = target;
+        const message = occurrences === 0 ? "absent"
+            : density < t.min ? "sparse"
+                : density > t.max && occurrences > 2 ? "stuffed"
+                    : "good";
+        return { message, value: occurrences === 0 ? 0 : density, vars: { keyword: `"${target.keyword}"`, occurrences, density } };
+    },
+    fix(data, t) {
+        const { wordCount } = data.onpage.keywords;
+        const { occurrences, density } = data.onpage.keywords.target!;
+        if (density > t.max) {
+            return [`${occurrences} mentions in ${wordCount} words; about ${Math.floor(wordCount * t.max / 100)} at most keeps it under ${t.max}%.`];
+        }
+        return [`${occurrences} mentions in ${wordCount} words; about ${Math.ceil(wordCount * t.min / 100)} would reach ${t.min}%.`];
+    }
+});
+
+const keywordProminence = defineRule({
+    id: "keywordProminence",
+    section: "Keyword targeting",
+    title: "Keyword Prominence",
+    severity: "warning",
+    weight: 2,
+    effort: "low",
+    // 100 means the very first word, 0 the very last
+    thresholds: { min: 90 },
+    messages: {
+        early: {
+            status: "good",
+            plainExplanation: "{keyword} shows up early in the page's text.",
+            whyItMatters: "Words near the top of the page carry more weight, for readers skimming and for Google.",
+            action: "No action needed."
+        },
+        late: {
+            status: "warning",
+            plainExplanation: "{keyword} first shows up {depth}% of the way down the page.",
+            whyItMatters: "Words near the top of the page carry more weight, for readers skimming and for Google.",
+            action: "Mention {keyword} near the top of the page."
+        }
+    },
+    evaluate(data, t) {
+        const target = data.onpage.keywords.target;
+        if (!target || target.occurrences === 0) return null;
+        const { prominence } = target;
+        return {
+            message: prominence >= t.min ? "early" : "late",
+            value: prominence,
+            vars: { keyword: `"${target.keyword}"`, depth: 100 - prominence }
+        };
+    }
+});
+
+export const keywordTargetingRules = [...placements, keywordDensity, keywordProminence];
@@ -0,0 +1,277 @@
+import type { PageAnalysis } from '@/lib/analysis-schema';
+import { defineRule } from '@/lib/rules/define';
+import { cutOff, ELLIPSIS, TITLE_REWRITE_REASONS } from '@/lib/serp-snippet';
+
+const title = defineRule({
+    id: "title",
+    section: "Search visibility",
+    title: "Title Length",
+    severity: "critical",
+    weight: 8,
+    effort: "low",
+    // No maximum length: whether a title fits is measured in pixels, see cutOff
+    thresholds: { min: 30 },
+    messages: {
+        missing: {
+            status: "critical",
+            title: "Page Title",
+            plainExplanation: "Your page doesn't have a title defined in the code.",
+            whyItMatters: "Google uses this title to show your page in search results. Without it, you look invisible or broken.",
+            action: "Add a clear, short title of at least {min} characters that Google can show in full."
+        },
+        tooLong: {
+            status: "critical",
+            plainExplanation: "Your title is too long ({length} characters): it takes {width} of the {maxPx} pixels Google has for it on {device}.",
+            whyItMatters: "Google will cut off the end of long titles, making your link look messy and unprofessional to searchers.",
+            action: "Shorten the title to fit in {maxPx} pixels; wide letters like W and capitals take up more room than narrow ones."
+        },
+        tooShort: {
+            status: "warning",
+            plainExplanation: "Your title is a bit too short.",
+            whyItMatters: "Short titles don't give Google enough context to rank you for different search terms.",
+            action: "Add a few more descriptive words or your brand name to the title."
+        },
+        good: {
+            status: "good",
+            plainExplanation: "Your title length is perfect.",
+            whyItMatters: "It will display fully on most screens, ensuring people see your full message.",
+            action: "Keep it as is."
+        }
+    },
+    evaluate(data, t) {
+        const { exists, length } = data.onpage.title;
+        const cut = cutOff(data.onpage.snippet, "title");
+        const message = !exists ? "missing" : cut ? "tooLong" : length < t.min ? "tooShort" : "good";
+        return {
+            message,
+            value: length,
+            vars: { length, width: cut?.line.widthPx ?? 0, maxPx: cut?.line.maxPx ?? 0, device: cut?.device ?? "" }
+        };
+    },
+    fix(data, t) {
+        const { exists, text, length } = data.onpage.title;
+        if (!exists) {
+            const h1 = data.onpage.headings.outline.find(h => h.level === 1 && h.text);
+            return h1 ? [`Your main headline could be a starting point: "${h1.text}"`] : [];
+        }
+        const cut = cutOff(data.onpage.snippet, "title");
+        if (!cut) return [`Current title (${length} characters): "${text}"`, `Add about ${t.min - length} characters.`];
+        return [
+            `Google shows it on ${cut.device} as: "${cut.line.text}"`,
+            `Cut about ${length - (cut.line.text.length - ELLIPSIS.length)} characters.`
+        ];
+    }
+});
+
+const metaDescription = defineRule({
+    id: "metaDescription",
+    section: "Search visibility",
+    title: "Search Snippet (Meta)",
+    severity: "critical",
+    weight: 5,
+    effort: "low",
+    // Anything from min up to what Google shows uncut passes, but we recommend
+    // aiming for ideal characters or a little more
+    thresholds: { min: 100, ideal: 120 },
+    messages: {
+        missing: {
+            status: "critical",
+            plainExplanation: "There is no description for this page in the search results.",
+            whyItMatters: "Google has to guess what your page is about, which often leads to less clicks from potential visitors.",
+            action: "Add a compelling description of about {ideal} characters or a little more, short enough for Google to show in full."
+        },
+        badLength: {
+            status: "warning",
+            plainExplanation: "The description of your page is either too short or too long.",
+            whyItMatters: "If it's too long, it gets cut off. If it's too short, it's not convincing enough for users to click.",
+            action: "Aim for about {ideal} characters or a little more, short enough for Google to show in full."
+        },
+        good: {
+            status: "good",
+            plainExplanation: "Your search result description is well-balanced.",
+            whyItMatters: "It helps you stand out and encourages more people to click on your link.",
+            action: "No changes needed."
+        }
+    },
+    evaluate(data, t) {
+        const { exists, length } = data.onpage.meta;
+        const cut = cutOff(data.onpage.snippet, "description");
+        const message = !exists ? "missing" : length < t.min || cut ? "badLength" : "good";
+        return { message, value: length };
+    },
+    fix(data, t) {
+        const { exists, text, length } = data.onpage.meta;
+        if (!exists) return [];
+        const cut = cutOff(data.onpage.snippet, "description");
+        if (!cut) return [`Current description (${length} characters): "${text}"`, `Add about ${t.ideal - length} characters.`];
+        return [
+            `Google shows it on ${cut.device} as: "${cut.line.text}"`,
+            `Cut about ${length - (cut.line.text.length - ELLIPSIS.length)} characters.`
+        ];
+    }
+});
+
+const titleRewrite = defineRule({
+    id: "titleRewrite",
+    section: "Search visibility",
+    title: "Title Rewrite Risk",
+    severity: "warning",
+    weight: 2,
+    effort: "low",
+    thresholds: {},
+    messages: {
+        kept: {
+            status: "good",
+            plainExplanation: "Google will most likely show your title as you wrote it.",
+            whyItMatters: "You decide the first thing searchers read about your page.",
+            action: "No action needed."
+        },
+        likely: {
+            status: "warning",
+            plainExplanation: "Google will likely replace your title with one of its own, because {reasons}.",
+            whyItMatters: "Google then picks text from your headings or links, which may not be the message you want searchers to see.",
+            action: "Write a unique title that describes this page in a few words, with your brand name at most once."
+        }
+    },
+    evaluate(data) {
+        if (!data.onpage.title.exists) return null; // the title check already reports it
+        const { likely, reasons } = data.onpage.snippet.titleRewrite;
+        const because = reasons.map(r => TITLE_REWRITE_REASONS[r]);
+        return {
+            message: likely ? "likely" : "kept",
+            value: !likely,
+            vars: { reasons: because.length > 1 ? `${because.slice(0, -1).join(", ")} and ${because[because.length - 1]}` : because[0] ?? "" }
+        };
+    },
+    fix(data) {
+        return [`Current title: "${data.onpage.title.text}"`];
+    }
+});
+
+// Markup for each required tag, filled in from the page where it can be
+const SOCIAL_TAG_MARKUP: Record<string, (data: PageAnalysis) => string> = {
+    "og:title": data => `<meta property="og:title" content="${data.onpage.title.text || "Your page title"}">`,
+    "og:type": () => "<meta property=\"og:type\" content=\"website\"> (\"article\" for blog posts and news)",
+    "og:url": data => `<meta property="og:url" content="${data.technical.canonical.resolved || data.technical.redirects.finalUrl}">`,
+    "og:description": data => `<meta property="og:description" content="${data.onpage.meta.text || "One or two sentences about the page"}">`,
+    "og:image": () => "<meta property=\"og:image\" content=\"https://…/preview.jpg\">, with an image of at least 1200 × 630 pixels",
+    "twitter:card": () => "<meta name=\"twitter:card\" content=\"summary_large_image\">"
+};
+
+const socialPreview = defineRule({
+    id: "socialPreview",
+    section: "Search visibility",
+    title: "Social Media Preview",
+    severity: "warning",
+    weight: 1,
+    effort: "low",
+    thresholds: {},
+    messages: {
+        present: {
+            status: "good",
+            plainExplanation: "Your page has all the tags social media previews need.",
+            whyItMatters: "When people share your link on Facebook, LinkedIn or X, these tags make it show up with your image, title and description.",
+            action: "Check the preview cards to see if the image and text look good."
+        },
+        incomplete: {
+            status: "warning",
+            plainExplanation: "Your social media preview is missing {tags}.",
+            whyItMatters: "Facebook, LinkedIn and X fill the gaps with whatever they find on the page, which may be the wrong image or text, or none at all.",
+            action: "Add the missing tags to your page's <head>."
+        },
+        missing: {
+            status: "warning",
+            plainExplanation: "Missing specific signals for social media sharing.",
+            whyItMatters: "When people share your link on Facebook or Twitter, these signals ensure it looks beautiful with an image and title.",
+            action: "Add 'Open Graph' tags to control how your site looks on social media."
+        }
+    },
+    evaluate(data) {
+        const { hasOg, missing } = data.onpage.og;
+        const message = missing.length === 0 ? "present" : hasOg ? "incomplete" : "missing";
+        return { message, value: missing.length, vars: { tags: missing.join(", ") } };
+    },
+    fix(data) {
+        return data.onpage.og.missing.map(tag => SOCIAL_TAG_MARKUP[tag]?.(data) ?? tag);
+    }
+});
+
+const socialImage = defineRule({
+    id: "socialImage",
+    section: "Search visibility",
+    title: "Social Preview Image",
+    severity: "warning",
+    weight: 1,
+    effort: "low",
+    // Facebook and LinkedIn show 1.91:1 images (within ratioTolerance percent);
+    // X's large cards allow up to 5 MB
+    thresholds: { minWidth: 1200, minHeight: 630, ratio: 1.91, ratioTolerance: 10, maxKb: 5120 },
+    messages: {
+        good: {
+            status: "good",
+            plainExplanation: "Your preview image loads and has the right size ({width} × {height} pixels).",
+            whyItMatters: "A large, sharp image makes your link stand out in feeds.",
+            action: "No action needed."
+        },
+        broken: {
+            status: "warning",
+            plainExplanation: "Your preview image can't be loaded (status {status}).",
+            whyItMatters: "Shared links show up without an image, which gets far fewer clicks.",
+            action: "Point og:image to an image that loads without logging in."
+        },
+        unsupported: {
+            status: "warning",
+            plainExplanation: "Your preview image isn't a JPEG, PNG, GIF or WebP file.",
+            whyItMatters: "Social sites can't show other formats like SVG, so shared links show up without an image.",
+            action: "Use a JPEG or PNG image for og:image."
+        },
+        tooSmall: {
+            status: "warning",
+            plainExplanation: "Your preview image is only {width} × {height} pixels.",
+            whyItMatters: "Small images are shown as a thumbnail next to the link, or blurry, instead of as a large picture above it.",
+            action: "Use an image of at least {minWidth} × {minHeight} pixels."
+        },
+        tooLarge: {
+            status: "warning",
+            plainExplanation: "Your preview image is {kb} KB.",
+            whyItMatters: "X doesn't show images over 5 MB, and big files make previews slow to appear.",
+            action: "Compress the image to under {maxKb} KB."
+        },
+        badRatio: {
+            status: "warning",
+            plainExplanation: "Your preview image's shape ({shape}:1) doesn't fit social previews.",
+            whyItMatters: "Facebook, LinkedIn and X crop it to {ratio}:1, which may cut off text or faces.",
+            action: "Use an image in the 1.91:1 shape, like {minWidth} × {minHeight} pixels."
+        }
+    },
+    evaluate(data, t) {
+        const { image } = data.onpage.og;
+        if (!image) return null;
+        const { status, format, width, height, aspectRatio, bytes } = image;
+        const kb = Math.round((bytes ?? 0) / 1024);
+        // Only checked when the dimensions could be read from the file
+        const small = width !== null && height !== null && (width < t.minWidth || height < t.minHeight);
+        const offShape = aspectRatio !== null && Math.abs(aspectRatio - t.ratio) * 100 > t.ratio * t.ratioTolerance;
+
+        const message = status === null || status >= 400 ? "broken"
+            : !format ? "unsupported"
+                : small ? "tooSmall"
+                    : kb > t.maxKb ? "tooLarge"
+                        : offShape ? "badRatio"
+                            : "good";
+        return {
+            message,
+            value: message === "good",
+            vars: { status: status ?? "no response", width: width ?? "?", height: height ?? "?", shape: aspectRatio ?? "?", kb }
+        };
+    },
+    fix(data) {
+        const { image } = data.onpage.og;
+        if (!image) return [];
+        const size = image.width && image.height ? `, ${image.width} × ${image.height} pixels` : "";
+        const kb = image.bytes !== null ? `, ${Math.round(image.bytes / 1024)} KB` : "";
+        return [`Current image: ${image.url}${size}${kb}`];
+    }
+});
+
+export const searchVisibilityRules = [title, metaDescription, titleRewrite, socialPreview, socialImage];
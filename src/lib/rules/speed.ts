@@ -0,0 +1,290 @@
+import { defineRule } from '@/lib/rules/define';
+
+const ttfb = defineRule({
+    id: "ttfb",
+    section: "Speed",
+    title: "Server Response Time",
+    severity: "critical",
+    weight: 5,
+    effort: "high",
+    // Milliseconds: below good is fine, from poor on it's critical
+    thresholds: { good: 600, poor: 1800 },
+    messages: {
+        fast: {
+            status: "good",
+            plainExplanation: "Your server starts answering quickly ({ttfb} ms).",
+            whyItMatters: "Nothing appears on screen until the server answers. Slow responses lose visitors and crawl budget.",
+            action: "No action needed."
+        },
+        slow: {
+            status: "warning",
+            plainExplanation: "Your server takes {ttfb} ms before it starts sending the page.",
+            whyItMatters: "Nothing appears on screen until the server answers. Slow responses lose visitors and crawl budget.",
+            action: "Add page caching or a CDN, and check for slow database queries or plugins."
+        },
+        verySlow: {
+            status: "critical",
+            plainExplanation: "Your server takes {ttfb} ms before it starts sending the page.",
+            whyItMatters: "Nothing appears on screen until the server answers. Slow responses lose visitors and crawl budget.",
+            action: "Add page caching or a CDN, and check for slow database queries or plugins."
+        }
+    },
+    evaluate(data, t) {
+        const ms = data.technical.performance.timing.ttfbMs;
+        return { message: ms < t.good ? "fast" : ms < t.poor ? "slow" : "verySlow", value: ms, vars: { ttfb: ms } };
+    },
+    fix: (data, t) => [`${data.technical.performance.timing.ttfbMs} ms now; aim for under ${t.good} ms.`]
+});
+
+const compression = defineRule({
+    id: "compression",
+    section: "Speed",
+    title: "Text Compression",
+    severity: "warning",
+    weight: 3,
+    effort: "low",
+    thresholds: {},
+    messages: {
+        on: {
+            status: "good",
+            plainExplanation: "Your page is sent compressed ({encoding}).",
+            whyItMatters: "Compression typically shrinks HTML by 70% or more, so it downloads much faster on mobile networks.",
+            action: "No action needed."
+        },
+        off: {
+            status: "warning",
+            plainExplanation: "Your page is sent uncompressed.",
+            whyItMatters: "Compression typically shrinks HTML by 70% or more, so it downloads much faster on mobile networks.",
+            action: "Enable gzip or Brotli compression on your web server or CDN."
+        }
+    },
+    evaluate(data) {
+        const encoding = data.technical.performance.compression;
+        return { message: encoding ? "on" : "off", value: !!encoding, vars: { encoding: encoding || "" } };
+    },
+    fix(data) {
+        const kb = data.technical.performance.htmlBytes / 1024;
+        return [`${kb.toFixed(1)} KB of HTML is sent as is; compressed it would typically be about ${(kb * 0.3).toFixed(1)} KB.`];
+    }
+});
+
+const htmlWeight = defineRule({
+    id: "htmlWeight",
+    section: "Speed",
+    title: "Page Weight (HTML)",
+    severity: "critical",
+    weight: 3,
+    effort: "medium",
+    // Kilobytes: below good is fine, from poor on it's critical
+    thresholds: { good: 100, poor: 500 },
+    messages: {
+        light: {
+            status: "good",
+            plainExplanation: "Your HTML is lightweight ({kb} KB).",
+            whyItMatters: "Heavy HTML takes longer to download and parse, and Google only reads the first part of very large pages.",
+            action: "No action needed."
+        },
+        heavy: {
+            status: "warning",
+            plainExplanation: "Your HTML alone weighs {kb} KB.",
+            whyItMatters: "Heavy HTML takes longer to download and parse, and Google only reads the first part of very large pages.",
+            action: "Remove inline data, huge inline styles/scripts and unused markup."
+        },
+        veryHeavy: {
+            status: "critical",
+            plainExplanation: "Your HTML alone weighs {kb} KB.",
+            whyItMatters: "Heavy HTML takes longer to download and parse, and Google only reads the first part of very large pages.",
+            action: "Remove inline data, huge inline styles/scripts and unused markup."
+        }
+    },
+    evaluate(data, t) {
+        const kb = Math.round(data.technical.performance.htmlBytes / 1024);
+        return { message: kb < t.good ? "light" : kb < t.poor ? "heavy" : "veryHeavy", value: kb, vars: { kb } };
+    },
+    fix: (data, t) => [`${Math.round(data.technical.performance.htmlBytes / 1024)} KB now; aim for under ${t.good} KB.`]
+});
+
+const caching = defineRule({
+    id: "caching",
+    section: "Speed",
+    title: "Browser Caching",
+    severity: "warning",
+    weight: 2,
+    effort: "low",
+    thresholds: {},
+    messages: {
+        cached: {
+            status: "good",
+            plainExplanation: "Browsers are allowed to reuse this page on repeat visits.",
+            whyItMatters: "Caching makes repeat visits and back-button navigation nearly instant.",
+            action: "No action needed."
+        },
+        noStore: {
+            status: "warning",
+            plainExplanation: "Your server forbids browsers from storing this page (no-store).",
+            whyItMatters: "Caching makes repeat visits and back-button navigation nearly instant.",
+            action: "Send a Cache-Control header (or at least an ETag) for your pages."
+        },
+        noHeaders: {
+            status: "warning",
+            plainExplanation: "Your server doesn't send caching instructions for this page.",
+            whyItMatters: "Caching makes repeat visits and back-button navigation nearly instant.",
+            action: "Send a Cache-Control header (or at least an ETag) for your pages."
+        }
+    },
+    evaluate(data) {
+        const { maxAge, noStore, etag, lastModified } = data.technical.performance.caching;
+        const cachingOk = !noStore && ((maxAge !== null && maxAge > 0) || etag || lastModified);
+        return { message: cachingOk ? "cached" : noStore ? "noStore" : "noHeaders", value: cachingOk };
+    },
+    fix(data) {
+        const { cacheControl } = data.technical.performance.caching;
+        return [
+            cacheControl ? `Current header: "Cache-Control: ${cacheControl}"` : "No Cache-Control, ETag or Last-Modified header is sent.",
+            "For HTML, \"Cache-Control: public, max-age=300\" is a safe start."
+        ];
+    }
+});
+
+const renderBlocking = defineRule({
+    id: "renderBlocking",
+    section: "Speed",
+    title: "Render-Blocking Files",
+    severity: "warning",
+    weight: 3,
+    effort: "medium",
+    thresholds: { max: 2 },
+    messages: {
+        none: {
+            status: "good",
+            plainExplanation: "Nothing in your page head delays the first paint.",
+            whyItMatters: "The browser shows a blank screen until every blocking file in the <head> has downloaded.",
+            action: "No action needed."
+        },
+        few: {
+            status: "good",
+            plainExplanation: "{scripts} scripts and {stylesheets} stylesheets must load before anything shows.",
+            whyItMatters: "The browser shows a blank screen until every blocking file in the <head> has downloaded.",
+            action: "No action needed."
+        },
+        many: {
+            status: "warning",
+            plainExplanation: "{scripts} scripts and {stylesheets} stylesheets must load before anything shows.",
+            whyItMatters: "The browser shows a blank screen until every blocking file in the <head> has downloaded.",
+            action: "Add 'defer' or 'async' to scripts, and combine or inline critical CSS."
+        }
+    },
+    evaluate(data, t) {
+        const { scripts, stylesheets } = data.technical.performance.renderBlocking;
+        const count = scripts.length + stylesheets.length;
+        return {
+            message: count === 0 ? "none" : count <= t.max ? "few" : "many",
+            value: count,
+            vars: { scripts: scripts.length, stylesheets: stylesheets.length }
+        };
+    },
+    fix(data) {
+        const { scripts, stylesheets } = data.technical.performance.renderBlocking;
+        return [...scripts.map(src => `Script: ${src}`), ...stylesheets.map(href => `Stylesheet: ${href}`)];
+    }
+});
+
+const thirdParty = defineRule({
+    id: "thirdParty",
+    section: "Speed",
+    title: "Third-Party Services",
+    severity: "warning",
+    weight: 2,
+    effort: "medium",
+    thresholds: { max: 5 },
+    messages: {
+        none: {
+            status: "good",
+            plainExplanation: "Your page loads everything from your own domain.",
+            whyItMatters: "Each external domain needs its own connection, and one slow provider can stall your whole page.",
+            action: "No action needed."
+        },
+        few: {
+            status: "good",
+            plainExplanation: "Your page loads files from {count} other domains.",
+            whyItMatters: "Each external domain needs its own connection, and one slow provider can stall your whole page.",
+            action: "No action needed."
+        },
+        many: {
+            status: "warning",
+            plainExplanation: "Your page loads files from {count} other domains.",
+            whyItMatters: "Each external domain needs its own connection, and one slow provider can stall your whole page.",
+            action: "Remove unused tags and widgets, or self-host the files you rely on."
+        }
+    },
+    evaluate(data, t) {
+        const count = data.technical.performance.thirdPartyOrigins.length;
+        return { message: count === 0 ? "none" : count <= t.max ? "few" : "many", value: count, vars: { count } };
+    },
+    fix: data => data.technical.performance.thirdPartyOrigins.map(origin => `Loads from ${origin}`)
+});
+
+const lazyImages = defineRule({
+    id: "lazyImages",
+    section: "Speed",
+    title: "Image Lazy-Loading",
+    severity: "warning",
+    weight: 2,
+    effort: "low",
+    // Images above the fold should load right away, so a few eager ones are fine
+    thresholds: { maxEager: 3 },
+    messages: {
+        good: {
+            status: "good",
+            plainExplanation: "Images further down the page wait until they're needed.",
+            whyItMatters: "Loading every image upfront competes with the content visitors actually see first.",
+            action: "No action needed."
+        },
+        eager: {
+            status: "warning",
+            plainExplanation: "{count} images load immediately, even if they're far down the page.",
+            whyItMatters: "Loading every image upfront competes with the content visitors actually see first.",
+            action: "Add loading=\"lazy\" to images below the fold."
+        }
+    },
+    evaluate(data, t) {
+        const { total, notLazy } = data.technical.performance.images;
+        if (total <= 1) return null;
+        return { message: notLazy <= t.maxEager ? "good" : "eager", value: notLazy, vars: { count: notLazy } };
+    },
+    fix(data, t) {
+        const { total, notLazy } = data.technical.performance.images;
+        return [`${notLazy} of ${total} images load eagerly; keep the first ${t.maxEager} or so that way and lazy-load the rest.`];
+    }
+});
+
+const imageDimensions = defineRule({
+    id: "imageDimensions",
+    section: "Speed",
+    title: "Image Dimensions",
+    severity: "warning",
+    weight: 2,
+    effort: "low",
+    thresholds: {},
+    messages: {
+        good: {
+            status: "good",
+            plainExplanation: "Every image declares its width and height.",
+            whyItMatters: "Without dimensions, the page jumps around as images load (layout shift), which Google measures.",
+            action: "No action needed."
+        },
+        missing: {
+            status: "warning",
+            plainExplanation: "{count} images don't declare their width and height.",
+            whyItMatters: "Without dimensions, the page jumps around as images load (layout shift), which Google measures.",
+            action: "Add width and height attributes to every <img>."
+        }
+    },
+    evaluate(data) {
+        const { total, missingDimensions } = data.technical.performance.images;
+        if (total === 0) return null;
+        return { message: missingDimensions === 0 ? "good" : "missing", value: missingDimensions, vars: { count: missingDimensions } };
+    }
+});
+
+export const speedRules = [ttfb, compression, htmlWeight, caching, renderBlocking, thirdParty, lazyImages, imageDimensions];
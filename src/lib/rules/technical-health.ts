@@ -0,0 +1,641 @@
+import { decidingRule, GOOGLEBOT } from '@/lib/robots-txt';
+import { defineRule } from '@/lib/rules/define';
+
+const https = defineRule({
+    id: "https",
+    section: "Technical health",
+    title: "Connection Security",
+    severity: "critical",
+    weight: 8,
+    effort: "medium",
+    thresholds: {},
+    messages: {
+        secure: {
+            status: "good",
+            plainExplanation: "Your connection is secure.",
+            whyItMatters: "Google downranks non-secure websites and browsers show a scary warning to your visitors.",
+            action: "No action needed."
+        },
+        insecure: {
+            status: "critical",
+            plainExplanation: "Your website is flagged as 'Not Secure' by Google.",
+            whyItMatters: "Google downranks non-secure websites and browsers show a scary warning to your visitors.",
+            action: "Enable HTTPS (SSL certificate) immediately."
+        }
+    },
+    evaluate(data) {
+        const isHttps = data.technical.https;
+        return { message: isHttps ? "secure" : "insecure", value: isHttps };
+    },
+    fix(data) {
+        const { finalUrl } = data.technical.redirects;
+        return [`Current address: ${finalUrl}`, `Redirect it to ${finalUrl.replace(/^http:/, "https:")} once the certificate is in place.`];
+    }
+});
+
+const mobile = defineRule({
+    id: "mobile",
+    section: "Technical health",
+    title: "Mobile Viewport",
+    severity: "critical",
+    weight: 7,
+    effort: "low",
+    thresholds: {},
+    messages: {
+        friendly: {
+            status: "good",
+            plainExplanation: "Your page adapts to the width of the phone it's viewed on.",
+            whyItMatters: "Over 60% of searches happen on mobile. Google uses the mobile version of your site to rank you.",
+            action: "No action needed."
+        },
+        missing: {
+            status: "critical",
+            plainExplanation: "Your page doesn't tell phones how to display it, so they show a shrunk-down desktop page.",
+            whyItMatters: "Over 60% of searches happen on mobile. Google uses the mobile version of your site to rank you.",
+            action: "Add a viewport tag with width=device-width."
+        },
+        fixedWidth: {
+            status: "critical",
+            plainExplanation: "Your page tells phones it is {width} wide instead of fitting their screen.",
+            whyItMatters: "Visitors have to scroll sideways or zoom to read, and Google doesn't consider the page mobile-friendly.",
+            action: "Set the viewport to width=device-width and let the layout adapt."
+        },
+        zoomBlocked: {
+            status: "warning",
+            plainExplanation: "Your page stops visitors from zooming in.",
+            whyItMatters: "People who need bigger text can't get it, which fails accessibility guidelines and frustrates mobile visitors.",
+            action: "Remove user-scalable=no and any maximum-scale below 2 from the viewport tag."
+        }
+    },
+    evaluate(data) {
+        const { viewport } = data.technical.mobile;
+        const message = viewport.content === null ? "missing"
+            : !viewport.deviceWidth ? "fixedWidth"
+                : viewport.zoomBlocked ? "zoomBlocked"
+                    : "friendly";
+        const width = viewport.fixedWidth === null ? "a fixed width" : `${viewport.fixedWidth}px`;
+        return { message, value: message === "friendly", vars: { width } };
+    },
+    fix(data) {
+        const { content } = data.technical.mobile.viewport;
+        const tag = "<meta name=\"viewport\" content=\"width=device-width, initial-scale=1\">";
+        return content === null ? [`Add ${tag} to the page head.`] : [`Current viewport: "${content}"`, `Suggested: ${tag}`];
+    }
+});
+
+// Both come from the CSS, so they're estimates: sizes set by scripts, or
+// relative to a parent, aren't seen
+const mobileFontSize = defineRule({
+    id: "mobileFontSize",
+    section: "Technical health",
+    title: "Text Size on Phones",
+    severity: "warning",
+    weight: 3,
+    effort: "medium",
+    thresholds: { min: 12 }, // px
+    messages: {
+        good: {
+            status: "good",
+            plainExplanation: "Your text is large enough to read on a phone.",
+            whyItMatters: "Text smaller than {min}px forces mobile visitors to zoom in before they can read anything.",
+            action: "No action needed."
+        },
+        small: {
+            status: "warning",
+            plainExplanation: "{count} styles on your page set text smaller than {min}px, as small as {smallest}px.",
+            whyItMatters: "Text smaller than {min}px forces mobile visitors to zoom in before they can read anything.",
+            action: "Use at least {min}px for text on small screens, and 16px for body text."
+        }
+    },
+    evaluate(data, t) {
+        const small = data.technical.mobile.smallFonts.filter(f => f.px < t.min);
+        if (small.length === 0) return { message: "good", value: 0 };
+        return { message: "small", value: small.length, vars: { count: small.length, smallest: small[0].px } };
+    },
+    fix(data, t) {
+        return data.technical.mobile.smallFonts.filter(f => f.px < t.min).slice(0, 5).map(f => `${f.selector}: ${f.px}px`);
+    }
+});
+
+const tapTargets = defineRule({
+    id: "tapTargets",
+    section: "Technical health",
+    title: "Tap Target Size",
+    severity: "warning",
+    weight: 2,
+    effort: "medium",
+    thresholds: { min: 48 }, // px
+    messages: {
+        good: {
+            status: "good",
+            plainExplanation: "Your links and buttons are big enough to tap.",
+            whyItMatters: "Google recommends tap targets of at least {min}px so a finger hits the right one.",
+            action: "No action needed."
+        },
+        small: {
+            status: "warning",
+            plainExplanation: "{count} styles make links or buttons smaller than {min}px, as small as {smallest}px.",
+            whyItMatters: "Tiny buttons are easy to miss with a finger, so mobile visitors tap the wrong thing or give up.",
+            action: "Make links and buttons at least {min}px tall and wide on phones; padding counts."
+        }
+    },
+    evaluate(data, t) {
+        const small = data.technical.mobile.smallTapTargets.filter(f => f.px < t.min);
+        if (small.length === 0) return { message: "good", value: 0 };
+        return { message: "small", value: small.length, vars: { count: small.length, smallest: small[0].px } };
+    },
+    fix(data, t) {
+        return data.technical.mobile.smallTapTargets.filter(f => f.px < t.min).slice(0, 5).map(f => `${f.selector}: ${f.px}px`);
+    }
+});
+
+const mobileContent = defineRule({
+    id: "mobileContent",
+    section: "Technical health",
+    title: "Mobile Content Parity",
+    severity: "critical",
+    weight: 6,
+    effort: "high",
+    thresholds: { maxLoss: 20 }, // percent of the desktop text or links
+    messages: {
+        same: {
+            status: "good",
+            plainExplanation: "Phones get the same content as desktops.",
+            whyItMatters: "Google ranks pages by their smartphone version, so whatever phones don't get doesn't count.",
+            action: "No action needed."
+        },
+        less: {
+            status: "warning",
+            plainExplanation: "Phones get less than desktops: {differences}.",
+            whyItMatters: "Google ranks pages by their smartphone version, so whatever phones don't get doesn't count.",
+            action: "Serve phones the full content; collapse it into tabs or accordions instead of leaving it out."
+        },
+        missing: {
+            status: "critical",
+            plainExplanation: "The smartphone version of your page has no {elements}, although the desktop version does.",
+            whyItMatters: "Google ranks pages by their smartphone version, so as far as it knows, these don't exist.",
+            action: "Give the mobile version the same {elements} as the desktop one."
+        }
+    },
+    evaluate(data, t) {
+        const { smartphone, desktop } = data.technical.mobile;
+        // Comparing needs both versions
+        const ok = (status: number | null) => status !== null && status < 400;
+        if (!ok(smartphone.status) || !ok(desktop.status)) return null;
+
+        const missing = [
+            !smartphone.title && desktop.title ? "title" : "",
+            !smartphone.h1 && desktop.h1 ? "main headline (H1)" : "",
+            smartphone.structuredData === 0 && desktop.structuredData > 0 ? "structured data" : ""
+        ].filter(Boolean);
+        const loss = (mobile: number, full: number) => full > 0 ? Math.round((full - mobile) * 100 / full) : 0;
+        const differences = [
+            loss(smartphone.wordCount, desktop.wordCount) > t.maxLoss ? `${loss(smartphone.wordCount, desktop.wordCount)}% fewer words` : "",
+            loss(smartphone.links, desktop.links) > t.maxLoss ? `${loss(smartphone.links, desktop.links)}% fewer links` : ""
+        ].filter(Boolean);
+
+        const message = missing.length > 0 ? "missing" : differences.length > 0 ? "less" : "same";
+        return { message, value: message === "same", vars: { elements: missing.join(", "), differences: differences.join(", ") } };
+    },
+    fix(data) {
+        const { smartphone, desktop } = data.technical.mobile;
+        return [
+            `Smartphone: ${smartphone.wordCount} words, ${smartphone.links} links${smartphone.h1 ? "" : ", no H1"}`,
+            `Desktop: ${desktop.wordCount} words, ${desktop.links} links${desktop.h1 ? "" : ", no H1"}`
+        ];
+    }
+});
+
+const dynamicServing = defineRule({
+    id: "dynamicServing",
+    section: "Technical health",
+    title: "Device-Specific Pages",
+    severity: "warning",
+    weight: 3,
+    effort: "low",
+    thresholds: {},
+    messages: {
+        responsive: {
+            status: "good",
+            plainExplanation: "Phones and desktops get the same page, which adapts to the screen.",
+            whyItMatters: "One page for every device is what Google recommends: nothing to keep in sync, nothing to get wrong.",
+            action: "No action needed."
+        },
+        announced: {
+            status: "good",
+            plainExplanation: "Your server sends phones their own version of the page, and says so with a Vary: User-Agent header.",
+            whyItMatters: "The header tells caches and Google to keep the two versions apart.",
+            action: "No action needed."
+        },
+        unannounced: {
+            status: "warning",
+            plainExplanation: "Your server sends phones a different page than desktops without a Vary: User-Agent header.",
+            whyItMatters: "Without it, caches and CDNs can hand desktop pages to phones (or the reverse), and Google may not crawl the mobile version.",
+            action: "Send Vary: User-Agent with the page, or switch to a responsive design."
+        },
+        separateUrl: {
+            status: "warning",
+            plainExplanation: "Phones are sent to a different address: {mobileUrl}.",
+            whyItMatters: "Separate mobile URLs split your signals across two pages unless each points to the other, and Google advises against them.",
+            action: "Link the versions with rel=\"alternate\" and rel=\"canonical\", or move to a responsive design."
+        }
+    },
+    evaluate(data) {
+        const { smartphone, desktop, servesDifferentHtml, varyUserAgent } = data.technical.mobile;
+        if (smartphone.status === null || desktop.status === null) return null;
+        if (smartphone.finalUrl !== desktop.finalUrl) {
+            return { message: "separateUrl", value: false, vars: { mobileUrl: smartphone.finalUrl } };
+        }
+        const message = !servesDifferentHtml ? "responsive" : varyUserAgent ? "announced" : "unannounced";
+        return { message, value: message !== "unannounced" };
+    },
+    fix(data) {
+        const { smartphone, desktop } = data.technical.mobile;
+        return [
+            `Smartphone: ${smartphone.finalUrl} (${Math.round(smartphone.htmlBytes / 1024)} KB, Vary: ${smartphone.vary || "none"})`,
+            `Desktop: ${desktop.finalUrl} (${Math.round(desktop.htmlBytes / 1024)} KB, Vary: ${desktop.vary || "none"})`
+        ];
+    }
+});
+
+const noindex = defineRule({
+    id: "noindex",
+    section: "Technical health",
+    title: "Search Visibility Lock",
+    severity: "critical",
+    weight: 10,
+    effort: "low",
+    thresholds: {},
+    messages: {
+        indexable: {
+            status: "good",
+            plainExplanation: "Google is allowed to show your site in results.",
+            whyItMatters: "If this is 'on', you will NEVER rank in Google, no matter how good your content is.",
+            action: "Keep it as is."
+        },
+        header: {
+            status: "critical",
+            plainExplanation: "Your site is currently hidden from Google.",
+            whyItMatters: "If this is 'on', you will NEVER rank in Google, no matter how good your content is.",
+            action: "Remove 'noindex' from the X-Robots-Tag header your server sends (and from any robots meta tag)."
+        },
+        meta: {
+            status: "critical",
+            plainExplanation: "Your site is currently hidden from Google.",
+            whyItMatters: "If this is 'on', you will NEVER rank in Google, no matter how good your content is.",
+            action: "Remove the 'noindex' tag from your code."
+        }
+    },
+    evaluate(data) {
+        const noIndex = data.technical.noindex;
+        const message = !noIndex ? "indexable" : data.technical.xRobotsTag.noindex ? "header" : "meta";
+        return { message, value: noIndex };
+    },
+    fix(data) {
+        const { xRobotsTag } = data.technical;
+        return xRobotsTag.noindex
+            ? [`Your server sends "X-Robots-Tag: ${xRobotsTag.value}".`]
+            : ["Look for <meta name=\"robots\"> or <meta name=\"googlebot\"> tags containing noindex."];
+    }
+});
+
+const robotsTxt = defineRule({
+    id: "robotsTxt",
+    section: "Technical health",
+    title: "Crawler Access (robots.txt)",
+    severity: "critical",
+    weight: 10,
+    effort: "low",
+    thresholds: {},
+    messages: {
+        blocked: {
+            status: "critical",
+            plainExplanation: "Your robots.txt file tells Google not to visit this page.",
+            whyItMatters: "Google can't read a page it's not allowed to crawl, so it can't rank it properly.",
+            action: "Remove or narrow the 'Disallow' rule in robots.txt that matches this page."
+        },
+        noFile: {
+            status: "good",
+            plainExplanation: "There is no robots.txt file, so Google may visit every page.",
+            whyItMatters: "Robots.txt decides which pages search engines are allowed to read.",
+            action: "No action needed."
+        },
+        blocksOthers: {
+            status: "good",
+            plainExplanation: "Google may visit this page, but robots.txt blocks other crawlers like ours.",
+            whyItMatters: "Robots.txt decides which pages search engines are allowed to read.",
+            action: "No action needed."
+        },
+        allowed: {
+            status: "good",
+            plainExplanation: "Your robots.txt file lets Google visit this page.",
+            whyItMatters: "Robots.txt decides which pages search engines are allowed to read.",
+            action: "No action needed."
+        }
+    },
+    evaluate(data) {
+        const { found, blockedForGooglebot, blockedForSeoduelBot } = data.technical.robotsTxt;
+        const message = blockedForGooglebot ? "blocked"
+            : !found ? "noFile"
+                : blockedForSeoduelBot ? "blocksOthers"
+                    : "allowed";
+        return { message, value: blockedForGooglebot };
+    },
+    fix(data) {
+        const { url, groups, sitemaps } = data.technical.robotsTxt;
+        const rule = decidingRule({ groups, sitemaps }, GOOGLEBOT, data.technical.redirects.finalUrl);
+        return rule ? [`${url} blocks it with "Disallow: ${rule.path}".`] : [];
+    }
+});
+
+const sitemap = defineRule({
+    id: "sitemap",
+    section: "Technical health",
+    title: "Google's Map (Sitemap)",
+    severity: "warning",
+    weight: 4,
+    effort: "medium",
+    // How old the newest <lastmod> may get before the sitemap counts as abandoned
+    thresholds: { staleDays: 365 },
+    messages: {
+        missing: {
+            status: "warning",
+            plainExplanation: "Google doesn't have an easy sitemap to find all your pages.",
+            whyItMatters: "A sitemap helps Google find and crawl and index all your important pages faster.",
+            action: "Create a sitemap.xml file, list it in robots.txt and submit it to Google."
+        },
+        empty: {
+            status: "warning",
+            plainExplanation: "Your sitemap exists but doesn't list any pages.",
+            whyItMatters: "An empty sitemap gives Google nothing to follow.",
+            action: "Make sure your sitemap is generated with all your important pages in it."
+        },
+        notListed: {
+            status: "warning",
+            plainExplanation: "Your sitemap lists {urls} pages, but not this one.",
+            whyItMatters: "Pages missing from the sitemap are found later, or not at all, by Google.",
+            action: "Add this page's exact URL to your sitemap."
+        },
+        stale: {
+            status: "warning",
+            plainExplanation: "Your sitemap hasn't been updated in over {staleDays} days.",
+            whyItMatters: "Outdated 'last modified' dates make Google revisit your pages less often.",
+            action: "Regenerate the sitemap automatically whenever content changes."
+        },
+        good: {
+            status: "good",
+            plainExplanation: "Your sitemap lists {urls} pages, including this one.",
+            whyItMatters: "A sitemap helps Google find and crawl and index all your important pages faster.",
+            action: "No action needed."
+        }
+    },
+    evaluate(data, t) {
+        const { urlCount, listsAnalyzedUrl, lastmod } = data.technical.sitemapDetails;
+        const isStale = lastmod.newest !== null && Date.now() - Date.parse(lastmod.newest) > t.staleDays * 24 * 60 * 60 * 1000;
+        const message = !data.technical.sitemap ? "missing"
+            : urlCount === 0 ? "empty"
+                : !listsAnalyzedUrl ? "notListed"
+                    : isStale ? "stale"
+                        : "good";
+        return { message, value: data.technical.sitemap ? urlCount : 0, vars: { urls: urlCount } };
+    },
+    fix(data) {
+        const { files, lastmod } = data.technical.sitemapDetails;
+        const { finalUrl } = data.technical.redirects;
+        if (!data.technical.sitemap) return [`Expected at ${new URL(finalUrl).origin}/sitemap.xml or in a Sitemap line of robots.txt.`];
+        const found = files.map(f => `Sitemap: ${f.url} (${f.urlCount} URLs)`);
+        if (!data.technical.sitemapDetails.listsAnalyzedUrl) return [...found, `Missing: ${finalUrl}`];
+        return lastmod.newest ? [...found, `Newest lastmod: ${lastmod.newest}`] : found;
+    }
+});
+
+const redirects = defineRule({
+    id: "redirects",
+    section: "Technical health",
+    title: "Redirects",
+    severity: "warning",
+    weight: 3,
+    effort: "medium",
+    thresholds: {},
+    messages: {
+        none: {
+            status: "good",
+            plainExplanation: "This page loads directly, without any redirects.",
+            whyItMatters: "Every redirect adds waiting time and can leak a bit of ranking power.",
+            action: "No action needed."
+        },
+        normalized: {
+            status: "good",
+            plainExplanation: "This address redirects once to its preferred version ({changes}).",
+            whyItMatters: "A single redirect is normal, but links should point to the final address.",
+            action: "Link to the final URL directly wherever you can."
+        },
+        single: {
+            status: "good",
+            plainExplanation: "This address redirects once before the page loads.",
+            whyItMatters: "A single redirect is normal, but links should point to the final address.",
+            action: "Link to the final URL directly wherever you can."
+        },
+        chain: {
+            status: "warning",
+            plainExplanation: "Visitors bounce through {hops} redirects ({chain}) before reaching the page.",
+            whyItMatters: "Redirect chains slow pages down and Google may stop following them.",
+            action: "Point the first URL straight at the final address with a single 301 redirect."
+        }
+    },
+    evaluate(data) {
+        const { hops, httpToHttps, www, chain } = data.technical.redirects;
+        const changes = [httpToHttps ? "HTTP → HTTPS" : "", www ? `www ${www}` : ""].filter(Boolean).join(", ");
+        const message = hops === 0 ? "none" : hops > 1 ? "chain" : changes ? "normalized" : "single";
+        return { message, value: hops, vars: { hops, changes, chain: chain.map(hop => hop.status).join(" → ") } };
+    },
+    fix(data) {
+        const { chain, finalUrl } = data.technical.redirects;
+        return [
+            ...chain.map(hop => `${hop.status} ${hop.url} → ${hop.location ?? "?"}`),
+            `Redirect ${chain[0].url} straight to ${finalUrl}.`
+        ];
+    }
+});
+
+const canonical = defineRule({
+    id: "canonical",
+    section: "Technical health",
+    title: "Preferred Address (Canonical)",
+    severity: "critical",
+    weight: 6,
+    effort: "low",
+    thresholds: {},
+    messages: {
+        missing: {
+            status: "warning",
+            plainExplanation: "This page doesn't tell Google which address is the 'official' one.",
+            whyItMatters: "Without it, Google may split your ranking power between duplicate versions of the same page.",
+            action: "Add a <link rel=\"canonical\"> tag pointing to this page's own URL."
+        },
+        broken: {
+            status: "critical",
+            plainExplanation: "Your canonical tag points to a broken page ({target} returns {targetStatus}).",
+            whyItMatters: "Google may drop this page from results because its 'official' version doesn't exist.",
+            action: "Point the canonical tag at a live URL, usually this page itself."
+        },
+        redirects: {
+            status: "warning",
+            plainExplanation: "Your canonical tag points to an address that redirects ({target}).",
+            whyItMatters: "Mixed signals make Google guess which URL to show, and it may pick the wrong one.",
+            action: "Use the final URL, after redirects, in the canonical tag."
+        },
+        crossDomain: {
+            status: "warning",
+            plainExplanation: "Your canonical tag hands this page's ranking to another website ({target}).",
+            whyItMatters: "Google will usually rank the canonical page instead of this one.",
+            action: "If this page should rank on its own, make the canonical tag point to itself."
+        },
+        otherPage: {
+            status: "warning",
+            plainExplanation: "Your canonical tag says another page is the official version ({target}).",
+            whyItMatters: "Google will usually rank the canonical page instead of this one.",
+            action: "If this page should rank on its own, make the canonical tag point to itself."
+        },
+        multiple: {
+            status: "warning",
+            plainExplanation: "This page has {tags} canonical tags.",
+            whyItMatters: "When there is more than one, Google may ignore all of them.",
+            action: "Keep a single canonical tag in the page head."
+        },
+        good: {
+            status: "good",
+            plainExplanation: "This page correctly declares itself as the official version.",
+            whyItMatters: "Google knows exactly which URL to rank, even if duplicates exist.",
+            action: "No action needed."
+        }
+    },
+    evaluate(data) {
+        const c = data.technical.canonical;
+        const message = !c.exists ? "missing"
+            : c.targetStatus !== null && c.targetStatus >= 400 ? "broken"
+                : c.targetRedirects ? "redirects"
+                    : !c.selfReferencing ? (c.crossDomain ? "crossDomain" : "otherPage")
+                        : c.tagCount > 1 ? "multiple"
+                            : "good";
+        return {
+            message,
+            value: c.exists,
+            vars: { target: String(c.resolved), targetStatus: String(c.targetStatus), tags: c.tagCount }
+        };
+    },
+    fix(data) {
+        const c = data.technical.canonical;
+        const tag = `<link rel="canonical" href="${data.technical.redirects.finalUrl}">`;
+        return c.exists ? [`Current canonical${c.source === "header" ? " (Link header)" : ""}: ${c.href}`, `Suggested: ${tag}`] : [`Suggested: ${tag}`];
+    }
+});
+
+const hreflang = defineRule({
+    id: "hreflang",
+    section: "Technical health",
+    title: "Language Versions (hreflang)",
+    severity: "warning",
+    weight: 3,
+    effort: "medium",
+    thresholds: {},
+    messages: {
+        good: {
+            status: "good",
+            plainExplanation: "All {count} language versions are linked correctly.",
+            whyItMatters: "Hreflang shows each visitor the right language version. Google ignores pairs that don't confirm each other.",
+            action: "No action needed."
+        },
+        problems: {
+            status: "warning",
+            plainExplanation: "Language setup issues: {problems}.",
+            whyItMatters: "Hreflang shows each visitor the right language version. Google ignores pairs that don't confirm each other.",
+            action: "Make every language version list all the others (itself included) and add an x-default."
+        }
+    },
+    evaluate(data) {
+        // Only for pages that declare language versions
+        const h = data.technical.hreflang;
+        if (h.entries.length === 0) return null;
+        const problems: string[] = [];
+        if (h.missingReturnLinks.length > 0) problems.push(`${h.missingReturnLinks.length} language versions don't link back to this page`);
+        if (h.unreachable.length > 0) problems.push(`${h.unreachable.length} language versions can't be loaded`);
+        if (h.invalidCodes.length > 0) problems.push(`invalid language codes (${h.invalidCodes.join(", ")})`);
+        if (!h.includesSelf) problems.push("this page isn't listed in its own language set");
+        if (!h.hasXDefault) problems.push("no 'x-default' fallback");
+        return {
+            message: problems.length === 0 ? "good" : "problems",
+            value: h.entries.length,
+            vars: { count: h.entries.length, problems: problems.join("; ") }
+        };
+    },
+    fix(data) {
+        const h = data.technical.hreflang;
+        return [
+            ...h.missingReturnLinks.map(url => `No link back from ${url}`),
+            ...h.unreachable.map(url => `Can't be loaded: ${url}`),
+            ...h.invalidCodes.map(code => `Invalid language code: "${code}"`)
+        ];
+    }
+});
+
+// What search engines need to file the page; missing from the HTML, they depend on JavaScript running
+const KEY_ELEMENTS = ["title", "metaDescription", "h1", "canonical", "content"];
+
+const jsRendering = defineRule({
+    id: "jsRendering",
+    section: "Technical health",
+    title: "JavaScript Dependence",
+    severity: "critical",
+    weight: 6,
+    effort: "high",
+    thresholds: {},
+    messages: {
+        same: {
+            status: "good",
+            plainExplanation: "Your page's HTML already contains everything search engines look for; JavaScript doesn't change it.",
+            whyItMatters: "Every crawler sees the same page, whether or not it runs JavaScript.",
+            action: "No action needed."
+        },
+        changed: {
+            status: "warning",
+            plainExplanation: "JavaScript changes your page after it loads: {elements}.",
+            whyItMatters: "Google indexes the raw HTML first and the JavaScript version later, so for a while it may show the wrong one. Most other crawlers never run JavaScript.",
+            action: "Put the final values in the HTML your server sends."
+        },
+        jsOnly: {
+            status: "critical",
+            plainExplanation: "Key parts of your page only exist after JavaScript runs: {elements}.",
+            whyItMatters: "Google renders JavaScript later and not always, and most other search engines, social networks and AI crawlers don't at all. To them, the page is nearly empty.",
+            action: "Render the page on the server (server-side rendering or prerendering), so the HTML already contains its content."
+        },
+        noindexRemoved: {
+            status: "critical",
+            plainExplanation: "Your page's HTML says 'noindex', and JavaScript removes it.",
+            whyItMatters: "Google doesn't run JavaScript on pages marked noindex, so it never sees the tag go away and keeps the page out of its results.",
+            action: "Remove 'noindex' from the HTML your server sends."
+        }
+    },
+    evaluate(data) {
+        // Only for pages analyzed with JavaScript rendering
+        const diff = data.technical.rendering;
+        if (!diff) return null;
+        const { elements } = diff;
+        const value = elements.length;
+        const labels = (list: typeof elements) => ({ elements: list.map(e => e.label).join(", ") });
+        if (elements.some(e => e.element === "noindex" && e.change === "removed")) {
+            return { message: "noindexRemoved", value };
+        }
+        const added = elements.filter(e => e.change === "added");
+        if (added.some(e => KEY_ELEMENTS.includes(e.element))) {
+            return { message: "jsOnly", value, vars: labels(added) };
+        }
+        return { message: value === 0 ? "same" : "changed", value, vars: labels(elements) };
+    },
+    fix(data) {
+        const quote = (text: string) => text ? `"${text}"` : "nothing";
+        return data.technical.rendering!.elements.map(e => `${e.label}: ${quote(e.raw)} in the HTML, ${quote(e.rendered)} after JavaScript`);
+    }
+});
+
+export const technicalHealthRules = [https, mobile, mobileFontSize, tapTargets, mobileContent, dynamicServing, noindex, robotsTxt, sitemap, redirects, canonical, hreflang, jsRendering];
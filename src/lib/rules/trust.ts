@@ -0,0 +1,146 @@
+import { defineRule } from '@/lib/rules/define';
+
+// Combines the link audit into one metric, so its texts are mostly assembled in evaluate
+const internalLinks = defineRule({
+    id: "internalLinks",
+    section: "Trust & credibility",
+    title: "Topic Connection",
+    severity: "critical",
+    weight: 5,
+    effort: "medium",
+    thresholds: { min: 6 },
+    messages: {
+        good: {
+            status: "good",
+            plainExplanation: "{summary}",
+            whyItMatters: "Linking to your other pages helps Google understand your expertise and spreads 'ranking power' throughout your site. Descriptive link text tells it what the linked page is about; broken links waste that power.",
+            action: "{actions}"
+        },
+        weak: {
+            status: "warning",
+            plainExplanation: "{summary}",
+            whyItMatters: "Linking to your other pages helps Google understand your expertise and spreads 'ranking power' throughout your site. Descriptive link text tells it what the linked page is about; broken links waste that power.",
+            action: "{actions}"
+        },
+        // Broken links to your own pages are dead ends for visitors and Google alike
+        brokenInternal: {
+            status: "critical",
+            plainExplanation: "{summary}",
+            whyItMatters: "Linking to your other pages helps Google understand your expertise and spreads 'ranking power' throughout your site. Descriptive link text tells it what the linked page is about; broken links waste that power.",
+            action: "{actions}"
+        }
+    },
+    evaluate(data, t) {
+        const internalCount = data.trust.internalLinks;
+        const { broken, redirected, genericAnchors } = data.trust.links;
+
+        const problems: string[] = [];
+        if (broken.length > 0) {
+            const examples = broken.slice(0, 2).map(b => `${b.url} (${b.status ?? "no response"})`).join(", ");
+            problems.push(`${broken.length} broken links, e.g. ${examples}`);
+        }
+        if (genericAnchors.length > 0) {
+            const texts = [...new Set(genericAnchors.map(g => `"${g.anchorText}"`))].slice(0, 3).join(", ");
+            problems.push(`${genericAnchors.length} links use vague text like ${texts}`);
+        }
+        if (redirected.length > 0) {
+            problems.push(`${redirected.length} links go through a redirect`);
+        }
+
+        const actions: string[] = [];
+        if (broken.length > 0) actions.push("Fix or remove the broken links.");
+        if (internalCount < t.min) actions.push("Add links to 5-10 other relevant pages on your website.");
+        if (genericAnchors.length > 0) actions.push("Replace 'click here'-style link text with words describing the page you link to.");
+        if (redirected.length > 0) actions.push("Point redirected links straight at their final address.");
+
+        const message = broken.some(b => b.type === "internal") ? "brokenInternal"
+            : internalCount >= t.min && broken.length === 0 && genericAnchors.length === 0 ? "good"
+                : "weak";
+        return {
+            message,
+            value: internalCount,
+            vars: {
+                summary: (internalCount > 0 ? `You have ${internalCount} internal links.` : "No links to other pages on your site found.")
+                    + (problems.length > 0 ? ` ${problems.join("; ")}.` : ""),
+                actions: actions.length > 0 ? actions.join(" ") : "Keep linking to relevant pages."
+            }
+        };
+    },
+    fix(data, t) {
+        const { broken, redirected, genericAnchors } = data.trust.links;
+        const internalCount = data.trust.internalLinks;
+        return [
+            ...(internalCount < t.min ? [`${internalCount} internal links now; aim for at least ${t.min}.`] : []),
+            ...broken.map(b => `Broken: ${b.url} (${b.status ?? "no response"})`),
+            ...genericAnchors.map(g => `Vague link text "${g.anchorText}" → ${g.url}`),
+            ...redirected.map(r => `Redirected: ${r.url} → ${r.finalUrl}`)
+        ];
+    }
+});
+
+const schema = defineRule({
+    id: "schema",
+    section: "Trust & credibility",
+    title: "Rich Search Results",
+    severity: "warning",
+    weight: 3,
+    effort: "medium",
+    thresholds: {},
+    messages: {
+        missing: {
+            status: "warning",
+            plainExplanation: "You aren't using 'Schema' code on this page.",
+            whyItMatters: "This code helps you get 'rich results' like star ratings, prices, or FAQ snippets that stand out.",
+            action: "Add 'LD+JSON' schema markup for your business or product."
+        },
+        invalid: {
+            status: "warning",
+            plainExplanation: "Your schema code has errors: {problems}.{stillEligible}",
+            whyItMatters: "Google ignores schema with missing required fields, so you lose the rich result it was meant to unlock.",
+            action: "Fill in the missing fields and check the page with Google's Rich Results Test."
+        },
+        noRichResult: {
+            status: "warning",
+            plainExplanation: "You use schema code ({types}), but none of it unlocks a rich result.",
+            whyItMatters: "Types like Product, Article, FAQPage or BreadcrumbList can add stars, prices or extra links to your listing.",
+            action: "Add the schema type that matches this page's content, such as Product or Article."
+        },
+        good: {
+            status: "good",
+            plainExplanation: "Your page is eligible for these rich results: {eligible}.",
+            whyItMatters: "This code helps you get 'rich results' like star ratings, prices, or FAQ snippets that stand out.",
+            action: "Ensure the data is accurate."
+        }
+    },
+    evaluate(data) {
+        const { entities, types, eligibleRichResults: eligible, jsonLdErrors } = data.trust.structuredData;
+        const invalid = entities.filter(e => !e.valid);
+        const problems = invalid.map(e => `${e.type} is missing ${e.missingRequired.join(", ")}`);
+        if (jsonLdErrors > 0) problems.push(`${jsonLdErrors} JSON-LD blocks can't be read`);
+
+        const message = !data.trust.hasSchema ? "missing"
+            : problems.length > 0 ? "invalid"
+                : eligible.length === 0 ? "noRichResult"
+                    : "good";
+        return {
+            message,
+            value: eligible.length,
+            vars: {
+                problems: problems.join("; "),
+                stillEligible: eligible.length > 0 ? ` Still eligible for: ${eligible.join(", ")}.` : "",
+                types: types.join(", ") || "untyped",
+                eligible: eligible.join(", ")
+            }
+        };
+    },
+    fix(data) {
+        const { entities, types } = data.trust.structuredData;
+        if (types.length === 0) return [];
+        return [
+            `Found: ${types.join(", ")}`,
+            ...entities.filter(e => !e.valid).map(e => `${e.type} is missing ${e.missingRequired.join(", ")}`)
+        ];
+    }
+});
+
+export const trustRules = [internalLinks, schema];
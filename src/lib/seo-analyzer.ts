@@ -0,0 +1,295 @@
+import { load, CheerioAPI } from 'cheerio';
+import type { Response } from 'node-fetch';
+import { interpretSeoMetrics, SeoReport } from '@/lib/seo-interpreter';
+import type { SiteCrawl } from '@/lib/seo-crawler';
+import type { HistoryEntry } from '@/lib/history';
+import { fetchRobotsTxt, GOOGLEBOT, isAllowed, RobotsTxtFetch, SEODUEL_BOT } from '@/lib/robots-txt';
+import { crawlSitemaps, SitemapCrawl, summarizeSitemaps } from '@/lib/sitemap';
+import { describeNormalization, fetchWithRedirects, RedirectChain } from '@/lib/redirects';
+import { analyzeCanonical } from '@/lib/canonical';
+import { analyzeHreflang } from '@/lib/hreflang';
+import { ConnectionTiming, createTimingAgent } from '@/lib/timing';
+import { analyzePerformance } from '@/lib/performance';
+import { analyzeMobile } from '@/lib/mobile';
+import { analyzeStructuredData } from '@/lib/structured-data';
+import { analyzeKeywords, countWords, visibleText } from '@/lib/keywords';
+import { profileContent } from '@/lib/content-gap';
+import { analyzeHeadings } from '@/lib/headings';
+import { analyzeSocial } from '@/lib/social';
+import { buildSnippet } from '@/lib/serp-snippet';
+import { analyzeAccessibility } from '@/lib/accessibility';
+import { auditLinks, extractLinks, LinkCheckCache } from '@/lib/links';
+import { RuleConfig, resolveRuleConfig } from '@/lib/seo-rules';
+import { diffRendering, renderPage } from '@/lib/rendering';
+import { ANALYSIS_SCHEMA_VERSION, OnPageAnalysis, PageAnalysis, SchemaValidationError, TechnicalAnalysis, TrustAnalysis, validatePageAnalysis } from '@/lib/analysis-schema';
+
+// Described field by field, and validated, by analysisResponseSchema
+export interface SeoAnalysisResponse extends Partial<PageAnalysis> {
+    schemaVersion: typeof ANALYSIS_SCHEMA_VERSION;
+    url: string;
+    status: 'ok' | 'error';
+    error?: string;
+    warnings: string[];
+    report?: SeoReport;
+    crawl?: SiteCrawl;
+    history?: HistoryEntry; // set by the API routes, which record every successful analysis
+}
+
+export interface AnalyzeOptions {
+    targetKeyword?: string; // scored in a "Keyword targeting" section when given
+    rules?: RuleConfig; // applied on top of the project's rules file
+    render?: boolean; // analyze the DOM after JavaScript ran, compared with the raw HTML
+}
+
+export function normalizeUrl(url: string): string {
+    let targetUrl = url.trim();
+    if (!targetUrl.startsWith('http')) {
+        targetUrl = `https://${targetUrl}`;
+    }
+    return targetUrl;
+}
+
+export interface FetchedPage {
+    url: string;
+    finalUrl: string; // where the redirects, if any, ended up
+    redirects: RedirectChain;
+    timing: PageTiming;
+    html: string;
+    response: Response;
+    $: CheerioAPI;
+    raw?: FetchedPage; // set when html and $ are the rendered DOM: the page as downloaded
+}
+
+// robots.txt and sitemaps belong to the origin, not the page, so they are
+// loaded once and shared by every page analyzed on that origin.
+export interface SiteResources {
+    robotsTxt: RobotsTxtFetch;
+    sitemaps: SitemapCrawl;
+    linkChecks: LinkCheckCache;
+}
+
+// Timing of the final request, after any redirects
+export interface PageTiming extends ConnectionTiming {
+    ttfbMs: number;
+    downloadMs: number;
+    redirectMs: number; // time spent on the redirect hops before it
+}
+
+// Throws when the page can't be fetched or answers with a non-2xx status
+export async function fetchPage(url: string): Promise<FetchedPage> {
+    const timingAgent = createTimingAgent();
+    const { response, chain } = await fetchWithRedirects(url, {
+        headers: { 'User-Agent': 'SEOduel-Bot/1.0' },
+        agent: timingAgent.agent
+    });
+    if (chain.loop || chain.tooManyRedirects) {
+        throw new Error(`Failed to fetch URL: ${chain.loop ? 'redirect loop' : 'too many redirects'}`);
+    }
+    if (!response.ok) {
+        throw new Error(`Failed to fetch URL: ${response.status}`);
+    }
+    const downloadStart = performance.now();
+    const html = await response.text();
+    const finalHop = chain.hops[chain.hops.length - 1];
+    const timing: PageTiming = {
+        ...timingAgent.lastConnection(),
+        ttfbMs: finalHop.timeMs,
+        downloadMs: Math.round(performance.now() - downloadStart),
+        redirectMs: chain.hops.slice(0, -1).reduce((sum, hop) => sum + hop.timeMs, 0)
+    };
+    return { url, finalUrl: chain.finalUrl, redirects: chain, timing, html, response, $: load(html) };
+}
+
+export async function loadSiteResources(origin: string): Promise<SiteResources> {
+    const robotsTxt = await fetchRobotsTxt(origin);
+    // Sitemap: directives win; /sitemap.xml is only the conventional fallback
+    const sitemapUrls = robotsTxt.robots.sitemaps.length > 0
+        ? robotsTxt.robots.sitemaps
+        : [`${origin}/sitemap.xml`];
+    const sitemaps = await crawlSitemaps(sitemapUrls);
+    return { robotsTxt, sitemaps, linkChecks: new Map() };
+}
+
+export async function analyzePage(page: FetchedPage, site?: SiteResources, options: AnalyzeOptions = {}): Promise<PageAnalysis> {
+    const { finalUrl, html, $ } = page;
+    const resources = site || await loadSiteResources(new URL(finalUrl).origin);
+
+    // 1. On-Page Analysis
+    const onpage = await analyzeOnPage($, html, finalUrl, options.targetKeyword);
+
+    // 2. Technical Analysis
+    const technical = await analyzeTechnical(page, resources);
+
+    // 3. Trust Analysis
+    const trust = await analyzeTrust($, finalUrl, resources);
+
+    // 4. Accessibility Analysis
+    const accessibility = analyzeAccessibility($);
+
+    // 5. What JavaScript changed, compared with the HTML as downloaded
+    if (page.raw) technical.rendering = diffRendering(page.raw, page);
+
+    // The types already match the schema; this catches what they can't see,
+    // like NaN from a division by zero
+    return validatePageAnalysis({ onpage, technical, trust, accessibility });
+}
+
+// Fetches a single URL and runs every analyzer on it. Fetch failures, and
+// analyses the schema rejects, are reported through `status: 'error'` rather
+// than thrown, so callers analyzing several sites can tell which one failed.
+export async function analyzeUrl(url: string, options: AnalyzeOptions = {}): Promise<SeoAnalysisResponse> {
+    const targetUrl = normalizeUrl(url);
+
+    let page: FetchedPage;
+    try {
+        page = await fetchPage(targetUrl);
+        if (options.render) page = await renderPage(page);
+    } catch (err: any) {
+        return { schemaVersion: ANALYSIS_SCHEMA_VERSION, url: targetUrl, status: 'error', error: err.message || 'Failed to fetch URL', warnings: [] };
+    }
+
+    let analysis: PageAnalysis;
+    try {
+        analysis = await analyzePage(page, undefined, options);
+    } catch (err) {
+        // An analyzer produced something invalid; the issues say which field
+        if (!(err instanceof SchemaValidationError)) throw err;
+        return { schemaVersion: ANALYSIS_SCHEMA_VERSION, url: targetUrl, status: 'error', error: err.message, warnings: err.issues };
+    }
+    const { onpage, technical, trust, accessibility } = analysis;
+
+    // Generate Human Report
+    const report = interpretSeoMetrics({
+        onpage,
+        technical,
+        trust,
+        accessibility
+    }, targetUrl, await resolveRuleConfig(options.rules));
+
+    return {
+        schemaVersion: ANALYSIS_SCHEMA_VERSION,
+        url: targetUrl,
+        status: 'ok',
+        onpage,
+        technical,
+        trust,
+        accessibility,
+        warnings: [],
+        report
+    };
+}
+
+// Same-origin pages linked from the document, resolved and without fragments
+export function extractInternalUrls($: CheerioAPI, url: string): string[] {
+    const origin = new URL(url).origin;
+    const urls = extractLinks($, url)
+        .filter(l => l.type === 'internal' && new URL(l.url!).origin === origin)
+        .map(l => l.url!);
+    return [...new Set(urls)];
+}
+
+async function analyzeOnPage($: CheerioAPI, html: string, url: string, targetKeyword?: string): Promise<OnPageAnalysis> {
+    const titleText = $('title').first().text().trim() || '';
+    const metaDesc = $('meta[name="description" i]').attr('content')?.trim() ||
+        $('meta[property="og:description" i]').attr('content')?.trim() || '';
+
+    const h1s = $('h1').map((i, el) => $(el).text().trim()).get();
+    const h2Count = $('h2').length;
+    const h3Count = $('h3').length;
+
+    // Images
+    const imgs = $('img');
+    const totalImgs = imgs.length;
+    const missingAlt = imgs.filter((i, el) => !$(el).attr('alt')).length;
+
+    // Text & Words
+    const cleanText = visibleText(html);
+    const wordCount = countWords(cleanText);
+
+    return {
+        title: { text: titleText, length: titleText.length, exists: !!titleText },
+        meta: { text: metaDesc, length: metaDesc.length, exists: !!metaDesc },
+        headings: {
+            h1Count: h1s.length,
+            h2Count,
+            h3Count,
+            h1Exists: h1s.length > 0,
+            h1Unique: h1s.length === 1,
+            ...analyzeHeadings($)
+        },
+        og: await analyzeSocial($, url),
+        snippet: buildSnippet({ title: titleText, description: metaDesc, url, h1: h1s[0] || '' }),
+        images: {
+            altStats: { total: totalImgs, missing: missingAlt }
+        },
+        content: { wordCount },
+        keywords: analyzeKeywords($, url, cleanText, targetKeyword),
+        topics: profileContent($, cleanText)
+    };
+}
+
+async function analyzeTechnical(page: FetchedPage, site: SiteResources): Promise<TechnicalAnalysis> {
+    const { finalUrl, redirects, response, html, $ } = page;
+    const isHttps = new URL(finalUrl).protocol === 'https:';
+    const hasViewport = !!$('meta[name="viewport"]').attr('content');
+    const robotsMeta = $('meta[name="robots" i]').attr('content')?.toLowerCase() || '';
+    const xRobotsTag = response.headers.get('x-robots-tag')?.toLowerCase() || '';
+    const isNoIndex = robotsMeta.includes('noindex') || /\b(noindex|none)\b/.test(xRobotsTag);
+
+    const { robotsTxt } = site;
+    const sitemapDetails = summarizeSitemaps(site.sitemaps, finalUrl);
+
+    const [canonical, hreflang, mobile] = await Promise.all([
+        analyzeCanonical($, finalUrl, response.headers.get('link')),
+        analyzeHreflang($, finalUrl),
+        analyzeMobile(page)
+    ]);
+
+    return {
+        https: isHttps,
+        mobileFriendly: hasViewport, // whether the viewport is set up right is in mobile.viewport
+        mobile,
+        noindex: isNoIndex,
+        xRobotsTag: {
+            value: xRobotsTag || null,
+            noindex: /\b(noindex|none)\b/.test(xRobotsTag),
+            nofollow: /\b(nofollow|none)\b/.test(xRobotsTag)
+        },
+        redirects: {
+            chain: redirects.hops,
+            hops: redirects.hops.length - 1,
+            finalUrl,
+            ...describeNormalization(redirects)
+        },
+        canonical,
+        hreflang,
+        performance: analyzePerformance(page.raw || page), // download size and blocking tags are the server's HTML
+        sitemap: sitemapDetails.found,
+        sitemapDetails,
+        robotsTxt: {
+            url: robotsTxt.url,
+            status: robotsTxt.status,
+            found: robotsTxt.found,
+            groups: robotsTxt.robots.groups,
+            sitemaps: robotsTxt.robots.sitemaps,
+            blockedForGooglebot: !isAllowed(robotsTxt.robots, GOOGLEBOT, finalUrl),
+            blockedForSeoduelBot: !isAllowed(robotsTxt.robots, SEODUEL_BOT, finalUrl)
+        },
+        doctype: (page.raw?.html ?? html).toLowerCase().startsWith('<!doctype html>'),
+        charset: $('meta[charset]').attr('charset') || $('meta[http-equiv="Content-Type"]').attr('content') || null
+    };
+}
+
+async function analyzeTrust($: CheerioAPI, url: string, site: SiteResources): Promise<TrustAnalysis> {
+    const links = await auditLinks($, url, site.linkChecks);
+
+    const structuredData = analyzeStructuredData($);
+    const hasSchema = structuredData.jsonLdBlocks > 0 || structuredData.entities.length > 0;
+
+    return {
+        internalLinks: links.counts.internal,
+        links,
+        hasSchema,
+        structuredData
+    };
+}
@@ -0,0 +1,257 @@
+import { z } from 'zod';
+import { AnalyzeOptions, analyzePage, extractInternalUrls, FetchedPage, fetchPage, loadSiteResources, normalizeUrl, SeoAnalysisResponse, SiteResources } from '@/lib/seo-analyzer';
+import { renderPage } from '@/lib/rendering';
+import { ANALYSIS_SCHEMA_VERSION, PageAnalysis, SchemaValidationError } from '@/lib/analysis-schema';
+import { isAllowed, SEODUEL_BOT } from '@/lib/robots-txt';
+import { RuleConfig, resolveRuleConfig } from '@/lib/seo-rules';
+import { buildReport, interpretSeoMetrics, MetricResult, SeoReport, SeoSection, STATUS_RANK } from '@/lib/seo-interpreter';
+
+// Limits above MAX_DEPTH_LIMIT and MAX_PAGES_LIMIT are lowered to them
+const crawlOptionsSchema = z.object({
+    maxDepth: z.number().int().min(0).optional(),
+    maxPages: z.number().int().min(1).optional()
+});
+
+export type CrawlOptions = z.infer<typeof crawlOptionsSchema>;
+
+export interface CrawledPage extends Partial<PageAnalysis> {
+    url: string;
+    depth: number;
+    status: 'ok' | 'error';
+    error?: string;
+    report?: SeoReport;
+}
+
+export interface OffendingPage {
+    url: string;
+    status: MetricResult["status"];
+    value?: MetricResult["value"];
+    explanation: string;
+}
+
+export interface SiteCrawl {
+    maxDepth: number;
+    maxPages: number;
+    pages: CrawledPage[];
+    worstPages: Record<string, OffendingPage[]>; // keyed by metric id
+}
+
+const DEFAULT_MAX_DEPTH = 2;
+const DEFAULT_MAX_PAGES = 10;
+const MAX_DEPTH_LIMIT = 5;
+const MAX_PAGES_LIMIT = 50;
+const CONCURRENCY = 4;
+const WORST_PAGES_PER_METRIC = 5;
+
+// Breadth-first crawl of the site behind `url`, following internal links and
+// sitemap entries and skipping what robots.txt disallows for SEOduel-Bot.
+// The start page's raw data is returned as usual; the report is rolled up
+// over every page crawled.
+export async function crawlSite(url: string, options: CrawlOptions = {}, analyzeOptions: AnalyzeOptions = {}): Promise<SeoAnalysisResponse> {
+    const startUrl = normalizeUrl(url);
+    const maxDepth = clamp(options.maxDepth ?? DEFAULT_MAX_DEPTH, 0, MAX_DEPTH_LIMIT);
+    const maxPages = clamp(options.maxPages ?? DEFAULT_MAX_PAGES, 1, MAX_PAGES_LIMIT);
+
+    // The site is wherever the start page ends up: http://example.com is
+    // often served from https://www.example.com
+    let startPage: FetchedPage;
+    try {
+        startPage = await fetchHtmlPage(startUrl, analyzeOptions);
+    } catch (err) {
+        return { schemaVersion: ANALYSIS_SCHEMA_VERSION, url: startUrl, status: 'error', error: err instanceof Error ? err.message : 'Failed to fetch URL', warnings: [] };
+    }
+    const origin = new URL(startPage.finalUrl).origin;
+
+    const startHref = new URL(startUrl).toString();
+    const seen = new Set<string>([startHref, startPage.finalUrl]);
+    const queue: { url: string; depth: number; fetched?: FetchedPage }[] = [{ url: startHref, depth: 0, fetched: startPage }];
+    const pages: CrawledPage[] = [];
+    const site = await loadSiteResources(origin);
+    const rules = await resolveRuleConfig(analyzeOptions.rules);
+
+    // Every queued URL ends up as a page (possibly an error), so never queue
+    // more than the page budget.
+    let queued = queue.length;
+    const enqueue = (link: string, depth: number) => {
+        if (depth > maxDepth || queued >= maxPages || seen.has(link)) return;
+        if (!isAllowed(site.robotsTxt.robots, SEODUEL_BOT, link)) return;
+        seen.add(link);
+        queue.push({ url: link, depth });
+        queued++;
+    };
+
+    while (queue.length > 0 && pages.length < maxPages) {
+        const batch = queue.splice(0, CONCURRENCY);
+        const crawled = await Promise.all(batch.map(item => crawlPage(item, site, analyzeOptions, rules)));
+
+        for (const { page, links } of crawled) {
+            pages.push(page);
+            links.forEach(link => enqueue(link, page.depth + 1));
+            if (page.depth === 0) {
+                // Sitemap entries sit one level below the start page
+                site.sitemaps.entries.forEach(entry => {
+                    const href = toPageHref(entry.loc, origin);
+                    if (href) enqueue(href, 1);
+                });
+            }
+        }
+    }
+
+    const start = pages[0];
+    if (start.status === 'error') {
+        return { schemaVersion: ANALYSIS_SCHEMA_VERSION, url: startUrl, status: 'error', error: start.error, warnings: [] };
+    }
+
+    const analyzed = pages.filter(p => p.status === 'ok');
+
+    return {
+        schemaVersion: ANALYSIS_SCHEMA_VERSION,
+        url: startUrl,
+        status: 'ok',
+        onpage: start.onpage,
+        technical: start.technical,
+        trust: start.trust,
+        accessibility: start.accessibility,
+        warnings: pages.filter(p => p.status === 'error').map(p => `Could not crawl ${p.url}: ${p.error}`),
+        report: rollUpReports(analyzed),
+        crawl: {
+            maxDepth,
+            maxPages,
+            pages,
+            worstPages: findWorstPages(analyzed)
+        }
+    };
+}
+
+// Throws for pages that can't be fetched or aren't HTML
+async function fetchHtmlPage(url: string, analyzeOptions: AnalyzeOptions): Promise<FetchedPage> {
+    const fetched = await fetchPage(url);
+    const contentType = fetched.response.headers.get('content-type') || '';
+    if (contentType && !contentType.includes('html')) {
+        throw new Error(`Not an HTML page (${contentType})`);
+    }
+    // Links added by JavaScript are followed too
+    return analyzeOptions.render ? renderPage(fetched) : fetched;
+}
+
+// `fetched` is set for the start page, which is fetched before the crawl begins
+async function crawlPage(item: { url: string; depth: number; fetched?: FetchedPage }, site: SiteResources, analyzeOptions: AnalyzeOptions, rules: RuleConfig): Promise<{ page: CrawledPage; links: string[] }> {
+    const { url, depth } = item;
+    try {
+        const fetched = item.fetched || await fetchHtmlPage(url, analyzeOptions);
+        const analysis = await analyzePage(fetched, site, analyzeOptions);
+        return {
+            page: { url, depth, status: 'ok', ...analysis, report: interpretSeoMetrics(analysis, url, rules) },
+            links: extractInternalUrls(fetched.$, fetched.finalUrl)
+        };
+    } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to fetch URL';
+        return { page: { url, depth, status: 'error', error: message }, links: [] };
+    }
+}
+
+// Groups every page's metric results by section and metric id, keeping the
+// order in which they first appear.
+function groupMetrics(pages: CrawledPage[]) {
+    const sections = new Map<string, Map<string, { url: string; result: MetricResult }[]>>();
+    pages.forEach(page => page.report!.sections.forEach(section => {
+        if (!sections.has(section.name)) sections.set(section.name, new Map());
+        const metrics = sections.get(section.name)!;
+        section.metrics.forEach(m => {
+            const id = m.metric || m.title;
+            if (!metrics.has(id)) metrics.set(id, []);
+            metrics.get(id)!.push({ url: page.url, result: m });
+        });
+    }));
+    return sections;
+}
+
+const isFailing = (result: MetricResult) => result.status === 'warning' || result.status === 'critical';
+
+function rollUpReports(pages: CrawledPage[]): SeoReport {
+    const grouped = groupMetrics(pages);
+    const sections: SeoSection[] = [];
+    grouped.forEach((metrics, name) => {
+        sections.push({ name, metrics: [...metrics.values()].map(rollUpMetric) });
+    });
+    const failingPages = (id: string) => [...grouped.values()]
+        .flatMap(metrics => metrics.get(id) || [])
+        .filter(e => isFailing(e.result))
+        .map(e => e.url);
+    return buildReport(sections, failingPages);
+}
+
+// A site passes a metric only when every page does; it's critical when more
+// than half the pages measured are critical.
+function rollUpMetric(entries: { url: string; result: MetricResult }[]): MetricResult {
+    const measured = entries.filter(e => STATUS_RANK[e.result.status] !== null);
+    if (measured.length === 0) return entries[0].result;
+    if (measured.length === 1) return measured[0].result;
+
+    const failing = sortWorstFirst(measured.filter(e => e.result.status !== 'good'));
+    const criticalCount = failing.filter(e => e.result.status === 'critical').length;
+
+    if (failing.length === 0) {
+        return {
+            ...measured[0].result,
+            value: undefined,
+            plainExplanation: `All ${measured.length} crawled pages pass this check.`
+        };
+    }
+
+    const worst = failing[0];
+    const fixDetails = failing.slice(0, WORST_PAGES_PER_METRIC)
+        .flatMap(e => (e.result.fixDetails || []).map(detail => `${new URL(e.url).pathname}: ${detail}`));
+    return {
+        ...worst.result,
+        status: criticalCount * 2 > measured.length ? 'critical' : 'warning',
+        value: undefined,
+        plainExplanation: `${failing.length} of ${measured.length} crawled pages need attention. Worst is ${new URL(worst.url).pathname}: ${worst.result.plainExplanation}`,
+        fixDetails: fixDetails.length > 0 ? fixDetails : undefined
+    };
+}
+
+function findWorstPages(pages: CrawledPage[]): Record<string, OffendingPage[]> {
+    const worstPages: Record<string, OffendingPage[]> = {};
+    groupMetrics(pages).forEach(metrics => metrics.forEach((entries, id) => {
+        const failing = entries.filter(e => isFailing(e.result));
+        if (failing.length === 0) return;
+        worstPages[id] = sortWorstFirst(failing).slice(0, WORST_PAGES_PER_METRIC).map(e => ({
+            url: e.url,
+            status: e.result.status,
+            value: e.result.value,
+            explanation: e.result.plainExplanation
+        }));
+    }));
+    return worstPages;
+}
+
+function sortWorstFirst<T extends { result: MetricResult }>(entries: T[]): T[] {
+    return [...entries].sort((a, b) => (STATUS_RANK[a.result.status] ?? 0) - (STATUS_RANK[b.result.status] ?? 0));
+}
+
+// `crawl: { maxDepth, maxPages }` from a request; throws a SchemaValidationError
+export function validateCrawlOptions(data: unknown): CrawlOptions {
+    const parsed = crawlOptionsSchema.safeParse(data);
+    if (!parsed.success) {
+        throw new SchemaValidationError('crawl options', parsed.error.issues.map(i => `crawl.${i.path.join('.')}: ${i.message}`));
+    }
+    return parsed.data;
+}
+
+// Resolved URL without fragment, or null when it's invalid or off-site
+function toPageHref(url: string, origin: string): string | null {
+    try {
+        const resolved = new URL(url);
+        if (resolved.origin !== origin) return null;
+        resolved.hash = '';
+        return resolved.toString();
+    } catch {
+        return null;
+    }
+}
+
+function clamp(n: number, min: number, max: number): number {
+    if (!Number.isFinite(n)) throw new RangeError(`Expected a number between ${min} and ${max}, got ${n}`);
+    return Math.max(min, Math.min(max, Math.floor(n)));
+}
@@ -0,0 +1,321 @@
+import { MetricResult, MetricScore, SeoBreakdown, SeoReport, STATUS_RANK } from '@/lib/seo-interpreter';
+import type { SeoAnalysisResponse } from '@/lib/seo-analyzer';
+import type { ContentGapReport } from '@/lib/content-gap';
+import type { TargetKeywordInfo } from '@/lib/keywords';
+import type { ActionTask } from '@/lib/action-plan';
+
+export type DuelSide = "user" | "competitor" | "tie";
+
+export interface MetricComparison {
+    metric: string;
+    section: string;
+    user: MetricResult | null;
+    competitor: MetricResult | null;
+    winner: DuelSide;
+}
+
+export interface CategoryGap {
+    category: BreakdownKey;
+    label: string;
+    user: number;
+    competitor: number;
+    gap: number; // user - competitor, negative when the user is behind
+}
+
+export interface GapToClose {
+    metric: string;
+    title: string;
+    userStatus: MetricResult["status"];
+    competitorStatus: MetricResult["status"];
+    severity: number;
+    action: string;
+}
+
+// Score points lost on one metric by each side. Since a score is 100 minus
+// everything lost, the differences add up to the score gap (give or take rounding).
+export interface PointSwing {
+    metric: string;
+    title: string;
+    userLost: number;
+    competitorLost: number;
+    difference: number; // competitorLost - userLost, negative when it cost the user
+}
+
+export interface DuelSite {
+    url: string;
+    report: SeoReport;
+}
+
+export interface LeaderboardEntry {
+    url: string;
+    isUser: boolean;
+    rank: number;
+    score: number;
+    seoBreakdown: SeoBreakdown;
+}
+
+export interface MetricMatrixCell {
+    url: string;
+    status: MetricResult["status"] | null; // null when the site's report has no such metric
+    value?: MetricResult["value"];
+}
+
+export interface BestInClass {
+    urls: string[];
+    status: MetricResult["status"];
+    value?: MetricResult["value"];
+}
+
+export interface MetricMatrixRow {
+    metric: string;
+    section: string;
+    title: string;
+    cells: MetricMatrixCell[];
+    bestInClass: BestInClass | null;
+}
+
+export interface MultiDuelComparison {
+    leaderboard: LeaderboardEntry[];
+    matrix: MetricMatrixRow[];
+    headToHead: DuelComparison[];
+    actionPlan: ActionTask[]; // the user's, fixes that win a metric back from a competitor first
+}
+
+export interface DuelComparison {
+    winner: DuelSide;
+    userScore: number;
+    competitorScore: number;
+    scoreGap: number;
+    metrics: MetricComparison[];
+    categories: CategoryGap[];
+    gapsToClose: GapToClose[];
+    pointSwings: PointSwing[]; // biggest loss for the user first
+    verdict: string; // the score gap in a sentence, naming the metrics behind it
+}
+
+// Body of a successful /api/duel response
+export interface DuelResult extends MultiDuelComparison {
+    status: 'ok';
+    id?: string; // set once the duel is saved; shared at /duel/<id>
+    user: SeoAnalysisResponse;
+    competitors: SeoAnalysisResponse[];
+    contentGap: ContentGapReport;
+    keywordCoverage: ({ url: string } & Partial<TargetKeywordInfo>)[] | null;
+    // First competitor only, for clients of the single-competitor duel
+    competitor: SeoAnalysisResponse;
+    comparison: DuelComparison;
+}
+
+type BreakdownKey = Exclude<keyof SeoBreakdown, "summary">;
+
+const BREAKDOWN_KEYS: BreakdownKey[] = ["onPage", "technical", "authority", "accessibility"];
+
+export function compareReports(user: SeoReport, competitor: SeoReport): DuelComparison {
+    const metrics = compareMetrics(user, competitor);
+
+    const categories: CategoryGap[] = BREAKDOWN_KEYS.map(key => ({
+        category: key,
+        label: user.seoBreakdown[key].label,
+        user: user.seoBreakdown[key].score,
+        competitor: competitor.seoBreakdown[key].score,
+        gap: user.seoBreakdown[key].score - competitor.seoBreakdown[key].score
+    }));
+
+    // Every metric the competitor wins is a gap. The bigger the status jump
+    // (critical -> good beats warning -> good), the higher it ranks.
+    const gapsToClose: GapToClose[] = [];
+    metrics.forEach(m => {
+        if (m.winner !== "competitor" || !m.user || !m.competitor) return;
+        gapsToClose.push({
+            metric: m.metric,
+            title: m.user.title,
+            userStatus: m.user.status,
+            competitorStatus: m.competitor.status,
+            severity: STATUS_RANK[m.competitor.status]! - STATUS_RANK[m.user.status]!,
+            action: m.user.action
+        });
+    });
+    gapsToClose.sort((a, b) => b.severity - a.severity);
+
+    const pointSwings = comparePoints(user, competitor);
+    const scoreGap = user.score - competitor.score;
+
+    return {
+        winner: pickWinner(user.score, competitor.score),
+        userScore: user.score,
+        competitorScore: competitor.score,
+        scoreGap,
+        metrics,
+        categories,
+        gapsToClose,
+        pointSwings,
+        verdict: explainVerdict(scoreGap, user.score, pointSwings)
+    };
+}
+
+const metricScores = (report: SeoReport): Map<string, MetricScore> =>
+    new Map(report.scoreBreakdown.map(s => [s.metric, s]));
+
+function comparePoints(user: SeoReport, competitor: SeoReport): PointSwing[] {
+    const userScores = metricScores(user);
+    const compScores = metricScores(competitor);
+    const ids = [...new Set([...userScores.keys(), ...compScores.keys()])];
+
+    return ids
+        .map(id => {
+            const u = userScores.get(id);
+            const c = compScores.get(id);
+            const userLost = u?.lost ?? 0;
+            const competitorLost = c?.lost ?? 0;
+            return {
+                metric: id,
+                title: (u || c)!.title,
+                userLost,
+                competitorLost,
+                difference: Math.round((competitorLost - userLost) * 10) / 10
+            };
+        })
+        .filter(s => s.difference !== 0)
+        .sort((a, b) => a.difference - b.difference);
+}
+
+// e.g. "You trail by 12 points, mostly on Search Visibility Lock (−18) and Content Depth (−6)."
+function explainVerdict(scoreGap: number, score: number, swings: PointSwing[]): string {
+    if (scoreGap === 0) return `It's a tie at ${score} points.`;
+
+    const points = (n: number) => `${n} point${n === 1 ? "" : "s"}`;
+    const behind = scoreGap < 0;
+    const reasons = (behind ? swings : [...swings].reverse())
+        .filter(s => (behind ? s.difference < 0 : s.difference > 0))
+        .slice(0, 3)
+        .map(s => `${s.title} (${s.difference > 0 ? "+" : "−"}${Math.round(Math.abs(s.difference))})`);
+
+    const lead = behind ? `You trail by ${points(-scoreGap)}` : `You lead by ${points(scoreGap)}`;
+    if (reasons.length === 0) return `${lead}.`;
+    const list = reasons.length > 1 ? `${reasons.slice(0, -1).join(", ")} and ${reasons[reasons.length - 1]}` : reasons[0];
+    return `${lead}, ${behind ? "mostly on" : "mostly thanks to"} ${list}.`;
+}
+
+// One site vs. N competitors: a ranked leaderboard, a metric-by-site matrix
+// (user first, then competitors in the order given) and a head-to-head
+// comparison against each competitor.
+export function compareSites(user: DuelSite, competitors: DuelSite[]): MultiDuelComparison {
+    const sites = [user, ...competitors];
+
+    const leaderboard: LeaderboardEntry[] = sites.map((site, i) => ({
+        url: site.url,
+        isUser: i === 0,
+        rank: 1 + sites.filter(other => other.report.score > site.report.score).length,
+        score: site.report.score,
+        seoBreakdown: site.report.seoBreakdown
+    }));
+    // Stable sort keeps the user ahead of competitors with the same score
+    leaderboard.sort((a, b) => a.rank - b.rank);
+
+    const indexes = sites.map(site => indexMetrics(site.report));
+    const matrix: MetricMatrixRow[] = collectIds(indexes).map(id => {
+        const first = indexes.find(idx => idx.has(id))!.get(id)!;
+        const cells: MetricMatrixCell[] = sites.map((site, i) => {
+            const entry = indexes[i].get(id);
+            return {
+                url: site.url,
+                status: entry ? entry.result.status : null,
+                value: entry ? entry.result.value : undefined
+            };
+        });
+
+        return {
+            metric: id,
+            section: first.section,
+            title: first.result.title,
+            cells,
+            bestInClass: pickBestInClass(cells)
+        };
+    });
+
+    return {
+        leaderboard,
+        matrix,
+        headToHead: competitors.map(c => compareReports(user.report, c.report)),
+        actionPlan: prioritizeActions(user, competitors, indexes)
+    };
+}
+
+// Fixes that flip a metric a competitor wins come first, those flipping it
+// against the most competitors first; the rest keep the report's order.
+function prioritizeActions(user: DuelSite, competitors: DuelSite[], indexes: MetricIndex[]): ActionTask[] {
+    return user.report.actionPlan
+        .map(task => {
+            const userRank = STATUS_RANK[task.severity]!;
+            const flips = competitors
+                .filter((c, i) => {
+                    const status = indexes[i + 1].get(task.metric)?.result.status;
+                    const rank = status ? STATUS_RANK[status] : null;
+                    return rank !== null && rank > userRank;
+                })
+                .map(c => c.url);
+            return { ...task, flips };
+        })
+        .sort((a, b) => b.flips.length - a.flips.length);
+}
+
+function pickBestInClass(cells: MetricMatrixCell[]): BestInClass | null {
+    const ranked = cells.filter(c => c.status !== null && STATUS_RANK[c.status] !== null);
+    if (ranked.length === 0) return null;
+
+    const bestRank = Math.max(...ranked.map(c => STATUS_RANK[c.status!]!));
+    const best = ranked.filter(c => STATUS_RANK[c.status!] === bestRank);
+    return {
+        urls: best.map(c => c.url),
+        status: best[0].status!,
+        value: best[0].value
+    };
+}
+
+type MetricIndex = Map<string, { section: string; result: MetricResult }>;
+
+function indexMetrics(report: SeoReport): MetricIndex {
+    const map: MetricIndex = new Map();
+    report.sections.forEach(s => s.metrics.forEach(m => {
+        map.set(m.metric || m.title, { section: s.name, result: m });
+    }));
+    return map;
+}
+
+// Metric ids across all reports, in first-seen order
+function collectIds(indexes: MetricIndex[]): string[] {
+    const ids: string[] = [];
+    indexes.forEach(idx => idx.forEach((_, id) => {
+        if (!ids.includes(id)) ids.push(id);
+    }));
+    return ids;
+}
+
+function compareMetrics(user: SeoReport, competitor: SeoReport): MetricComparison[] {
+    const userMetrics = indexMetrics(user);
+    const compMetrics = indexMetrics(competitor);
+
+    return collectIds([userMetrics, compMetrics]).map(id => {
+        const u = userMetrics.get(id);
+        const c = compMetrics.get(id);
+        const userRank = u ? STATUS_RANK[u.result.status] : null;
+        const compRank = c ? STATUS_RANK[c.result.status] : null;
+
+        // A metric one side didn't measure, or doesn't have, can't be won
+        const winner: DuelSide = userRank !== null && compRank !== null ? pickWinner(userRank, compRank) : "tie";
+
+        return {
+            metric: id,
+            section: (u || c)!.section,
+            user: u ? u.result : null,
+            competitor: c ? c.result : null,
+            winner
+        };
+    });
+}
+
+function pickWinner(user: number, competitor: number): DuelSide {
+    if (user > competitor) return "user";
+    if (user < competitor) return "competitor";
+    return "tie";
+}
@@ -0,0 +1,273 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import type { PageAnalysis } from '@/lib/analysis-schema';
+import { SchemaValidationError } from '@/lib/analysis-schema';
+import type { MetricResult, SeoBreakdown, SeoSection } from '@/lib/seo-interpreter';
+import { BUILT_IN_RULES } from '@/lib/rules';
+import { defineRule, RuleSeverity, RuleThresholds, SectionName, SeoRule } from '@/lib/rules/define';
+
+export type { RuleEffort, RuleMessage, RuleOutcome, RuleSeverity, RuleThresholds, SectionName, SeoRule } from '@/lib/rules/define';
+export { defineRule } from '@/lib/rules/define';
+
+// Every check in a report is a rule: it reads the raw analysis and picks one
+// of its messages. Rules are plain objects in a registry, so a project can
+// switch them off, move their thresholds or add its own through a rules file
+// instead of editing the interpreter.
+
+export type BreakdownKey = Exclude<keyof SeoBreakdown, 'summary'>;
+
+// Report order, and which breakdown category each section's metrics count towards
+export const SECTIONS: { name: SectionName; category: BreakdownKey }[] = [
+    { name: 'Search visibility', category: 'onPage' },
+    { name: 'Content strength', category: 'onPage' },
+    { name: 'Keyword targeting', category: 'onPage' },
+    { name: 'Technical health', category: 'technical' },
+    { name: 'Speed', category: 'technical' },
+    { name: 'Trust & credibility', category: 'authority' },
+    { name: 'Growth signals', category: 'authority' },
+    { name: 'Accessibility', category: 'accessibility' }
+];
+
+const SECTION_NAMES = SECTIONS.map(s => s.name) as [SectionName, ...SectionName[]];
+
+const registry: SeoRule[] = [...BUILT_IN_RULES];
+
+export function registerRule(rule: SeoRule): void {
+    if (registry.some(r => r.id === rule.id)) {
+        throw new Error(`A rule with id "${rule.id}" is already registered`);
+    }
+    registry.push(rule);
+}
+
+export function listRules(): readonly SeoRule[] {
+    return registry;
+}
+
+// --- Configuration ---
+
+const severitySchema = z.enum(['warning', 'critical']);
+const effortSchema = z.enum(['low', 'medium', 'high']);
+
+const ruleOverrideSchema = z.object({
+    enabled: z.boolean().optional(),
+    severity: severitySchema.optional(),
+    weight: z.number().positive().optional(),
+    effort: effortSchema.optional(),
+    thresholds: z.record(z.string(), z.number()).optional()
+});
+
+// A check on one field of the raw analysis, e.g. { field: 'onpage.title.text', contains: 'Acme' }
+const customRuleSchema = z.object({
+    id: z.string().regex(/^[A-Za-z][\w-]*$/, 'must start with a letter and contain only letters, digits, _ and -'),
+    section: z.enum(SECTION_NAMES),
+    title: z.string().min(1),
+    severity: severitySchema.default('warning'),
+    weight: z.number().positive().default(3),
+    effort: effortSchema.default('medium'),
+    field: z.string().min(1),
+    contains: z.string().optional(),
+    matches: z.string().optional(), // a regular expression, only in the project's rules file
+    equals: z.union([z.string(), z.number(), z.boolean()]).optional(),
+    min: z.number().optional(), // for text and lists, compared with their length
+    max: z.number().optional(),
+    caseSensitive: z.boolean().default(false),
+    pass: z.string().min(1),
+    fail: z.string().min(1),
+    whyItMatters: z.string().default(''),
+    action: z.string().min(1) // what to do when the check fails
+}).refine(
+    r => r.contains !== undefined || r.matches !== undefined || r.equals !== undefined || r.min !== undefined || r.max !== undefined,
+    'needs at least one of contains, matches, equals, min or max'
+);
+
+export const ruleConfigSchema = z.object({
+    rules: z.record(z.string(), ruleOverrideSchema).optional(),
+    custom: z.array(customRuleSchema).optional()
+});
+
+export type RuleOverride = z.infer<typeof ruleOverrideSchema>;
+export type CustomRuleConfig = z.infer<typeof customRuleSchema>;
+export type RuleConfig = z.infer<typeof ruleConfigSchema>;
+
+// Throws a SchemaValidationError for malformed configs and for overrides
+// that don't match any rule, so a typo doesn't silently do nothing. Custom
+// rules of the `base` config, usually the project's, can be overridden too.
+// Only the project's rules file may use `matches`: a regular expression sent
+// with a request could hang the server on catastrophic backtracking.
+export function validateRuleConfig(data: unknown, base: RuleConfig = {}, source: 'file' | 'request' = 'request'): RuleConfig {
+    const parsed = ruleConfigSchema.safeParse(data);
+    if (!parsed.success) {
+        throw new SchemaValidationError('rule config', parsed.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`));
+    }
+    const config = parsed.data;
+    const issues: string[] = [];
+
+    const custom = config.custom || [];
+    custom.forEach((c, i) => {
+        if (registry.some(r => r.id === c.id) || custom.findIndex(o => o.id === c.id) !== i) {
+            issues.push(`custom.${i}.id: "${c.id}" is already taken`);
+        }
+        if (c.matches !== undefined && source === 'request') {
+            issues.push(`custom.${i}.matches: regular expressions are only allowed in the project's rules file; use contains`);
+        } else if (c.matches !== undefined) {
+            try {
+                new RegExp(c.matches);
+            } catch {
+                issues.push(`custom.${i}.matches: not a valid regular expression`);
+            }
+        }
+    });
+
+    const rules = [...registry, ...(base.custom || []).map(customRule), ...custom.map(customRule)];
+    Object.entries(config.rules || {}).forEach(([id, override]) => {
+        const rule = rules.find(r => r.id === id);
+        if (!rule) {
+            issues.push(`rules.${id}: no rule with this id`);
+            return;
+        }
+        Object.keys(override.thresholds || {})
+            .filter(key => !(key in rule.thresholds))
+            .forEach(key => issues.push(`rules.${id}.thresholds.${key}: not a threshold of this rule (has ${Object.keys(rule.thresholds).join(', ') || 'none'})`));
+    });
+
+    if (issues.length > 0) throw new SchemaValidationError('rule config', issues);
+    return config;
+}
+
+// Overrides win per rule and per threshold; custom rules are replaced by id
+export function mergeRuleConfigs(base: RuleConfig, override: RuleConfig = {}): RuleConfig {
+    const rules: Record<string, RuleOverride> = { ...base.rules };
+    Object.entries(override.rules || {}).forEach(([id, o]) => {
+        const b = rules[id] || {};
+        rules[id] = { ...b, ...o, thresholds: { ...b.thresholds, ...o.thresholds } };
+    });
+    const overridden = new Set((override.custom || []).map(c => c.id));
+    const custom = [...(base.custom || []).filter(c => !overridden.has(c.id)), ...(override.custom || [])];
+    return { rules, custom };
+}
+
+// The project's rules file, SEODUEL_RULES or ./seoduel.rules.json. Having
+// none is fine; a broken one throws rather than scoring with the defaults.
+export async function loadRuleConfig(): Promise<RuleConfig> {
+    const file = process.env.SEODUEL_RULES || path.join(process.cwd(), 'seoduel.rules.json');
+    let text: string;
+    try {
+        text = await fs.readFile(file, 'utf8');
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return {};
+        throw err;
+    }
+    return validateRuleConfig(JSON.parse(text), {}, 'file');
+}
+
+// The project's rules with a request's own config, if any, on top
+export async function resolveRuleConfig(requested?: RuleConfig): Promise<RuleConfig> {
+    return mergeRuleConfigs(await loadRuleConfig(), requested);
+}
+
+// --- Evaluation ---
+
+// A rule's thresholds with the config's overrides applied
+export function ruleThresholds(rule: SeoRule, config: RuleConfig = {}): RuleThresholds {
+    return { ...rule.thresholds, ...config.rules?.[rule.id]?.thresholds };
+}
+
+function fill(template: string, vars: Record<string, string | number>): string {
+    return template.replace(/\{(\w+)\}/g, (match, name) => (name in vars ? String(vars[name]) : match));
+}
+
+const SEVERITY_RANK: Record<RuleSeverity, number> = { warning: 1, critical: 2 };
+
+// A configured severity replaces the rule's worst status and caps the others,
+// so lowering "title" to a warning also keeps its milder outcomes at most a warning
+function applySeverity(status: MetricResult['status'], rule: SeoRule, severity?: RuleSeverity): MetricResult['status'] {
+    if (!severity || (status !== 'warning' && status !== 'critical')) return status;
+    if (status === rule.severity) return severity;
+    return SEVERITY_RANK[status] > SEVERITY_RANK[severity] ? severity : status;
+}
+
+// Resolves a dotted path like "onpage.title.text" in the raw analysis
+function fieldValue(data: PageAnalysis, field: string): unknown {
+    return field.split('.').reduce<unknown>(
+        (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+        data
+    );
+}
+
+export function customRule(config: CustomRuleConfig): SeoRule {
+    return defineRule({
+        id: config.id,
+        section: config.section,
+        title: config.title,
+        severity: config.severity,
+        weight: config.weight,
+        effort: config.effort,
+        thresholds: {},
+        messages: {
+            pass: { status: 'good', plainExplanation: config.pass, whyItMatters: config.whyItMatters, action: 'No action needed.' },
+            fail: { status: config.severity, plainExplanation: config.fail, whyItMatters: config.whyItMatters, action: config.action },
+            missing: {
+                status: 'unknown',
+                plainExplanation: `"${config.field}" isn't part of the analysis, so this couldn't be checked.`,
+                whyItMatters: config.whyItMatters,
+                action: `Check the field name of the "${config.id}" rule.`
+            }
+        },
+        evaluate(data) {
+            const raw = fieldValue(data, config.field);
+            if (raw === undefined) return { message: 'missing' };
+            const flags = config.caseSensitive ? '' : 'i';
+            const text = typeof raw === 'string' ? raw : JSON.stringify(raw);
+            const size = typeof raw === 'number' ? raw : Array.isArray(raw) || typeof raw === 'string' ? raw.length : NaN;
+
+            const passed = (config.contains === undefined || (config.caseSensitive ? text.includes(config.contains) : text.toLowerCase().includes(config.contains.toLowerCase())))
+                && (config.matches === undefined || new RegExp(config.matches, flags).test(text))
+                && (config.equals === undefined || raw === config.equals)
+                && (config.min === undefined || size >= config.min)
+                && (config.max === undefined || size <= config.max);
+            return {
+                message: passed ? 'pass' : 'fail',
+                value: typeof raw === 'number' || typeof raw === 'boolean' ? raw : passed,
+                vars: { value: typeof raw === 'string' ? raw : text }
+            };
+        }
+    });
+}
+
+// Runs every enabled rule and groups the results into report sections.
+// Sections where no rule applied are left out.
+export function evaluateRules(data: PageAnalysis, config: RuleConfig = {}): SeoSection[] {
+    const rules = [...registry, ...(config.custom || []).map(customRule)];
+    const metrics = new Map<SectionName, MetricResult[]>();
+
+    rules.forEach(rule => {
+        const override = config.rules?.[rule.id];
+        if (override?.enabled === false) return;
+        const thresholds = ruleThresholds(rule, config);
+        const outcome = rule.evaluate(data, thresholds);
+        if (!outcome) return;
+
+        const message = rule.messages[outcome.message];
+        const vars = { ...thresholds, ...outcome.vars };
+        const status = applySeverity(message.status, rule, override?.severity);
+        const fixDetails = (status === 'warning' || status === 'critical') && rule.fix ? rule.fix(data, thresholds) : [];
+        const result: MetricResult = {
+            metric: rule.id,
+            title: fill(message.title || rule.title, vars),
+            status,
+            ...(outcome.value !== undefined && { value: outcome.value }),
+            weight: override?.weight ?? rule.weight,
+            effort: override?.effort ?? rule.effort,
+            plainExplanation: fill(message.plainExplanation, vars),
+            whyItMatters: fill(message.whyItMatters, vars),
+            action: fill(message.action, vars),
+            ...(fixDetails.length > 0 && { fixDetails })
+        };
+        metrics.set(rule.section, [...(metrics.get(rule.section) || []), result]);
+    });
+
+    return SECTIONS
+        .filter(s => metrics.has(s.name))
+        .map(s => ({ name: s.name, metrics: metrics.get(s.name)! }));
+}
@@ -0,0 +1,231 @@
+// How a page's search result looks: the title and description cut to the
+// width Google gives them, measured in pixels as its fonts draw them, and
+// the breadcrumb it shows instead of the URL. Also guesses when Google will
+// show a title of its own instead of the page's.
+
+export type SerpDevice = 'desktop' | 'mobile';
+
+export type TitleRewriteReason = 'missing' | 'boilerplate' | 'tooLong' | 'repetitive';
+
+export interface SnippetLine {
+    text: string; // as shown, with " ..." when cut
+    widthPx: number; // of the full text
+    maxPx: number;
+    truncated: boolean;
+}
+
+export interface SerpPreview {
+    title: SnippetLine;
+    description: SnippetLine;
+}
+
+export interface SerpSnippet {
+    desktop: SerpPreview;
+    mobile: SerpPreview;
+    breadcrumb: string; // e.g. "https://example.com › blog › seo-tips"
+    titleRewrite: { likely: boolean; reasons: TitleRewriteReason[] };
+}
+
+// Finishes "Google will likely rewrite the title because …"
+export const TITLE_REWRITE_REASONS: Record<TitleRewriteReason, string> = {
+    missing: 'the page has no title',
+    boilerplate: 'the title is generic, like "Home" or "Untitled", or little more than the site name',
+    tooLong: 'the title is far too long to show',
+    repetitive: 'the title repeats itself'
+};
+
+// --- Font metrics ---
+
+interface FontMetrics {
+    widths: number[]; // advance widths of ASCII 32-126, in thousandths of an em
+    fallback: number; // for other characters, about an average letter
+}
+
+// Arial shares Helvetica's metrics
+const ARIAL: FontMetrics = {
+    widths: [
+        278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+        556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+        1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+        667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+        333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+        556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+    ],
+    fallback: 556
+};
+
+const ROBOTO: FontMetrics = {
+    widths: [
+        248, 257, 320, 602, 562, 732, 622, 174, 342, 348, 431, 554, 196, 276, 263, 412,
+        562, 562, 562, 562, 562, 562, 562, 562, 562, 562, 242, 211, 508, 549, 522, 472,
+        878, 652, 623, 651, 656, 568, 553, 681, 713, 272, 552, 627, 538, 873, 713, 688,
+        631, 688, 616, 594, 597, 648, 636, 887, 627, 600, 599, 265, 410, 265, 417, 451,
+        309, 530, 549, 512, 551, 517, 340, 549, 538, 237, 233, 495, 237, 856, 539, 558,
+        549, 554, 331, 504, 319, 538, 473, 735, 484, 462, 484, 338, 243, 338, 679
+    ],
+    fallback: 540
+};
+
+interface TextStyle {
+    font: FontMetrics;
+    sizePx: number;
+    maxPx: number; // all lines together for text that wraps
+}
+
+// Google doesn't publish these; they're what its result pages use at the
+// time of writing. Mobile titles wrap to two lines, descriptions to three.
+const LAYOUT: Record<SerpDevice, { title: TextStyle; description: TextStyle }> = {
+    desktop: {
+        title: { font: ARIAL, sizePx: 20, maxPx: 600 },
+        description: { font: ARIAL, sizePx: 14, maxPx: 920 }
+    },
+    mobile: {
+        title: { font: ROBOTO, sizePx: 16, maxPx: 656 },
+        description: { font: ROBOTO, sizePx: 14, maxPx: 984 }
+    }
+};
+
+const BREADCRUMB: TextStyle = { font: ARIAL, sizePx: 14, maxPx: 460 };
+
+export const ELLIPSIS = ' ...';
+
+// Chinese, Japanese and Korean characters, and full-width forms, take a whole em
+const WIDE_CHAR = /[\u1100-\u115F\u2E80-\uA4CF\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]/;
+
+function charWidth(ch: string, font: FontMetrics): number {
+    const code = ch.charCodeAt(0);
+    if (code >= 32 && code <= 126) return font.widths[code - 32];
+    if (WIDE_CHAR.test(ch)) return 1000;
+    // Accented letters are about as wide as the plain ones
+    const base = ch.normalize('NFD').charCodeAt(0);
+    return base >= 32 && base <= 126 ? font.widths[base - 32] : font.fallback;
+}
+
+// In thousandths of an em, unrounded, so widths can be added up
+function textUnits(text: string, font: FontMetrics): number {
+    let units = 0;
+    for (const ch of text) units += charWidth(ch, font);
+    return units;
+}
+
+const toPx = (units: number, style: TextStyle) => Math.round(units * style.sizePx / 1000);
+
+export function measureText(text: string, style: TextStyle): number {
+    return toPx(textUnits(text, style.font), style);
+}
+
+// Cut at the last word that still fits with the ellipsis; a single word too
+// long to fit is cut mid-word. Widths are added up as the text is read, as
+// titles come from the page and can be arbitrarily long.
+function fitText(text: string, style: TextStyle): SnippetLine {
+    const widthPx = measureText(text, style);
+    if (widthPx <= style.maxPx) return { text, widthPx, maxPx: style.maxPx, truncated: false };
+
+    const { font } = style;
+    const fits = (units: number) => toPx(units + textUnits(ELLIPSIS, font), style) <= style.maxPx;
+    const space = charWidth(' ', font);
+    let shown = '';
+    let units = 0;
+    for (const word of text.split(' ')) {
+        const next = shown ? units + space + textUnits(word, font) : textUnits(word, font);
+        if (!fits(next)) break;
+        shown = shown ? `${shown} ${word}` : word;
+        units = next;
+    }
+    if (!shown) {
+        for (const ch of text) {
+            units += charWidth(ch, font);
+            if (!fits(units)) break;
+            shown += ch;
+        }
+    }
+    return { text: shown.replace(/[\s,;:|\-–—]+$/, '') + ELLIPSIS, widthPx, maxPx: style.maxPx, truncated: true };
+}
+
+function preview(device: SerpDevice, title: string, description: string): SerpPreview {
+    const layout = LAYOUT[device];
+    return { title: fitText(title, layout.title), description: fitText(description, layout.description) };
+}
+
+// Google shows the host and the path's folders, not the query string
+function buildBreadcrumb(url: string): string {
+    const { protocol, host, pathname } = new URL(url);
+    const segments = pathname.split('/').filter(Boolean).map(segment => {
+        try {
+            return decodeURIComponent(segment);
+        } catch {
+            return segment;
+        }
+    });
+    return fitText([`${protocol}//${host}`, ...segments].join(' › '), BREADCRUMB).text;
+}
+
+// --- Title rewrites ---
+
+// Far past the space there is, Google tends to replace a title rather than cut it
+const TOO_LONG_FACTOR = 1.5;
+
+const TITLE_SEPARATOR = /\s+[|\-–—:·•»]\s+|\s*[|·•»]\s*/;
+const BOILERPLATE_TITLE = /^(home( ?page)?|index|default|welcome|untitled( document| page)?|new page|page|document|title|my (site|website|blog)|just another wordpress site|coming soon)$/i;
+
+// Repeated words that don't count as repetition
+const STOPWORDS = new Set(['the', 'and', 'for', 'with', 'you', 'your', 'our', 'from', 'are', 'how', 'what', 'der', 'die', 'das', 'und', 'les', 'des', 'los', 'las']);
+
+function predictRewrite(title: string, h1: string): TitleRewriteReason[] {
+    if (!title) return ['missing'];
+    const reasons: TitleRewriteReason[] = [];
+    const lower = title.toLowerCase();
+    const parts = lower.split(TITLE_SEPARATOR).map(p => p.trim());
+
+    // "Home | Acme", or a title that's only separators around the site name
+    if (parts.some(p => BOILERPLATE_TITLE.test(p)) || parts.filter(Boolean).length < parts.length) reasons.push('boilerplate');
+
+    if (measureText(title, LAYOUT.desktop.title) > LAYOUT.desktop.title.maxPx * TOO_LONG_FACTOR) reasons.push('tooLong');
+
+    const words = lower.match(/[\p{L}\p{N}]{3,}/gu) || [];
+    const counts = new Map<string, number>();
+    words.filter(w => !STOPWORDS.has(w)).forEach(w => counts.set(w, (counts.get(w) || 0) + 1));
+    // Every word of the H1 twice over, like "Blue Widgets | Widgets, Blue", however it's punctuated
+    const h1Words = new Set((h1.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []).filter(w => !STOPWORDS.has(w)));
+    const repeatsH1 = h1Words.size > 0 && [...h1Words].every(w => (counts.get(w) || 0) >= 2);
+    const repeatsPart = new Set(parts.filter(Boolean)).size < parts.filter(Boolean).length;
+    if (repeatsH1 || repeatsPart || [...counts.values()].some(n => n >= 3)) reasons.push('repetitive');
+
+    return reasons;
+}
+
+export function buildSnippet(input: { title: string; description: string; url: string; h1: string }): SerpSnippet {
+    // Line breaks and runs of spaces in the markup show as a single space
+    const title = input.title.replace(/\s+/g, ' ').trim();
+    const description = input.description.replace(/\s+/g, ' ').trim();
+    const { url, h1 } = input;
+    const reasons = predictRewrite(title, h1);
+    return {
+        desktop: preview('desktop', title, description),
+        mobile: preview('mobile', title, description),
+        breadcrumb: buildBreadcrumb(url),
+        titleRewrite: { likely: reasons.length > 0, reasons }
+    };
+}
+
+// Where Google cuts a title or description off, checking desktop first
+export function cutOff(snippet: SerpSnippet, element: keyof SerpPreview): { device: SerpDevice; line: SnippetLine } | null {
+    const device = (['desktop', 'mobile'] as const).find(d => snippet[d][element].truncated);
+    return device ? { device, line: snippet[device][element] } : null;
+}
+
+// Whether text shows uncut on both desktop and mobile
+export function fitsSnippet(text: string, element: keyof SerpPreview): boolean {
+    return (['desktop', 'mobile'] as const).every(d => !fitText(text, LAYOUT[d][element]).truncated);
+}
+
+// Ordinary English, to turn the pixel budgets into a rough character count
+const SAMPLE_TEXT = 'How to compare your website with its competitors and win more clicks';
+
+// About how many characters fit uncut on both devices; the real limit is in pixels
+export function approxCharLimit(element: keyof SerpPreview): number {
+    return Math.min(...(['desktop', 'mobile'] as const).map(d => {
+        const style = LAYOUT[d][element];
+        return Math.floor(style.maxPx / (measureText(SAMPLE_TEXT, style) / SAMPLE_TEXT.length));
+    }));
+}
@@ -0,0 +1,147 @@
+import { gunzipSync } from 'zlib';
+import { load } from 'cheerio';
+import fetch from 'node-fetch';
+
+export interface SitemapFile {
+    url: string;
+    status: number | null; // null when the request itself failed
+    type: 'urlset' | 'sitemapindex' | 'invalid';
+    urlCount: number;
+    gzipped: boolean;
+}
+
+export interface SitemapEntry {
+    loc: string;
+    lastmod?: string;
+}
+
+export interface SitemapCrawl {
+    files: SitemapFile[];
+    entries: SitemapEntry[];
+    truncated: boolean; // stopped at MAX_SITEMAP_FILES or MAX_SITEMAP_URLS
+}
+
+export interface SitemapSummary {
+    found: boolean;
+    files: SitemapFile[];
+    urlCount: number;
+    truncated: boolean;
+    listsAnalyzedUrl: boolean;
+    lastmod: {
+        newest: string | null;
+        oldest: string | null;
+        withLastmod: number;
+        updatedLast90Days: number;
+    };
+}
+
+const MAX_SITEMAP_FILES = 10;
+const MAX_SITEMAP_URLS = 50000;
+// Google's own limit for a sitemap, compressed or not; also caps what a gzip bomb unpacks to
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 10_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fetches the given sitemaps and follows sitemap indexes breadth-first until
+// every child is read or one of the limits is hit.
+export async function crawlSitemaps(sitemapUrls: string[]): Promise<SitemapCrawl> {
+    const queue = [...new Set(sitemapUrls)];
+    const visited = new Set<string>();
+    const files: SitemapFile[] = [];
+    const entries: SitemapEntry[] = [];
+    let truncated = false;
+
+    while (queue.length > 0) {
+        if (files.length >= MAX_SITEMAP_FILES || entries.length >= MAX_SITEMAP_URLS) {
+            truncated = true;
+            break;
+        }
+
+        const url = queue.shift()!;
+        if (visited.has(url)) continue;
+        visited.add(url);
+
+        const { file, children, urls } = await fetchSitemap(url);
+        files.push(file);
+        children.forEach(child => {
+            if (!visited.has(child)) queue.push(child);
+        });
+        entries.push(...urls.slice(0, MAX_SITEMAP_URLS - entries.length));
+    }
+
+    return { files, entries, truncated };
+}
+
+async function fetchSitemap(url: string): Promise<{ file: SitemapFile; children: string[]; urls: SitemapEntry[] }> {
+    const file: SitemapFile = { url, status: null, type: 'invalid', urlCount: 0, gzipped: false };
+    try {
+        const res = await fetch(url, {
+            headers: { 'User-Agent': 'SEOduel-Bot/1.0' },
+            signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+            size: MAX_SITEMAP_BYTES
+        });
+        file.status = res.status;
+        if (!res.ok) return { file, children: [], urls: [] };
+
+        // node-fetch already decodes Content-Encoding: gzip; this catches
+        // .xml.gz files served as plain binaries.
+        let body = Buffer.from(await res.arrayBuffer());
+        if (body[0] === 0x1f && body[1] === 0x8b) {
+            body = gunzipSync(body, { maxOutputLength: MAX_SITEMAP_BYTES });
+            file.gzipped = true;
+        }
+
+        const $ = load(body.toString('utf8'), { xml: true });
+        if ($('sitemapindex').length > 0) {
+            const children = $('sitemapindex > sitemap > loc').map((i, el) => $(el).text().trim()).get().filter(Boolean);
+            file.type = 'sitemapindex';
+            file.urlCount = children.length;
+            return { file, children, urls: [] };
+        }
+        if ($('urlset').length > 0) {
+            const urls: SitemapEntry[] = [];
+            $('urlset > url').each((i, el) => {
+                const loc = $(el).children('loc').text().trim();
+                const lastmod = $(el).children('lastmod').text().trim();
+                if (loc) urls.push(lastmod ? { loc, lastmod } : { loc });
+            });
+            file.type = 'urlset';
+            file.urlCount = urls.length;
+            return { file, children: [], urls };
+        }
+    } catch { }
+    return { file, children: [], urls: [] };
+}
+
+// Trailing slashes and fragments don't make a different page
+function comparableUrl(url: string): string {
+    try {
+        const u = new URL(url);
+        u.hash = '';
+        return u.toString().replace(/\/$/, '');
+    } catch {
+        return url;
+    }
+}
+
+export function summarizeSitemaps(crawl: SitemapCrawl, analyzedUrl: string, now = Date.now()): SitemapSummary {
+    const target = comparableUrl(analyzedUrl);
+    const dates = crawl.entries
+        .map(e => (e.lastmod ? Date.parse(e.lastmod) : NaN))
+        .filter(t => !isNaN(t))
+        .sort((a, b) => a - b);
+
+    return {
+        found: crawl.files.some(f => f.type !== 'invalid'),
+        files: crawl.files,
+        urlCount: crawl.entries.length,
+        truncated: crawl.truncated,
+        listsAnalyzedUrl: crawl.entries.some(e => comparableUrl(e.loc) === target),
+        lastmod: {
+            newest: dates.length > 0 ? new Date(dates[dates.length - 1]).toISOString() : null,
+            oldest: dates.length > 0 ? new Date(dates[0]).toISOString() : null,
+            withLastmod: dates.length,
+            updatedLast90Days: dates.filter(t => now - t <= 90 * DAY_MS).length
+        }
+    };
+}
@@ -0,0 +1,159 @@
+import fetch from 'node-fetch';
+import { CheerioAPI } from 'cheerio';
+
+// What Facebook, LinkedIn and X show when the page is shared: every Open
+// Graph and Twitter Card tag, and the preview image as those sites would
+// download it.
+
+const FETCH_TIMEOUT_MS = 10_000;
+
+// Enough of the file to find the dimensions in, past EXIF blocks and the like
+const HEADER_BYTES = 512 * 1024;
+// Downloading stops here; anything this big is far over every site's limit
+const MAX_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+
+// Without these, the sites fill the preview in from whatever they find on the page
+export const REQUIRED_SOCIAL_TAGS = ['og:title', 'og:type', 'og:url', 'og:description', 'og:image', 'twitter:card'];
+
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp';
+
+export interface SocialImage {
+    url: string; // resolved against the page
+    status: number | null; // null when the request failed
+    contentType: string | null;
+    format: ImageFormat | null; // null when the file isn't one the sites show
+    bytes: number | null; // counted up to 20 MB
+    width: number | null;
+    height: number | null;
+    aspectRatio: number | null; // width / height
+}
+
+export interface SocialInfo {
+    hasOg: boolean;
+    ogTitle: string | null;
+    ogImage: string | null; // as the tag has it
+    openGraph: Record<string, string>; // every og:* tag; the first of repeated ones, as the sites use it
+    twitter: Record<string, string>; // every twitter:* tag
+    missing: string[]; // from REQUIRED_SOCIAL_TAGS
+    image: SocialImage | null; // og:image, null without one
+}
+
+// property="og:…" is the standard, name="twitter:…" the usual; pages mix both up
+export function collectTags($: CheerioAPI, prefix: string): Record<string, string> {
+    const tags: Record<string, string> = {};
+    $('meta[property], meta[name]').each((i, el) => {
+        const key = ($(el).attr('property') || $(el).attr('name') || '').trim().toLowerCase();
+        const content = $(el).attr('content')?.trim();
+        if (key.startsWith(prefix) && content && !(key in tags)) tags[key] = content;
+    });
+    return tags;
+}
+
+// --- Image headers ---
+
+function jpegSize(buf: Buffer): { width: number; height: number } | null {
+    let offset = 2;
+    while (offset + 9 < buf.length) {
+        if (buf[offset] !== 0xFF) return null;
+        const marker = buf[offset + 1];
+        // Start-of-frame markers, except DHT (C4), JPG (C8) and DAC (CC)
+        if (marker >= 0xC0 && marker <= 0xCF && ![0xC4, 0xC8, 0xCC].includes(marker)) {
+            return { height: buf.readUInt16BE(offset + 5), width: buf.readUInt16BE(offset + 7) };
+        }
+        offset += 2 + buf.readUInt16BE(offset + 2);
+    }
+    return null;
+}
+
+function webpSize(buf: Buffer): { width: number; height: number } | null {
+    const chunk = buf.toString('ascii', 12, 16);
+    if (chunk === 'VP8 ' && buf.length >= 30) {
+        return { width: buf.readUInt16LE(26) & 0x3FFF, height: buf.readUInt16LE(28) & 0x3FFF };
+    }
+    if (chunk === 'VP8L' && buf.length >= 25) {
+        const bits = buf.readUInt32LE(21);
+        return { width: (bits & 0x3FFF) + 1, height: ((bits >> 14) & 0x3FFF) + 1 };
+    }
+    if (chunk === 'VP8X' && buf.length >= 30) {
+        return { width: buf.readUIntLE(24, 3) + 1, height: buf.readUIntLE(27, 3) + 1 };
+    }
+    return null;
+}
+
+// The format and dimensions from the first bytes of the file
+function readImageHeader(buf: Buffer): { format: ImageFormat | null; width: number | null; height: number | null } {
+    let format: ImageFormat | null = null;
+    let size: { width: number; height: number } | null = null;
+    if (buf.length >= 24 && buf.readUInt32BE(0) === 0x89504E47) {
+        format = 'png';
+        size = { width: buf.readUInt32BE(16), height: buf.readUInt32BE(20) };
+    } else if (buf.length >= 10 && buf.toString('ascii', 0, 4) === 'GIF8') {
+        format = 'gif';
+        size = { width: buf.readUInt16LE(6), height: buf.readUInt16LE(8) };
+    } else if (buf.length >= 16 && buf.toString('ascii', 0, 4) === 'RIFF' && buf.toString('ascii', 8, 12) === 'WEBP') {
+        format = 'webp';
+        size = webpSize(buf);
+    } else if (buf.length >= 4 && buf[0] === 0xFF && buf[1] === 0xD8) {
+        format = 'jpeg';
+        size = jpegSize(buf);
+    }
+    return { format, width: size?.width ?? null, height: size?.height ?? null };
+}
+
+async function fetchImage(url: string): Promise<SocialImage> {
+    const image: SocialImage = { url, status: null, contentType: null, format: null, bytes: null, width: null, height: null, aspectRatio: null };
+    try {
+        const response = await fetch(url, {
+            headers: { 'User-Agent': 'SEOduel-Bot/1.0' },
+            signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+        });
+        image.status = response.status;
+        image.contentType = response.headers.get('content-type')?.split(';')[0].trim().toLowerCase() || null;
+        if (!response.ok || !response.body) return image;
+
+        const head: Buffer[] = [];
+        let bytes = 0;
+        for await (const chunk of response.body) {
+            const buf = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as string);
+            if (bytes < HEADER_BYTES) head.push(buf);
+            bytes += buf.length;
+            if (bytes >= MAX_DOWNLOAD_BYTES) break;
+        }
+        const { format, width, height } = readImageHeader(Buffer.concat(head));
+        return {
+            ...image,
+            format,
+            bytes,
+            width,
+            height,
+            aspectRatio: width && height ? Math.round(width / height * 100) / 100 : null
+        };
+    } catch {
+        return image;
+    }
+}
+
+export async function analyzeSocial($: CheerioAPI, url: string): Promise<SocialInfo> {
+    const openGraph = collectTags($, 'og:');
+    const twitter = collectTags($, 'twitter:');
+    const ogTitle = openGraph['og:title'] || null;
+    const ogImage = openGraph['og:image'] || openGraph['og:image:url'] || openGraph['og:image:secure_url'] || null;
+
+    let imageUrl: string | null = null;
+    try {
+        if (ogImage) imageUrl = new URL(ogImage, url).toString();
+    } catch {
+        // Unresolvable; reported as an image that can't be loaded
+        imageUrl = ogImage;
+    }
+
+    return {
+        hasOg: !!(ogTitle || ogImage),
+        ogTitle,
+        ogImage,
+        openGraph,
+        twitter,
+        missing: REQUIRED_SOCIAL_TAGS.filter(tag => !(tag === 'og:image' ? ogImage : { ...openGraph, ...twitter }[tag])),
+        image: imageUrl ? await fetchImage(imageUrl) : null
+    };
+}
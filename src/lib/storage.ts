@@ -0,0 +1,22 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Local files so history and monitors work without any external service.
+// Point SEODUEL_DATA_DIR somewhere persistent in production.
+export const DATA_DIR = process.env.SEODUEL_DATA_DIR || path.join(process.cwd(), '.data');
+
+export async function readJson<T>(file: string, fallback: T): Promise<T> {
+    try {
+        return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch {
+        return fallback;
+    }
+}
+
+// Written to a temporary file first, so readers never see half a file
+export async function writeJson(file: string, data: unknown): Promise<void> {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(data, null, 2));
+    await fs.rename(tmp, file);
+}
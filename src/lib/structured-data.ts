@@ -0,0 +1,219 @@
+import { CheerioAPI } from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+
+export type StructuredDataFormat = 'json-ld' | 'microdata' | 'rdfa';
+
+type Properties = Record<string, unknown>;
+
+export interface StructuredEntity {
+    format: StructuredDataFormat;
+    type: string;
+    properties: Properties;
+}
+
+export interface ValidatedEntity {
+    format: StructuredDataFormat;
+    type: string;
+    richResult: string | null; // the rich result this type can unlock, if any
+    valid: boolean;
+    missingRequired: string[];
+    missingRecommended: string[];
+}
+
+export interface StructuredDataInfo {
+    entities: ValidatedEntity[];
+    types: string[];
+    jsonLdBlocks: number;
+    jsonLdErrors: number; // blocks that aren't valid JSON
+    eligibleRichResults: string[];
+}
+
+interface RichResultRule {
+    richResult: string;
+    required: string[];
+    requiredAnyOf?: string[]; // at least one of these
+    recommended: string[];
+    // Extra checks on nested values; returns the problems found
+    check?: (props: Properties) => string[];
+}
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : value === undefined ? [] : [value]);
+const isObject = (value: unknown): value is Properties => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Based on Google's rich result documentation, reduced to the properties
+// that decide eligibility.
+const RULES: Record<string, RichResultRule> = {
+    Organization: {
+        richResult: "Organization logo",
+        required: ['name'],
+        recommended: ['url', 'logo', 'sameAs', 'contactPoint']
+    },
+    Product: {
+        richResult: "Product snippet",
+        required: ['name'],
+        requiredAnyOf: ['offers', 'review', 'aggregateRating'],
+        recommended: ['image', 'description', 'brand', 'sku', 'offers', 'aggregateRating']
+    },
+    Article: {
+        richResult: "Article",
+        required: ['headline'],
+        recommended: ['image', 'datePublished', 'dateModified', 'author']
+    },
+    FAQPage: {
+        richResult: "FAQ",
+        required: ['mainEntity'],
+        recommended: [],
+        check: props => asArray(props.mainEntity).some(q =>
+            !isObject(q) || !q.name || !isObject(q.acceptedAnswer) || !q.acceptedAnswer.text)
+            ? ['mainEntity.acceptedAnswer.text']
+            : []
+    },
+    BreadcrumbList: {
+        richResult: "Breadcrumb",
+        required: ['itemListElement'],
+        recommended: [],
+        check: props => asArray(props.itemListElement).some(item =>
+            !isObject(item) || item.position === undefined || (!item.name && !isObject(item.item)))
+            ? ['itemListElement.position', 'itemListElement.name']
+            : []
+    },
+    LocalBusiness: {
+        richResult: "Local business",
+        required: ['name', 'address'],
+        recommended: ['telephone', 'url', 'openingHoursSpecification', 'geo', 'priceRange', 'image']
+    },
+    Review: {
+        richResult: "Review snippet",
+        required: ['itemReviewed', 'reviewRating', 'author'],
+        recommended: ['datePublished', 'reviewBody']
+    }
+};
+
+// Common subtypes validated against their parent's rules
+const TYPE_ALIASES: Record<string, string> = {
+    NewsArticle: 'Article',
+    BlogPosting: 'Article',
+    Corporation: 'Organization',
+    Restaurant: 'LocalBusiness',
+    Store: 'LocalBusiness',
+    MedicalBusiness: 'LocalBusiness',
+    ProfessionalService: 'LocalBusiness'
+};
+
+// "https://schema.org/Product" and "schema:Product" both become "Product"
+function shortType(type: string): string {
+    return type.trim().replace(/^.*[/#:]/, '');
+}
+
+function extractJsonLd($: CheerioAPI): { entities: StructuredEntity[]; blocks: number; errors: number } {
+    const entities: StructuredEntity[] = [];
+    let errors = 0;
+    const scripts = $('script[type="application/ld+json" i]');
+
+    const collect = (node: unknown) => {
+        if (Array.isArray(node)) return node.forEach(collect);
+        if (!isObject(node)) return;
+        if (Array.isArray(node['@graph'])) node['@graph'].forEach(collect);
+        asArray(node['@type']).forEach(type => {
+            if (typeof type === 'string') entities.push({ format: 'json-ld', type: shortType(type), properties: node });
+        });
+    };
+
+    scripts.each((i, el) => {
+        try {
+            collect(JSON.parse($(el).text()));
+        } catch {
+            errors++;
+        }
+    });
+
+    return { entities, blocks: scripts.length, errors };
+}
+
+// Reads microdata or RDFa items. The two only differ in attribute names.
+function extractItems($: CheerioAPI, format: 'microdata' | 'rdfa'): StructuredEntity[] {
+    const attrs = format === 'microdata'
+        ? { scope: 'itemscope', type: 'itemtype', prop: 'itemprop' }
+        : { scope: 'typeof', type: 'typeof', prop: 'property' };
+
+    const readValue = (el: Element): unknown => {
+        const $el = $(el);
+        if ($el.attr(attrs.scope) !== undefined) return readItem(el);
+        return $el.attr('content') ?? $el.attr('href') ?? $el.attr('src') ?? $el.attr('datetime') ?? $el.text().trim();
+    };
+
+    // Properties belong to the closest enclosing item, so stop at nested scopes
+    const readItem = (item: Element): Properties => {
+        const props: Properties = {};
+        const walk = (nodes: AnyNode[]) => nodes.forEach(node => {
+            if (node.type !== 'tag') return;
+            const el = node as Element;
+            const prop = $(el).attr(attrs.prop);
+            if (prop) {
+                prop.split(/\s+/).map(shortType).forEach(name => {
+                    props[name] = props[name] === undefined ? readValue(el) : [...asArray(props[name]), readValue(el)];
+                });
+            }
+            if ($(el).attr(attrs.scope) === undefined) walk(el.children);
+        });
+        walk(item.children);
+        return props;
+    };
+
+    const entities: StructuredEntity[] = [];
+    $(`[${attrs.scope}]`).each((i, el) => {
+        // Nested items are read as properties of their parent
+        if ($(el).attr(attrs.prop) !== undefined) return;
+        const types = ($(el).attr(attrs.type) || '').split(/\s+/).filter(Boolean);
+        const properties = readItem(el as Element);
+        types.forEach(type => entities.push({ format, type: shortType(type), properties }));
+    });
+    return entities;
+}
+
+function validate(entity: StructuredEntity): ValidatedEntity {
+    const rule = RULES[TYPE_ALIASES[entity.type] || entity.type];
+    if (!rule) {
+        return { format: entity.format, type: entity.type, richResult: null, valid: true, missingRequired: [], missingRecommended: [] };
+    }
+
+    const has = (prop: string) => {
+        const value = entity.properties[prop];
+        return value !== undefined && value !== null && value !== '' && asArray(value).length > 0;
+    };
+    const missingRequired = rule.required.filter(p => !has(p));
+    if (rule.requiredAnyOf && !rule.requiredAnyOf.some(has)) {
+        missingRequired.push(rule.requiredAnyOf.join(' or '));
+    }
+    if (missingRequired.length === 0 && rule.check) {
+        missingRequired.push(...rule.check(entity.properties));
+    }
+
+    return {
+        format: entity.format,
+        type: entity.type,
+        richResult: rule.richResult,
+        valid: missingRequired.length === 0,
+        missingRequired,
+        missingRecommended: rule.recommended.filter(p => !has(p))
+    };
+}
+
+export function analyzeStructuredData($: CheerioAPI): StructuredDataInfo {
+    const jsonLd = extractJsonLd($);
+    const entities = [
+        ...jsonLd.entities,
+        ...extractItems($, 'microdata'),
+        ...extractItems($, 'rdfa')
+    ].map(validate);
+
+    const eligible = entities.filter(e => e.valid && e.richResult).map(e => e.richResult!);
+
+    return {
+        entities,
+        types: [...new Set(entities.map(e => e.type))],
+        jsonLdBlocks: jsonLd.blocks,
+        jsonLdErrors: jsonLd.errors,
+        eligibleRichResults: [...new Set(eligible)]
+    };
+}
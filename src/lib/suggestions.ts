@@ -0,0 +1,160 @@
+import OpenAI from 'openai';
+import { z } from 'zod';
+import { SchemaValidationError } from '@/lib/analysis-schema';
+import { listRules, resolveRuleConfig, ruleThresholds } from '@/lib/seo-rules';
+import { approxCharLimit, fitsSnippet, SerpPreview } from '@/lib/serp-snippet';
+
+// Rewrites of a page's title and meta description, and subtopics worth
+// covering, from any OpenAI-compatible chat model. The feature is optional:
+// it's off until SEODUEL_AI_KEY is set. SEODUEL_AI_BASE_URL points it at
+// another provider or a local server, SEODUEL_AI_MODEL picks the model.
+
+const DEFAULT_MODEL = 'gpt-4o-mini';
+const TIMEOUT_MS = 30_000;
+const MAX_SUGGESTIONS = 3;
+
+const pageSchema = z.object({
+    url: z.string(),
+    title: z.string().default(''),
+    metaDescription: z.string().default(''),
+    headings: z.array(z.string()).max(50).default([]) // H2s and H3s, for the subtopics
+});
+
+export const suggestRequestSchema = z.object({
+    page: pageSchema.extend({
+        h1: z.string().default(''),
+        keywords: z.array(z.string()).max(30).default([]) // most used terms first
+    }),
+    targetKeyword: z.string().optional(),
+    competitors: z.array(pageSchema).max(5).default([])
+});
+
+export type SuggestRequest = z.infer<typeof suggestRequestSchema>;
+
+// What the model is asked to answer with
+const modelOutputSchema = z.object({
+    titles: z.array(z.string()).default([]),
+    metaDescriptions: z.array(z.string()).default([]),
+    subtopics: z.array(z.object({ heading: z.string(), reason: z.string().default('') })).default([])
+});
+
+// max is only a guide for the model: suggestions are kept when Google shows them uncut
+export interface LengthLimits {
+    title: { min: number; max: number };
+    metaDescription: { min: number; max: number };
+}
+
+export interface Suggestions {
+    model: string;
+    limits: LengthLimits; // suggestions too short or cut off in Google are dropped
+    titles: string[];
+    metaDescriptions: string[];
+    subtopics: { heading: string; reason: string }[];
+}
+
+// The model couldn't be reached or answered with something unusable
+export class SuggestionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SuggestionError';
+    }
+}
+
+export function suggestionsEnabled(): boolean {
+    return !!process.env.SEODUEL_AI_KEY;
+}
+
+export function suggestionModel(): string {
+    return process.env.SEODUEL_AI_MODEL || DEFAULT_MODEL;
+}
+
+export function validateSuggestRequest(data: unknown): SuggestRequest {
+    const parsed = suggestRequestSchema.safeParse(data);
+    if (!parsed.success) {
+        throw new SchemaValidationError('suggestion request', parsed.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`));
+    }
+    return parsed.data;
+}
+
+// The shortest lengths the title and meta description checks pass, with the
+// project's overrides, and about how much Google shows uncut. For descriptions
+// we aim for the recommended length, not the bare minimum.
+async function lengthLimits(): Promise<LengthLimits> {
+    const config = await resolveRuleConfig();
+    const thresholds = (id: string) => ruleThresholds(listRules().find(r => r.id === id)!, config);
+    const meta = thresholds('metaDescription');
+    return {
+        title: { min: thresholds('title').min, max: approxCharLimit('title') },
+        metaDescription: { min: meta.ideal ?? meta.min, max: approxCharLimit('description') }
+    };
+}
+
+function buildPrompt(input: SuggestRequest, limits: LengthLimits): OpenAI.Chat.ChatCompletionMessageParam[] {
+    const system = [
+        'You are an SEO copywriter. Rewrite the page\'s title and meta description so they earn more clicks from Google',
+        'than the competitors\' while staying truthful to the page. Then name subtopics the competitors cover and the page doesn\'t.',
+        `Titles must be ${limits.title.min}-${limits.title.max} characters, meta descriptions ${limits.metaDescription.min}-${limits.metaDescription.max} characters.`,
+        input.targetKeyword ? `Use the target keyword "${input.targetKeyword}" in every title and description.` : '',
+        `Answer with JSON only: {"titles": [${MAX_SUGGESTIONS} strings], "metaDescriptions": [${MAX_SUGGESTIONS} strings],`,
+        '"subtopics": [{"heading": string, "reason": string}]}. Write in the language of the page.'
+    ].filter(Boolean).join(' ');
+
+    const { page, competitors } = input;
+    return [
+        { role: 'system', content: system },
+        { role: 'user', content: JSON.stringify({ page, competitors }) }
+    ];
+}
+
+// Long enough for the checks, and shown uncut in Google's results
+const fits = (limit: { min: number }, element: keyof SerpPreview) => (text: string) => text.length >= limit.min && fitsSnippet(text, element);
+
+function tidy(texts: string[], limit: { min: number }, element: keyof SerpPreview): string[] {
+    return [...new Set(texts.map(t => t.trim().replace(/\s+/g, ' ')))].filter(fits(limit, element)).slice(0, MAX_SUGGESTIONS);
+}
+
+// Throws a SuggestionError when the model fails; check suggestionsEnabled() first
+export async function suggestRewrites(input: SuggestRequest): Promise<Suggestions> {
+    const limits = await lengthLimits();
+    const model = suggestionModel();
+    const client = new OpenAI({
+        apiKey: process.env.SEODUEL_AI_KEY,
+        baseURL: process.env.SEODUEL_AI_BASE_URL || undefined,
+        timeout: TIMEOUT_MS,
+        maxRetries: 1
+    });
+
+    let content: string | null | undefined;
+    try {
+        const completion = await client.chat.completions.create({
+            model,
+            messages: buildPrompt(input, limits),
+            response_format: { type: 'json_object' },
+            temperature: 0.7
+        });
+        content = completion.choices[0]?.message?.content;
+    } catch (err) {
+        if (err instanceof OpenAI.APIError) throw new SuggestionError(`The model request failed: ${err.message}`);
+        throw err;
+    }
+
+    let output: z.infer<typeof modelOutputSchema>;
+    try {
+        output = modelOutputSchema.parse(JSON.parse(content || ''));
+    } catch {
+        throw new SuggestionError('The model didn\'t answer with the expected JSON');
+    }
+
+    // Subtopics the page already has a heading for aren't missing
+    const existing = new Set(input.page.headings.map(h => h.trim().toLowerCase()));
+    return {
+        model,
+        limits,
+        titles: tidy(output.titles, limits.title, 'title'),
+        metaDescriptions: tidy(output.metaDescriptions, limits.metaDescription, 'description'),
+        subtopics: output.subtopics
+            .map(s => ({ heading: s.heading.trim(), reason: s.reason.trim() }))
+            .filter(s => s.heading && !existing.has(s.heading.toLowerCase()))
+            .slice(0, 10)
+    };
+}
@@ -0,0 +1,56 @@
+import http from 'http';
+import https from 'https';
+import type { Socket } from 'net';
+
+export interface ConnectionTiming {
+    dnsMs: number | null;
+    connectMs: number | null;
+    tlsMs: number | null; // null for plain HTTP
+}
+
+// Agents that open a fresh socket per request and record how long its DNS
+// lookup, TCP connect and TLS handshake took. Pass `agent` to node-fetch and
+// read `lastConnection()` once the response arrives.
+export function createTimingAgent() {
+    let last: ConnectionTiming = { dnsMs: null, connectMs: null, tlsMs: null };
+
+    const track = (socket: Socket) => {
+        const start = performance.now();
+        let lookupAt: number | null = null;
+        let connectAt: number | null = null;
+        const timing: ConnectionTiming = { dnsMs: null, connectMs: null, tlsMs: null };
+        last = timing;
+
+        socket.once('lookup', () => {
+            lookupAt = performance.now();
+            timing.dnsMs = Math.round(lookupAt - start);
+        });
+        socket.once('connect', () => {
+            connectAt = performance.now();
+            timing.connectMs = Math.round(connectAt - (lookupAt ?? start));
+        });
+        socket.once('secureConnect', () => {
+            timing.tlsMs = Math.round(performance.now() - (connectAt ?? start));
+        });
+        return socket;
+    };
+
+    class TimingHttpAgent extends http.Agent {
+        createConnection(...args: Parameters<http.Agent['createConnection']>) {
+            return track(super.createConnection(...args) as Socket);
+        }
+    }
+    class TimingHttpsAgent extends https.Agent {
+        createConnection(...args: Parameters<https.Agent['createConnection']>) {
+            return track(super.createConnection(...args) as Socket);
+        }
+    }
+
+    const httpAgent = new TimingHttpAgent({ keepAlive: false });
+    const httpsAgent = new TimingHttpsAgent({ keepAlive: false });
+
+    return {
+        agent: (url: URL) => (url.protocol === 'http:' ? httpAgent : httpsAgent),
+        lastConnection: () => ({ ...last })
+    };
+}